@@ -22,7 +22,7 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { handleCompute, executeParallelAPICalls } from './compute';
 import { createRxNormClient } from '../services/rxnorm-client';
 import { createFDAClient } from '../services/fda-client';
-import { parseSIG } from '../services/sig-parser';
+import { parseSIG, parseSIGWithMetadata } from '../services/sig-parser';
 import { DependencyError, ParseError } from '../utils/errors';
 import type { ComputeRequest, NDCPackageData } from '../types/index';
 
@@ -710,5 +710,129 @@ describe('Compute Handler Integration Tests', () => {
       expect(response.ndc_selection.chosen?.ndc).toBe('00093010502'); // Preferred NDC selected
     });
   });
+
+  describe('SIG Duration vs days_supply', () => {
+    const mockNDCs: NDCPackageData[] = [
+      { ndc: '00093010501', pkg_size: 30, active: true, dosage_form: 'CAPSULE' },
+      { ndc: '00093010502', pkg_size: 10, active: true, dosage_form: 'CAPSULE' },
+    ];
+
+    beforeEach(async () => {
+      // Parse real SIG text so the duration clause comes from the SIG structure
+      const actual = await vi.importActual<typeof import('../services/sig-parser')>('../services/sig-parser');
+      vi.mocked(parseSIGWithMetadata).mockImplementation(actual.parseSIGWithMetadata);
+
+      mockRxNormClient.findRxcuiByString = vi.fn().mockResolvedValue('723');
+      mockRxNormClient.getNdcsByRxcui = vi.fn().mockResolvedValue(['00093010501', '00093010502']);
+      mockFDAClient.searchByBrandName = vi.fn().mockResolvedValue(mockNDCs);
+    });
+
+    it('should base the quantity on the SIG duration by default and flag the conflict', async () => {
+      const response = await handleCompute({ drug_input: 'amoxicillin', sig: '1 cap TID x 10 days', days_supply: 30 });
+
+      expect(response.computed.days_supply).toBe(10);
+      expect(response.computed.total_qty).toBe(30);
+      expect(response.flags.days_supply_conflict).toEqual({ sig_days: 10, days_supply: 30, source: 'duration', applied: 'sig' });
+    });
+
+    it('should keep days_supply when duration_policy is days_supply', async () => {
+      const response = await handleCompute({
+        drug_input: 'amoxicillin',
+        sig: '1 cap TID x 10 days',
+        days_supply: 30,
+        duration_policy: 'days_supply',
+      });
+
+      expect(response.computed.days_supply).toBe(30);
+      expect(response.computed.total_qty).toBe(90);
+      expect(response.flags.days_supply_conflict).toMatchObject({ sig_days: 10, applied: 'days_supply' });
+    });
+
+    it('should not flag a SIG duration that matches days_supply', async () => {
+      const response = await handleCompute({ drug_input: 'amoxicillin', sig: '1 cap TID x 10 days', days_supply: 10 });
+
+      expect(response.flags.days_supply_conflict).toBeUndefined();
+    });
+
+    it('should not read the on days of a cycle as the course duration', async () => {
+      const response = await handleCompute({ drug_input: 'capecitabine', sig: '1 cap daily x 5 days in a 28 day cycle', days_supply: 28 });
+
+      expect(response.computed.days_supply).toBe(28);
+      expect(response.computed.total_qty).toBe(5);
+      expect(response.flags.days_supply_conflict).toBeUndefined();
+    });
+  });
+
+  describe('Injectable Routes', () => {
+    beforeEach(async () => {
+      const actual = await vi.importActual<typeof import('../services/sig-parser')>('../services/sig-parser');
+      vi.mocked(parseSIGWithMetadata).mockImplementation(actual.parseSIGWithMetadata);
+      mockRxNormClient.findRxcuiByString = vi.fn().mockResolvedValue('2200750');
+      mockRxNormClient.getNdcsByRxcui = vi.fn().mockResolvedValue(['00169430530']);
+    });
+
+    it('should keep oral semaglutide as tablets instead of pens', async () => {
+      mockFDAClient.searchByBrandName = vi.fn().mockResolvedValue([
+        { ndc: '00169430530', pkg_size: 30, active: true, dosage_form: 'TABLET', strength: { amount: 7, unit: 'mg', per_amount: 1, per_unit: null } },
+      ]);
+
+      const response = await handleCompute({ drug_input: 'semaglutide 7 mg tablet', sig: 'Take 7 mg by mouth once daily', days_supply: 30 });
+
+      expect(response.computed.dose_unit).toBe('tab');
+      expect(response.computed.total_qty).toBe(30);
+    });
+  });
+
+  describe('Dose Packs', () => {
+    beforeEach(async () => {
+      const actual = await vi.importActual<typeof import('../services/sig-parser')>('../services/sig-parser');
+      vi.mocked(parseSIGWithMetadata).mockImplementation(actual.parseSIGWithMetadata);
+      mockRxNormClient.findRxcuiByString = vi.fn().mockResolvedValue('141962');
+      mockRxNormClient.getNdcsByRxcui = vi.fn().mockResolvedValue(['00069306075']);
+      mockFDAClient.searchByBrandName = vi.fn().mockResolvedValue([
+        { ndc: '00069306075', pkg_size: 18, active: true, dosage_form: 'TABLET, FILM COATED', package_description: '3 BLISTER PACK in 1 CARTON > 6 TABLET, FILM COATED in 1 BLISTER PACK' },
+      ]);
+    });
+
+    it('should flag a SIG that runs longer than the Z-Pak course', async () => {
+      const response = await handleCompute({ drug_input: 'azithromycin 250 mg', sig: 'Take 1 tab daily x 6 days', days_supply: 6 });
+
+      expect(response.computed.total_qty).toBe(6);
+      expect(response.flags.dose_pack_mismatch).toEqual({ pack_units: 6, sig_quantity: 6, packs: 1, course_days: 5, sig_days: 6 });
+    });
+
+    it('should not flag the Z-Pak schedule', async () => {
+      const response = await handleCompute({
+        drug_input: 'azithromycin 250 mg',
+        sig: 'Take 2 tabs on day 1, then 1 tab daily x 4 days',
+        days_supply: 5,
+      });
+
+      expect(response.computed.total_qty).toBe(6);
+      expect(response.flags.dose_pack_mismatch).toBeUndefined();
+    });
+  });
+
+  describe('PRN Mass Doses', () => {
+    beforeEach(async () => {
+      const actual = await vi.importActual<typeof import('../services/sig-parser')>('../services/sig-parser');
+      vi.mocked(parseSIGWithMetadata).mockImplementation(actual.parseSIGWithMetadata);
+      mockRxNormClient.findRxcuiByString = vi.fn().mockResolvedValue('198440');
+      mockRxNormClient.getNdcsByRxcui = vi.fn().mockResolvedValue(['00904198261']);
+      mockFDAClient.searchByBrandName = vi.fn().mockResolvedValue([
+        { ndc: '00904198261', pkg_size: 100, active: true, dosage_form: 'TABLET', strength: { amount: 500, unit: 'mg', per_amount: 1, per_unit: null } },
+      ]);
+    });
+
+    it('should keep the PRN flag and assumption after converting a mass dose', async () => {
+      const response = await handleCompute({ drug_input: 'acetaminophen 500 mg', sig: 'Take 500 mg q6h prn pain', days_supply: 30 });
+
+      expect(response.computed.dose_unit).toBe('tab');
+      expect(response.computed.total_qty).toBe(120);
+      expect(response.flags.prn).toBe(true);
+      expect(response.flags.notes).toContainEqual(expect.stringContaining('assuming maximum scheduled use'));
+      expect(response.reasoning.sig_parsing.prn?.basis).toBe('max_scheduled_frequency');
+    });
+  });
 });
 
@@ -17,7 +17,15 @@ import { parseSIGWithMetadata } from '../services/sig-parser';
 import { calculateQuantityWithRounding } from '../services/quantity-calculator';
 import { selectPackagesWithScoring } from '../services/package-selector';
 import { detectDosageFormWithMetadata } from '../services/dosage-form-detector';
+import { convertStrengthDose } from '../services/strength-converter';
+import { convertInjectableDose, isInjectedDose, toDevicePackages } from '../services/injectable-dosing';
+import type { InjectableDoseDetails } from '../services/injectable-dosing';
+import { applyPatientWeight, roundToMeasurableDose } from '../services/weight-based-dosing';
+import type { MeasurableDoseRounding, WeightCalculationDetails } from '../services/weight-based-dosing';
 import { logInfo, logWarn, logError } from '../utils/logger';
+import { isMassUnit, parseStrength } from '../utils/unit-conversions';
+import { suggestPenNeedles } from '../utils/supplies-config';
+import { toDosePackPackages } from '../utils/dose-pack-config';
 import { DependencyError, ParseError } from '../utils/errors';
 import type { ComputeRequest, ComputeResponse } from '../types/index';
 import type { NDCPackageData } from '../types/index';
@@ -359,7 +367,11 @@ export async function handleCompute(
     const { apiCallResults, ...merged } = mergedWithAPIResults;
 
     // Step 2: Parse SIG with metadata
-    const sigParsingResult = await parseSIGWithMetadata(request.sig, request.quantity_unit_override);
+    const sigParsingResult = await parseSIGWithMetadata(
+      request.sig,
+      request.quantity_unit_override,
+      request.range_policy
+    );
     
     if (!sigParsingResult.parsed) {
       // SIG parsing failed - return parse_error
@@ -369,7 +381,10 @@ export async function handleCompute(
       );
     }
 
-    const parsedSIG = sigParsingResult.parsed;
+    let parsedSIG = sigParsingResult.parsed;
+    let unitConversion = sigParsingResult.unit_conversion;
+    let candidateNdcs = merged.ndcs;
+    let concentrations: string[] = [];
 
     logInfo('SIG parsed successfully', {
       ...context,
@@ -377,11 +392,65 @@ export async function handleCompute(
       per_day: parsedSIG.per_day,
     });
 
+    // Step 2.3: Weight-based doses ("40 mg/kg/day") become a mass dose for this patient
+    let weightBasedDosing: (WeightCalculationDetails & { measurable_dose?: MeasurableDoseRounding }) | undefined;
+    if (parsedSIG.weight_based) {
+      const weightResult = applyPatientWeight(parsedSIG, request.patient_weight);
+      parsedSIG = weightResult.parsed;
+      weightBasedDosing = weightResult.calculation;
+    } else if (request.dosing_mode === 'weight_based') {
+      throw new ParseError(
+        'Weight-based dosing requires a dose per kg in the prescription directions (SIG).',
+        'dosing_mode is weight_based but the directions do not give a dose per kg (e.g., "40 mg/kg/day divided BID").'
+      );
+    }
+
+    // Step 2.4: Convert mass doses ("500 mg") into tablets/capsules/mL using product strength
+    // or the request's liquid concentration. Only packages of the selected strength are considered from here on
+    // Topical grams are an amount of cream, not of drug, and are already dispensable
+    // Known injectables (GLP-1 pens, prefilled syringes, mg/mL vials) are counted in devices instead,
+    // but only for injected doses - oral semaglutide tablets share a name with the pens
+    const injectableConversion = isMassUnit(parsedSIG.dose_unit) && !parsedSIG.topical &&
+      isInjectedDose(sigParsingResult.structured, merged.ndcs)
+      ? convertInjectableDose(parsedSIG, request.drug_input)
+      : null;
+    let injectableDevice: InjectableDoseDetails | undefined;
+    if (injectableConversion) {
+      parsedSIG = injectableConversion.parsed;
+      injectableDevice = injectableConversion.details;
+      candidateNdcs = toDevicePackages(merged.ndcs);
+    } else if (isMassUnit(parsedSIG.dose_unit) && !parsedSIG.topical) {
+      const requestConcentration = request.concentration ? parseStrength(request.concentration) ?? undefined : undefined;
+      const strengthConversion = convertStrengthDose(parsedSIG, merged.ndcs, requestConcentration);
+      if (!strengthConversion) {
+        throw new ParseError(
+          `Unable to convert a ${parsedSIG.dose_unit} dose without a product strength.`,
+          'The directions give the dose as a strength (e.g., "500 mg") but no matching product strength was found. Please enter the dose in tablets, capsules or mL.'
+        );
+      }
+      parsedSIG = strengthConversion.parsed;
+      unitConversion = strengthConversion.conversion;
+      candidateNdcs = strengthConversion.packages;
+      if (strengthConversion.conversion.to === 'mL') {
+        concentrations = strengthConversion.concentrations;
+      }
+
+      // Weight-based liquid doses are rarely measurable as computed - round each dose to a syringe increment
+      if (weightBasedDosing) {
+        const measurableDose = roundToMeasurableDose(parsedSIG);
+        if (measurableDose) {
+          parsedSIG = measurableDose.parsed;
+          weightBasedDosing.measurable_dose = measurableDose.rounding;
+        }
+      }
+    }
+
     // Step 2.5: Detect dosage form with metadata
     const dosageFormResult = detectDosageFormWithMetadata(
       request.drug_input,
-      merged.ndcs,
-      parsedSIG.dose_unit
+      candidateNdcs,
+      parsedSIG.dose_unit,
+      request.sig
     );
     const dosageForm = dosageFormResult.detected;
 
@@ -390,15 +459,25 @@ export async function handleCompute(
       dosage_form: dosageForm,
     });
 
+    // Step 2.6: Resolve a duration clause in the SIG ("x 10 days") against the requested days_supply
+    // duration_policy decides which one the quantity is based on (default: the SIG duration)
+    // Cyclic regimens already count their on days, so a duration never overrides their days_supply
+    const sigDurationDays = parsedSIG.cycle ? null : sigParsingResult.structured?.duration_days ?? null;
+    const durationPolicy = request.duration_policy ?? 'sig';
+    const daysSupply = sigDurationDays !== null && durationPolicy === 'sig'
+      ? sigDurationDays
+      : request.days_supply;
+
     // Step 3: Calculate quantity with rounding details
     // Pass available packages to help determine pen/vial format for insulin
     const quantityResult = calculateQuantityWithRounding(
       parsedSIG,
-      request.days_supply,
+      daysSupply,
       dosageForm,
       request.drug_input,
       request.quantity_unit_override,
-      merged.ndcs // Pass available packages for insulin pen/vial detection
+      candidateNdcs, // Pass available packages for insulin pen/vial detection
+      sigParsingResult.frequency // Injections per day for insulin priming
     );
     const computed = quantityResult.computed;
 
@@ -408,11 +487,20 @@ export async function handleCompute(
       per_day: computed.per_day,
     });
 
+    // Step 3.1: Suggest pen needles for insulin pens when companion supplies are requested
+    const roundingDetails = quantityResult.rounding.details;
+    const companionSupplies = request.include_supplies && dosageForm === 'insulin' && roundingDetails?.is_pen && Number(roundingDetails.injections) > 0
+      ? [suggestPenNeedles(Number(roundingDetails.injections))]
+      : undefined;
+
     // Step 4: Select packages with scoring details
     // Calculate base quantity before rounding for accurate overfill calculation
-    const baseQty = parsedSIG.per_day * request.days_supply;
+    // Dose packs cannot be split, so they are matched as whole packs against the rounded quantity
+    const isDosePackFill = quantityResult.rounding.rule === 'round_to_whole_dose_packs';
+    const dosePackNdcs = isDosePackFill ? toDosePackPackages(candidateNdcs, request.drug_input) : [];
+    const baseQty = isDosePackFill ? computed.total_qty : quantityResult.rounding.before;
     const packageSelectionWithScoring = selectPackagesWithScoring(
-      merged.ndcs,
+      dosePackNdcs.length > 0 ? dosePackNdcs : candidateNdcs,
       computed.total_qty, // Use rounded quantity for package matching
       {
         maxPacks: 3, // MAX_PACKS from config
@@ -445,19 +533,38 @@ export async function handleCompute(
           quantity_per_dose: sigParsingResult.quantity_per_dose || 1,
           frequency: sigParsingResult.frequency || sigParsingResult.parsed.per_day,
         } : null,
-        unit_conversion: sigParsingResult.unit_conversion,
+        interval_hours: sigParsingResult.interval_hours,
+        prn: sigParsingResult.prn,
+        phases: parsedSIG.phases,
+        dosing_schedule: sigParsingResult.dosing_schedule,
+        weekday_schedule: parsedSIG.weekday_schedule,
+        cycle: parsedSIG.cycle,
+        topical: parsedSIG.topical,
+        wear_hours: parsedSIG.wear_hours,
+        application_sites: parsedSIG.application_sites,
+        tablet_splitting: sigParsingResult.tablet_splitting,
+        dose_range: sigParsingResult.dose_range,
+        structured: sigParsingResult.structured,
+        unit_conversion: unitConversion,
+        weight_based_dosing: weightBasedDosing,
+        injectable_device: injectableDevice,
       },
       dosage_form: {
         detected: dosageFormResult.detected,
         method: dosageFormResult.method,
         matched_keywords: dosageFormResult.matched_keywords,
+        device_type: dosageFormResult.device_type,
       },
       quantity_calculation: {
         base_calculation: {
           per_day: computed.per_day,
-          days_supply: request.days_supply,
-          total_qty: computed.per_day * request.days_supply,
+          days_supply: daysSupply,
+          total_qty: quantityResult.rounding.before,
         },
+        phase_schedule: quantityResult.phase_schedule,
+        dose_schedule: quantityResult.dose_schedule,
+        weekday_schedule: quantityResult.weekday_schedule,
+        cycle_schedule: quantityResult.cycle_schedule,
         rounding: quantityResult.rounding,
         final_qty: computed.total_qty,
       },
@@ -489,12 +596,15 @@ export async function handleCompute(
         dose_unit: computed.dose_unit,
         per_day: computed.per_day,
         total_qty: computed.total_qty,
-        days_supply: request.days_supply,
+        days_supply: daysSupply,
+        calendar_days: computed.calendar_days,
+        dosing_days: computed.dosing_days,
       },
       ndc_selection: {
         chosen: packageSelection.chosen,
         alternates: packageSelection.alternates,
       },
+      ...(companionSupplies && { companion_supplies: companionSupplies }),
       flags: {
         inactive_ndcs: merged.ndcs.filter((pkg) => !pkg.active).map((pkg) => pkg.ndc),
         mismatch: merged.mismatch,
@@ -503,6 +613,135 @@ export async function handleCompute(
       reasoning,
     };
 
+    // Flag as-needed dosing and the assumption behind its daily quantity
+    if (sigParsingResult.prn) {
+      response.flags.prn = true;
+      response.flags.notes?.push(sigParsingResult.prn.assumption);
+    }
+
+    // Record the tablet-splitting assumption behind fractional tablet doses
+    if (sigParsingResult.tablet_splitting) {
+      response.flags.notes?.push(sigParsingResult.tablet_splitting.assumption);
+    }
+
+    // Show the weight math behind a weight-based dose
+    if (weightBasedDosing) {
+      const perDoseNote = weightBasedDosing.measurable_dose
+        ? `; ${weightBasedDosing.measurable_dose.before.toFixed(2)} mL per dose rounded to ${weightBasedDosing.measurable_dose.after} mL`
+        : '';
+      response.flags.notes?.push(
+        `Weight-based dose: ${weightBasedDosing.amount_per_kg} ${weightBasedDosing.unit}/kg/${weightBasedDosing.basis} × ${Number(weightBasedDosing.weight_kg.toFixed(2))} kg = ${Number(weightBasedDosing.per_day.toFixed(2))} ${weightBasedDosing.unit}/day in ${weightBasedDosing.doses_per_day} dose(s) of ${Number(weightBasedDosing.per_dose.toFixed(2))} ${weightBasedDosing.unit}${perDoseNote}`
+      );
+    }
+
+    // Show how many doses each pen/syringe/vial covers
+    if (injectableDevice) {
+      const coverage = injectableDevice.doses_per_device > 0
+        ? `1 ${injectableDevice.device} covers ${injectableDevice.doses_per_device} dose(s)`
+        : `each dose needs ${injectableDevice.devices_per_dose} ${injectableDevice.device}s`;
+      response.flags.notes?.push(
+        `Injectable: ${Number(injectableDevice.dose_mg.toFixed(3))} mg per dose with ${injectableDevice.capacity} - ${coverage}; quantity is in whole ${injectableDevice.device}s`
+      );
+    }
+
+    // Show the basis for suggested companion supplies
+    for (const supply of companionSupplies ?? []) {
+      response.flags.notes?.push(
+        `Suggested supplies: ${supply.quantity} pen needles (${supply.boxes} box(es) of ${supply.box_size}) - ${supply.basis}`
+      );
+    }
+
+    // Patches worn for part of the day still use one patch per application
+    if (parsedSIG.wear_hours) {
+      response.flags.notes?.push(
+        `Each patch is worn for ${parsedSIG.wear_hours} hours then removed - quantity counts one patch per application`
+      );
+    }
+
+    // Record how grams per application were estimated for creams/ointments
+    if (parsedSIG.topical?.assumption) {
+      response.flags.notes?.push(parsedSIG.topical.assumption);
+    }
+
+    // Warn when the drug comes in several liquid concentrations - a mismatch changes the volume
+    if (concentrations.length > 1 && unitConversion) {
+      response.flags.multiple_concentrations = concentrations;
+      response.flags.notes?.push(
+        `Multiple concentrations available (${concentrations.join(', ')}) - quantity uses ${unitConversion.strength}; confirm the dispensed concentration`
+      );
+    }
+
+    // Cyclic regimens are dispensed in whole cycles, which may run past days_supply
+    if (quantityResult.cycle_schedule) {
+      const cycleSchedule = quantityResult.cycle_schedule;
+      response.flags.notes?.push(
+        `Cyclic regimen (${cycleSchedule.days_on} days on / ${cycleSchedule.days_off} days off): ${cycleSchedule.cycles} cycle(s) cover ${cycleSchedule.calendar_days} calendar days with ${cycleSchedule.dosing_days} dosing days`
+      );
+    }
+
+    // Flag reconstituted suspensions whose days supply runs past the beyond-use date after mixing
+    if (quantityResult.rounding.rule === 'round_to_reconstituted_bottles' && roundingDetails?.exceeds_beyond_use) {
+      const beyondUseDays = Number(roundingDetails.beyond_use_days);
+      const bottles = Number(roundingDetails.bottles_needed);
+      response.flags.beyond_use_exceeded = { beyond_use_days: beyondUseDays, days_supply: daysSupply, bottles };
+      response.flags.notes?.push(
+        `Reconstituted suspension must be used within ${beyondUseDays} days of mixing but days_supply is ${daysSupply} - fill split into ${bottles} bottle(s) of ${roundingDetails.bottle_size_ml} mL; mix each bottle when the previous one runs out`
+      );
+    }
+
+    // Dose packs are fixed courses - flag SIG quantities that do not fill whole packs
+    if (quantityResult.rounding.rule === 'round_to_whole_dose_packs') {
+      const packUnits = Number(roundingDetails?.pack_units);
+      const packs = Number(roundingDetails?.packs_needed);
+      const sigQuantity = Number(quantityResult.rounding.before.toFixed(2));
+      const schedule = roundingDetails?.course_schedule ? ` (${roundingDetails.course_schedule})` : '';
+      response.flags.notes?.push(
+        `Dispensed as ${packs} whole dose pack(s) of ${packUnits} ${computed.dose_unit}${schedule}`
+      );
+      if (!roundingDetails?.schedule_matches) {
+        const courseDays = roundingDetails?.course_days !== undefined ? Number(roundingDetails.course_days) : null;
+        const sigDays = Number(roundingDetails?.sig_days ?? daysSupply);
+        response.flags.dose_pack_mismatch = {
+          pack_units: packUnits,
+          sig_quantity: sigQuantity,
+          packs,
+          ...(courseDays !== null && { course_days: courseDays, sig_days: sigDays }),
+        };
+        const course = courseDays !== null ? ` over a ${courseDays}-day course` : '';
+        response.flags.notes?.push(
+          `SIG totals ${sigQuantity} ${computed.dose_unit} over ${sigDays} days but the dose pack holds ${packUnits}${course} - confirm the directions against the pack's built-in schedule`
+        );
+      }
+    }
+
+    // Flag a SIG duration that disagrees with the requested days supply
+    if (sigDurationDays !== null && sigDurationDays !== request.days_supply) {
+      response.flags.days_supply_conflict = {
+        sig_days: sigDurationDays,
+        days_supply: request.days_supply,
+        source: 'duration',
+        applied: durationPolicy,
+      };
+      response.flags.notes?.push(
+        durationPolicy === 'sig'
+          ? `SIG specifies ${sigDurationDays} days but days_supply is ${request.days_supply} - quantity is based on the SIG duration`
+          : `SIG specifies ${sigDurationDays} days but days_supply is ${request.days_supply} - quantity is based on days_supply`
+      );
+    }
+
+    // Flag taper/titration schedules that do not line up with the requested days supply
+    if (quantityResult.phase_schedule?.days_supply_mismatch) {
+      response.flags.days_supply_conflict = {
+        sig_days: quantityResult.phase_schedule.schedule_days,
+        days_supply: request.days_supply,
+        source: 'phases',
+        applied: 'sig',
+      };
+      response.flags.notes?.push(
+        `Dosing phases cover ${quantityResult.phase_schedule.schedule_days} days but days_supply is ${request.days_supply} - quantity is based on the phases`
+      );
+    }
+
     // Add notes for partial failures
     if (merged.rxnormFailed) {
       response.flags.notes?.push('RxNorm API call failed - using FDA data only');
@@ -0,0 +1,42 @@
+/**
+ * Dosage Form Detector Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectDosageForm, detectDosageFormWithMetadata } from './dosage-form-detector';
+import type { NDCPackageData } from '../types/index';
+
+describe('Dosage Form Detector', () => {
+  describe('metered sprays', () => {
+    const respimat: NDCPackageData[] = [
+      { ndc: '00597007561', pkg_size: 60, active: true, dosage_form: 'SPRAY, METERED', route: ['RESPIRATORY (INHALATION)'] },
+    ];
+    const fluticasoneNasal: NDCPackageData[] = [
+      { ndc: '00000000001', pkg_size: 120, active: true, dosage_form: 'SPRAY, METERED', route: ['NASAL'] },
+    ];
+
+    it('should keep Respimat soft-mist inhalers as inhalers', () => {
+      expect(detectDosageForm('Spiriva Respimat', respimat, 'actuation', 'Inhale 2 puffs once daily')).toBe('inhaler');
+      expect(detectDosageFormWithMetadata('tiotropium', respimat, 'actuation', 'Inhale 2 puffs once daily').detected).toBe('inhaler');
+      // No SIG or name signal: a metered spray without a nasal route is an inhaler
+      expect(detectDosageForm('tiotropium', respimat, 'actuation', '2 puffs daily')).toBe('inhaler');
+    });
+
+    it('should treat metered sprays as nasal with a nasal route, name or SIG', () => {
+      expect(detectDosageForm('fluticasone propionate', fluticasoneNasal, 'actuation', '2 sprays daily')).toBe('nasal_spray');
+      expect(detectDosageFormWithMetadata('fluticasone propionate', fluticasoneNasal, 'actuation', '2 sprays daily').detected).toBe('nasal_spray');
+      expect(detectDosageForm('tiotropium', respimat, 'actuation', '1 spray in each nostril daily')).toBe('nasal_spray');
+    });
+
+    it('should not let a few nasal packages in a mixed search make puffs a nasal spray', () => {
+      const fluticasoneMixed: NDCPackageData[] = [
+        { ndc: '00173071920', pkg_size: 120, active: true, dosage_form: 'AEROSOL, METERED', route: ['RESPIRATORY (INHALATION)'] },
+        { ndc: '00173071820', pkg_size: 120, active: true, dosage_form: 'AEROSOL, METERED', route: ['RESPIRATORY (INHALATION)'] },
+        ...fluticasoneNasal,
+      ];
+      expect(detectDosageForm('fluticasone propionate', fluticasoneMixed, 'actuation', '2 puffs BID')).toBe('inhaler');
+      expect(detectDosageForm('fluticasone propionate', fluticasoneMixed, 'actuation', '2 sprays daily')).toBe('inhaler');
+      expect(detectDosageFormWithMetadata('fluticasone propionate', fluticasoneMixed, 'actuation', '2 sprays daily').detected).toBe('inhaler');
+    });
+  });
+});
@@ -5,18 +5,28 @@
  * - Drug name keywords
  * - FDA dosage_form field
  * - Parsed SIG dose_unit
+ * - SIG text (nasal route)
  * 
  * Dosage forms:
- * - inhaler: MDI/HFA inhalers (measured in puffs/actuations)
+ * - inhaler: MDI/HFA inhalers (measured in puffs/actuations) and dry-powder inhalers
+ *   (measured in blisters or capsules)
+ * - nasal_spray: Metered nasal sprays (measured in sprays/actuations)
  * - insulin: Insulin products (measured in units)
+ * - topical: Creams/ointments/gels (measured in grams)
+ * - patch: Transdermal patches (measured in patches, dispensed in boxes)
+ * - drops: Ophthalmic/otic drops (measured in drops, dispensed in mL bottles)
+ * - supplies: Diabetic test strips, lancets and pen needles (measured in tests/injections, dispensed in boxes)
  * - liquid: Oral liquids (measured in mL)
  * - solid: Tablets/capsules (default)
  */
 
 import { logInfo } from '../utils/logger';
+import { getInhalerDeviceType } from '../utils/inhaler-config';
+import { getSupplyType } from '../utils/supplies-config';
+import type { InhalerDeviceType } from '../utils/inhaler-config';
 import type { NDCPackageData } from '../types/index';
 
-export type DosageFormType = 'inhaler' | 'insulin' | 'liquid' | 'solid';
+export type DosageFormType = 'inhaler' | 'nasal_spray' | 'insulin' | 'drops' | 'topical' | 'patch' | 'injectable' | 'supplies' | 'liquid' | 'solid';
 
 /**
  * Inhaler keywords in drug names
@@ -31,18 +41,62 @@ const INHALER_KEYWORDS = [
   'ellipta',
   'turbuhaler',
   'handihaler',
+  'respimat',
 ];
 
 /**
  * Inhaler dosage forms from FDA
+ * 'SPRAY, METERED' covers both soft-mist inhalers (Respimat) and metered nasal sprays;
+ * it counts as an inhaler unless the route, drug name or SIG is nasal.
  */
 const INHALER_DOSAGE_FORMS = [
   'AEROSOL',
   'AEROSOL, METERED',
   'AEROSOL, POWDER',
+  'POWDER, METERED',
   'SPRAY, METERED',
 ];
 
+/**
+ * Inhaled route in SIG text ("inhale 2 puffs", "2 puffs BID")
+ */
+const INHALE_SIG_PATTERN = /\b(inhale|inhaled|inhalations?|inhaler|puffs?)\b/i;
+
+/**
+ * Capsules inhaled through a device (HandiHaler) rather than swallowed
+ */
+const INHALED_CAPSULE_SIG_PATTERN = /\b(inhale|inhalation|inhaler|handihaler)\b/i;
+
+/**
+ * Nasal spray keywords in drug names
+ */
+const NASAL_SPRAY_KEYWORDS = [
+  'nasal',
+  'flonase',
+  'nasonex',
+  'nasacort',
+  'rhinocort',
+  'astelin',
+  'astepro',
+  'patanase',
+  'beconase',
+  'qnasl',
+  'omnaris',
+  'dymista',
+];
+
+/**
+ * Nasal spray dosage forms from FDA
+ */
+const NASAL_SPRAY_DOSAGE_FORMS = [
+  'SPRAY',
+];
+
+/**
+ * Nasal route in SIG text ("each nostril", "intranasally")
+ */
+const NASAL_SIG_PATTERN = /\b(nostrils?|nasal(?:ly)?|intranasal(?:ly)?|nose)\b/i;
+
 /**
  * Insulin keywords in drug names
  */
@@ -59,6 +113,78 @@ const INSULIN_KEYWORDS = [
   'fiasp',
 ];
 
+/**
+ * Eye/ear drop keywords in drug names
+ */
+const DROPS_KEYWORDS = [
+  'ophthalmic',
+  'otic',
+  'eye drop',
+  'ear drop',
+];
+
+/**
+ * Eye/ear drop dosage forms from FDA
+ */
+const DROPS_DOSAGE_FORMS = [
+  'SOLUTION/DROPS',
+  'SUSPENSION/DROPS',
+  'SOLUTION, GEL FORMING / DROPS',
+];
+
+/**
+ * Transdermal patch keywords in drug names
+ */
+const PATCH_KEYWORDS = [
+  'patch',
+  'transdermal',
+  'duragesic',
+  'lidoderm',
+  'nicoderm',
+  'butrans',
+  'climara',
+  'vivelle',
+  'neupro',
+];
+
+/**
+ * Transdermal patch dosage forms from FDA
+ */
+const PATCH_DOSAGE_FORMS = [
+  'PATCH',
+  'PATCH, EXTENDED RELEASE',
+];
+
+/**
+ * Dose units for injectable devices (pens, prefilled syringes, vials) - set once a
+ * mass dose is converted with the injectable device-capacity table
+ */
+const INJECTABLE_DEVICE_UNITS = ['pen', 'syringe', 'vial'];
+
+/**
+ * Dose units for diabetic supplies - glucose tests, injections (pen needles) or the supplies themselves
+ */
+const SUPPLY_DOSE_UNITS = ['test', 'injection', 'strip', 'lancet', 'needle'];
+
+/**
+ * Topical keywords in drug names
+ */
+const TOPICAL_KEYWORDS = [
+  'cream',
+  'ointment',
+  'topical',
+];
+
+/**
+ * Topical dosage forms from FDA
+ */
+const TOPICAL_DOSAGE_FORMS = [
+  'CREAM',
+  'OINTMENT',
+  'GEL',
+  'PASTE',
+];
+
 /**
  * Liquid dosage forms from FDA
  */
@@ -68,10 +194,50 @@ const LIQUID_DOSAGE_FORMS = [
   'SYRUP',
   'ELIXIR',
   'LIQUID',
-  'SOLUTION/DROPS',
-  'SUSPENSION/DROPS',
 ];
 
+/**
+ * Check whether most packages with an FDA route are given by the nasal route ("NASAL")
+ * 
+ * Searches can mix products of one ingredient (Flovent and Flonase NDCs for fluticasone),
+ * so a single nasal package does not make the drug a nasal spray.
+ */
+function hasNasalRoute(ndcs: NDCPackageData[]): boolean {
+  const routed = ndcs.filter(ndc => (ndc.route || []).length > 0);
+  const nasal = routed.filter(ndc => ndc.route!.some(route => route.toUpperCase() === 'NASAL'));
+  return nasal.length > 0 && nasal.length * 2 > routed.length;
+}
+
+/**
+ * Check whether an actuation dose is a nasal spray rather than an inhaler
+ * 
+ * The SIG route is most reliable ("each nostril", "inhale"); otherwise the drug name,
+ * FDA route or FDA dosage forms must point to a nasal spray and not to an inhaler.
+ */
+function isNasalSpray(normalizedName: string, ndcs: NDCPackageData[], sig?: string): boolean {
+  if (sig && NASAL_SIG_PATTERN.test(sig)) {
+    return true;
+  }
+
+  if (NASAL_SPRAY_KEYWORDS.some(keyword => normalizedName.includes(keyword))) {
+    return true;
+  }
+
+  if (sig && INHALE_SIG_PATTERN.test(sig)) {
+    return false;
+  }
+
+  if (hasNasalRoute(ndcs)) {
+    return true;
+  }
+
+  const dosageForms = ndcs
+    .map(ndc => ndc.dosage_form?.toUpperCase())
+    .filter(Boolean);
+  return dosageForms.some(form => NASAL_SPRAY_DOSAGE_FORMS.includes(form!)) &&
+    !dosageForms.some(form => INHALER_DOSAGE_FORMS.includes(form!));
+}
+
 /**
  * Detect dosage form type based on drug information
  * 
@@ -83,13 +249,18 @@ const LIQUID_DOSAGE_FORMS = [
 export function detectDosageForm(
   drugName: string,
   ndcs: NDCPackageData[],
-  doseUnit: string
+  doseUnit: string,
+  sig?: string
 ): DosageFormType {
   const normalizedName = drugName.toLowerCase().trim();
   const normalizedUnit = doseUnit.toLowerCase().trim();
 
-  // Check dose unit first (most reliable)
+  // Check dose unit first (most reliable) - sprays into the nose are nasal sprays, not inhalers
   if (normalizedUnit === 'actuation') {
+    if (isNasalSpray(normalizedName, ndcs, sig)) {
+      logInfo('Detected nasal spray from dose unit', { doseUnit });
+      return 'nasal_spray';
+    }
     logInfo('Detected inhaler from dose unit', { doseUnit });
     return 'inhaler';
   }
@@ -102,11 +273,53 @@ export function detectDosageForm(
     }
   }
 
+  if (normalizedUnit === 'drop') {
+    logInfo('Detected drops from dose unit', { doseUnit });
+    return 'drops';
+  }
+
+  if (normalizedUnit === 'patch') {
+    logInfo('Detected patch from dose unit', { doseUnit });
+    return 'patch';
+  }
+
+  if (INJECTABLE_DEVICE_UNITS.includes(normalizedUnit)) {
+    logInfo('Detected injectable from dose unit', { doseUnit });
+    return 'injectable';
+  }
+
+  if (SUPPLY_DOSE_UNITS.includes(normalizedUnit)) {
+    logInfo('Detected supplies from dose unit', { doseUnit });
+    return 'supplies';
+  }
+
+  if (normalizedUnit === 'cap' && sig && INHALED_CAPSULE_SIG_PATTERN.test(sig)) {
+    logInfo('Detected inhaler from dose unit and SIG', { doseUnit });
+    return 'inhaler';
+  }
+
+  if (normalizedUnit === 'g') {
+    logInfo('Detected topical from dose unit', { doseUnit });
+    return 'topical';
+  }
+
   if (normalizedUnit === 'ml') {
     logInfo('Detected liquid from dose unit', { doseUnit });
     return 'liquid';
   }
 
+  // Check drug name for supplies (before insulin keywords - "insulin pen needles" are needles)
+  if (getSupplyType(normalizedName)) {
+    logInfo('Detected supplies from drug name', { drugName: '[REDACTED]' });
+    return 'supplies';
+  }
+
+  // Check drug name for nasal spray keywords (before inhaler keywords such as "aerosol")
+  if (NASAL_SPRAY_KEYWORDS.some(keyword => normalizedName.includes(keyword))) {
+    logInfo('Detected nasal spray from drug name', { drugName: '[REDACTED]' });
+    return 'nasal_spray';
+  }
+
   // Check drug name for inhaler keywords
   if (INHALER_KEYWORDS.some(keyword => normalizedName.includes(keyword))) {
     logInfo('Detected inhaler from drug name', { drugName: '[REDACTED]' });
@@ -119,16 +332,60 @@ export function detectDosageForm(
     return 'insulin';
   }
 
+  // Check drug name for eye/ear drop keywords
+  if (DROPS_KEYWORDS.some(keyword => normalizedName.includes(keyword))) {
+    logInfo('Detected drops from drug name', { drugName: '[REDACTED]' });
+    return 'drops';
+  }
+
+  // Check drug name for patch keywords (before topical keywords)
+  if (PATCH_KEYWORDS.some(keyword => normalizedName.includes(keyword))) {
+    logInfo('Detected patch from drug name', { drugName: '[REDACTED]' });
+    return 'patch';
+  }
+
+  // Check drug name for topical keywords
+  if (TOPICAL_KEYWORDS.some(keyword => normalizedName.includes(keyword))) {
+    logInfo('Detected topical from drug name', { drugName: '[REDACTED]' });
+    return 'topical';
+  }
+
   // Check FDA dosage forms
   const dosageForms = ndcs
     .map(ndc => ndc.dosage_form?.toUpperCase())
     .filter(Boolean);
 
+  // Metered sprays given by the nasal route are nasal sprays, not soft-mist inhalers
+  if (hasNasalRoute(ndcs)) {
+    logInfo('Detected nasal spray from FDA route', { dosageForms });
+    return 'nasal_spray';
+  }
+
   if (dosageForms.some(form => INHALER_DOSAGE_FORMS.includes(form!))) {
     logInfo('Detected inhaler from FDA dosage form', { dosageForms });
     return 'inhaler';
   }
 
+  if (dosageForms.some(form => NASAL_SPRAY_DOSAGE_FORMS.includes(form!))) {
+    logInfo('Detected nasal spray from FDA dosage form', { dosageForms });
+    return 'nasal_spray';
+  }
+
+  if (dosageForms.some(form => DROPS_DOSAGE_FORMS.includes(form!))) {
+    logInfo('Detected drops from FDA dosage form', { dosageForms });
+    return 'drops';
+  }
+
+  if (dosageForms.some(form => PATCH_DOSAGE_FORMS.includes(form!))) {
+    logInfo('Detected patch from FDA dosage form', { dosageForms });
+    return 'patch';
+  }
+
+  if (dosageForms.some(form => TOPICAL_DOSAGE_FORMS.includes(form!))) {
+    logInfo('Detected topical from FDA dosage form', { dosageForms });
+    return 'topical';
+  }
+
   if (dosageForms.some(form => LIQUID_DOSAGE_FORMS.includes(form!))) {
     logInfo('Detected liquid from FDA dosage form', { dosageForms });
     return 'liquid';
@@ -146,19 +403,31 @@ export interface DosageFormDetectionResult {
   detected: DosageFormType;
   method: string;
   matched_keywords?: string[];
+  device_type?: InhalerDeviceType; // Inhalers: MDI, blister or capsule dry-powder device
 }
 
 export function detectDosageFormWithMetadata(
   drugName: string,
   ndcs: NDCPackageData[],
-  doseUnit: string
+  doseUnit: string,
+  sig?: string
 ): DosageFormDetectionResult {
   const normalizedName = drugName.toLowerCase().trim();
   const normalizedUnit = doseUnit.toLowerCase().trim();
 
-  // Check dose unit first (most reliable)
+  // Check dose unit first (most reliable) - sprays into the nose are nasal sprays, not inhalers
   if (normalizedUnit === 'actuation') {
-    return { detected: 'inhaler', method: 'from_dose_unit' };
+    if (sig && NASAL_SIG_PATTERN.test(sig)) {
+      return { detected: 'nasal_spray', method: 'from_dose_unit_and_sig' };
+    }
+    const matchedNasalSprayKeywords = NASAL_SPRAY_KEYWORDS.filter(keyword => normalizedName.includes(keyword));
+    if (matchedNasalSprayKeywords.length > 0) {
+      return { detected: 'nasal_spray', method: 'from_dose_unit_and_drug_name', matched_keywords: matchedNasalSprayKeywords };
+    }
+    if (isNasalSpray(normalizedName, ndcs, sig)) {
+      return { detected: 'nasal_spray', method: 'from_dose_unit_and_fda_data' };
+    }
+    return { detected: 'inhaler', method: 'from_dose_unit', device_type: getInhalerDeviceType(drugName, ndcs) };
   }
 
   if (normalizedUnit === 'unit') {
@@ -169,14 +438,50 @@ export function detectDosageFormWithMetadata(
     }
   }
 
+  if (normalizedUnit === 'drop') {
+    return { detected: 'drops', method: 'from_dose_unit' };
+  }
+
+  if (normalizedUnit === 'patch') {
+    return { detected: 'patch', method: 'from_dose_unit' };
+  }
+
+  if (INJECTABLE_DEVICE_UNITS.includes(normalizedUnit)) {
+    return { detected: 'injectable', method: 'from_dose_unit' };
+  }
+
+  if (SUPPLY_DOSE_UNITS.includes(normalizedUnit)) {
+    return { detected: 'supplies', method: 'from_dose_unit' };
+  }
+
+  if (normalizedUnit === 'cap' && sig && INHALED_CAPSULE_SIG_PATTERN.test(sig)) {
+    return { detected: 'inhaler', method: 'from_dose_unit_and_sig', device_type: getInhalerDeviceType(drugName, ndcs) };
+  }
+
+  if (normalizedUnit === 'g') {
+    return { detected: 'topical', method: 'from_dose_unit' };
+  }
+
   if (normalizedUnit === 'ml') {
     return { detected: 'liquid', method: 'from_dose_unit' };
   }
 
+  // Check drug name for supplies (before insulin keywords - "insulin pen needles" are needles)
+  const supplyType = getSupplyType(normalizedName);
+  if (supplyType) {
+    return { detected: 'supplies', method: 'from_drug_name', matched_keywords: [supplyType] };
+  }
+
+  // Check drug name for nasal spray keywords (before inhaler keywords such as "aerosol")
+  const matchedNasalSprayKeywords = NASAL_SPRAY_KEYWORDS.filter(keyword => normalizedName.includes(keyword));
+  if (matchedNasalSprayKeywords.length > 0) {
+    return { detected: 'nasal_spray', method: 'from_drug_name', matched_keywords: matchedNasalSprayKeywords };
+  }
+
   // Check drug name for inhaler keywords
   const matchedInhalerKeywords = INHALER_KEYWORDS.filter(keyword => normalizedName.includes(keyword));
   if (matchedInhalerKeywords.length > 0) {
-    return { detected: 'inhaler', method: 'from_drug_name', matched_keywords: matchedInhalerKeywords };
+    return { detected: 'inhaler', method: 'from_drug_name', matched_keywords: matchedInhalerKeywords, device_type: getInhalerDeviceType(drugName, ndcs) };
   }
 
   // Check drug name for insulin keywords
@@ -185,13 +490,52 @@ export function detectDosageFormWithMetadata(
     return { detected: 'insulin', method: 'from_drug_name', matched_keywords: matchedInsulinKeywords };
   }
 
+  // Check drug name for eye/ear drop keywords
+  const matchedDropsKeywords = DROPS_KEYWORDS.filter(keyword => normalizedName.includes(keyword));
+  if (matchedDropsKeywords.length > 0) {
+    return { detected: 'drops', method: 'from_drug_name', matched_keywords: matchedDropsKeywords };
+  }
+
+  // Check drug name for patch keywords (before topical keywords)
+  const matchedPatchKeywords = PATCH_KEYWORDS.filter(keyword => normalizedName.includes(keyword));
+  if (matchedPatchKeywords.length > 0) {
+    return { detected: 'patch', method: 'from_drug_name', matched_keywords: matchedPatchKeywords };
+  }
+
+  // Check drug name for topical keywords
+  const matchedTopicalKeywords = TOPICAL_KEYWORDS.filter(keyword => normalizedName.includes(keyword));
+  if (matchedTopicalKeywords.length > 0) {
+    return { detected: 'topical', method: 'from_drug_name', matched_keywords: matchedTopicalKeywords };
+  }
+
   // Check FDA dosage forms
   const dosageForms = ndcs
     .map(ndc => ndc.dosage_form?.toUpperCase())
     .filter(Boolean);
 
+  // Metered sprays given by the nasal route are nasal sprays, not soft-mist inhalers
+  if (hasNasalRoute(ndcs)) {
+    return { detected: 'nasal_spray', method: 'from_fda_data' };
+  }
+
   if (dosageForms.some(form => INHALER_DOSAGE_FORMS.includes(form!))) {
-    return { detected: 'inhaler', method: 'from_fda_data' };
+    return { detected: 'inhaler', method: 'from_fda_data', device_type: getInhalerDeviceType(drugName, ndcs) };
+  }
+
+  if (dosageForms.some(form => NASAL_SPRAY_DOSAGE_FORMS.includes(form!))) {
+    return { detected: 'nasal_spray', method: 'from_fda_data' };
+  }
+
+  if (dosageForms.some(form => DROPS_DOSAGE_FORMS.includes(form!))) {
+    return { detected: 'drops', method: 'from_fda_data' };
+  }
+
+  if (dosageForms.some(form => PATCH_DOSAGE_FORMS.includes(form!))) {
+    return { detected: 'patch', method: 'from_fda_data' };
+  }
+
+  if (dosageForms.some(form => TOPICAL_DOSAGE_FORMS.includes(form!))) {
+    return { detected: 'topical', method: 'from_fda_data' };
   }
 
   if (dosageForms.some(form => LIQUID_DOSAGE_FORMS.includes(form!))) {
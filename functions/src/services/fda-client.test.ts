@@ -74,6 +74,109 @@ describe('FDAClient', () => {
       expect(result?.ndc).toBe('01234567890');
     });
 
+    it('should parse single-ingredient product strength', async () => {
+      mockAxios.onGet('/', { params: { search: 'product_ndc:01234567890', limit: 1 } }).reply(200, {
+        results: [
+          {
+            product_ndc: '01234-5678-90',
+            package_size: '100',
+            active: 'TRUE',
+            dosage_form: 'SUSPENSION',
+            active_ingredients: [{ name: 'AMOXICILLIN', strength: '250 mg/5mL' }],
+          },
+        ],
+      });
+
+      const result = await client.lookupByNDC('01234-5678-90');
+      expect(result?.strength).toEqual({ amount: 250, unit: 'mg', per_amount: 5, per_unit: 'mL' });
+    });
+
+    it('should not assign a strength to combination products', async () => {
+      mockAxios.onGet('/', { params: { search: 'product_ndc:01234567890', limit: 1 } }).reply(200, {
+        results: [
+          {
+            product_ndc: '01234-5678-90',
+            package_size: '100',
+            active: 'TRUE',
+            active_ingredients: [
+              { name: 'HYDROCODONE', strength: '5 mg/1' },
+              { name: 'ACETAMINOPHEN', strength: '325 mg/1' },
+            ],
+          },
+        ],
+      });
+
+      const result = await client.lookupByNDC('01234-5678-90');
+      expect(result?.strength).toBeUndefined();
+    });
+
+    it('should keep decimal package volumes', async () => {
+      mockAxios.onGet('/', { params: { search: 'product_ndc:01234567890', limit: 1 } }).reply(200, {
+        results: [
+          {
+            product_ndc: '01234-5678-90',
+            active: 'TRUE',
+            dosage_form: 'SOLUTION/DROPS',
+            package_description: '1 BOTTLE, DROPPER in 1 CARTON (01234-5678-90) > 2.5 mL in 1 BOTTLE, DROPPER',
+          },
+        ],
+      });
+
+      const result = await client.lookupByNDC('01234-5678-90');
+      expect(result?.pkg_size).toBe(2.5);
+    });
+
+    it('should count patches across nested packaging', async () => {
+      mockAxios.onGet('/', { params: { search: 'product_ndc:01234567890', limit: 1 } }).reply(200, {
+        results: [
+          {
+            product_ndc: '01234-5678-90',
+            active: 'TRUE',
+            dosage_form: 'PATCH, EXTENDED RELEASE',
+            package_description: '5 POUCH in 1 CARTON (01234-5678-90) > 1 PATCH in 1 POUCH',
+          },
+        ],
+      });
+
+      const result = await client.lookupByNDC('01234-5678-90');
+      expect(result?.pkg_size).toBe(5);
+    });
+
+    it('should parse inhaler actuation counts', async () => {
+      mockAxios.onGet('/', { params: { search: 'product_ndc:01234567890', limit: 1 } }).reply(200, {
+        results: [
+          {
+            product_ndc: '01234-5678-90',
+            active: 'TRUE',
+            dosage_form: 'AEROSOL, METERED',
+            package_description: '1 INHALER in 1 CARTON (01234-5678-90) > 60 ACTUATION in 1 INHALER',
+          },
+        ],
+      });
+
+      const result = await client.lookupByNDC('01234-5678-90');
+      expect(result?.pkg_size).toBe(60);
+    });
+
+    it('should count insulin units across pens in a carton', async () => {
+      mockAxios.onGet('/', { params: { search: 'product_ndc:01234567890', limit: 1 } }).reply(200, {
+        results: [
+          {
+            product_ndc: '01234-5678-90',
+            active: 'TRUE',
+            dosage_form: 'INJECTION, SOLUTION',
+            brand_name: 'Tresiba',
+            package_description: '3 SYRINGE in 1 CARTON (01234-5678-90) > 3 mL in 1 SYRINGE',
+            active_ingredients: [{ name: 'INSULIN DEGLUDEC', strength: '200 [iU]/mL' }],
+          },
+        ],
+      });
+
+      const result = await client.lookupByNDC('01234-5678-90');
+      expect(result?.pkg_size).toBe(1800);
+      expect(result?.units_per_ml).toBe(200);
+    });
+
     it('should return null when NDC not found', async () => {
       mockAxios.onGet('/', { params: { search: 'product_ndc:00000000000', limit: 1 } }).reply(200, {
         results: [],
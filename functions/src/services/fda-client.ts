@@ -10,7 +10,11 @@ import axios, { type AxiosInstance, type AxiosError } from 'axios';
 import { Cache } from '../utils/cache';
 import { logInfo, logWarn, logError } from '../utils/logger';
 import { DependencyError, RateLimitError } from '../utils/errors';
-import type { NDCPackageData } from '../types/index';
+import { parseStrength } from '../utils/unit-conversions';
+import { parseInsulinConcentration, parseInsulinPackage } from '../utils/insulin-config';
+import { parseActuationCount, parseDPIPackage } from '../utils/inhaler-config';
+import { countSuppliesInPackage } from '../utils/supplies-config';
+import type { NDCPackageData, ProductStrength } from '../types/index';
 
 /**
  * FDA API response types
@@ -24,6 +28,11 @@ interface FDAResponse {
     dosage_form?: string;
     brand_name?: string;
     package_size?: string;
+    route?: string[];
+    active_ingredients?: Array<{
+      name?: string;
+      strength?: string;
+    }>;
     packaging?: Array<{
       package_ndc?: string;
       description?: string;
@@ -237,21 +246,44 @@ export class FDAClient {
       pkgSize = this.parseInsulinPackageSize(result);
     }
     
+    // Special handling for patches: count patches across nested packaging
+    if (this.isPatchProduct(result)) {
+      pkgSize = this.parsePatchPackageSize(result);
+    }
+    
+    // Inhalers: count actuations across canisters ("1 INHALER in 1 CARTON > 200 ACTUATION in 1 INHALER"),
+    // or blisters/capsules across dry-powder devices and blister cards ("3 BLISTER PACK in 1 CARTON > 10 CAPSULE in 1 BLISTER PACK").
+    // Diabetic supplies count strips/lancets/pen needles across boxes ("2 BOX in 1 CARTON > 50 STRIP in 1 BOX")
+    if (pkgSize === 0) {
+      const description = result.package_description ||
+        (Array.isArray(result.packaging) && result.packaging.length > 0 ? result.packaging[0].description : undefined);
+      const inhalerSpec = parseActuationCount(description);
+      const dpiSpec = parseDPIPackage(description);
+      if (inhalerSpec) {
+        pkgSize = inhalerSpec.canisters * inhalerSpec.actuations_per_canister;
+      } else if (dpiSpec) {
+        pkgSize = dpiSpec.devices * dpiSpec.doses_per_device;
+      } else {
+        pkgSize = countSuppliesInPackage(description);
+      }
+    }
+    
     // Standard parsing for non-insulin products
     if (pkgSize === 0) {
       // 1. Try package_size field
       if (result.package_size) {
-        const sizeMatch = result.package_size.match(/(\d+)/);
+        const sizeMatch = result.package_size.match(/(\d*\.?\d+)/);
         if (sizeMatch) {
-          pkgSize = parseInt(sizeMatch[1], 10);
+          pkgSize = parseFloat(sizeMatch[1]);
         }
       }
       
       // 2. Try package_description field
       if (pkgSize === 0 && result.package_description) {
-        const descMatch = result.package_description.match(/(\d+)\s*(TAB|CAP|TABLET|CAPSULE|ML|MG)/i);
+        // Decimal volumes and gram tubes are kept (e.g., "2.5 mL in 1 BOTTLE, DROPPER", "30 g in 1 TUBE")
+        const descMatch = result.package_description.match(/(\d*\.?\d+)\s*(TAB|CAP|TABLET|CAPSULE|ML|MG|G\b)/i);
         if (descMatch) {
-          pkgSize = parseInt(descMatch[1], 10);
+          pkgSize = parseFloat(descMatch[1]);
         }
       }
       
@@ -261,9 +293,9 @@ export class FDAClient {
         const firstPackage = result.packaging[0];
         if (firstPackage.description) {
           // Parse from description like "100 CAPSULE in 1 BOTTLE"
-          const descMatch = firstPackage.description.match(/(\d+)\s*(TAB|CAP|TABLET|CAPSULE|ML|MG|BLISTER|BOTTLE)/i);
+          const descMatch = firstPackage.description.match(/(\d*\.?\d+)\s*(TAB|CAP|TABLET|CAPSULE|ML|MG|G\b|BLISTER|BOTTLE)/i);
           if (descMatch) {
-            pkgSize = parseInt(descMatch[1], 10);
+            pkgSize = parseFloat(descMatch[1]);
           }
         }
       }
@@ -283,9 +315,27 @@ export class FDAClient {
       dosage_form: result.dosage_form,
       brand_name: result.brand_name,
       package_description: result.package_description || (Array.isArray(result.packaging) && result.packaging.length > 0 ? result.packaging[0].description : undefined),
+      strength: this.parseProductStrength(result),
+      ...(isInsulin && { units_per_ml: this.parseInsulinStrength(result) ?? undefined }),
+      ...(Array.isArray(result.route) && result.route.length > 0 && { route: result.route }),
     };
   }
 
+  /**
+   * Parse product strength from FDA active_ingredients
+   * 
+   * Only single-ingredient products have an unambiguous strength.
+   * FDA strengths look like "500 mg/1" (per tablet/capsule), "250 mg/5mL" or "10 mg/mL".
+   */
+  private parseProductStrength(result: NonNullable<FDAResponse['results']>[0]): ProductStrength | undefined {
+    const ingredients = result.active_ingredients;
+    if (!Array.isArray(ingredients) || ingredients.length !== 1 || !ingredients[0].strength) {
+      return undefined;
+    }
+
+    return parseStrength(ingredients[0].strength) ?? undefined;
+  }
+
   /**
    * Check if product is insulin based on dosage form or brand name
    */
@@ -306,6 +356,53 @@ export class FDAClient {
     return hasInsulinKeyword || (isInjection && (brandName.includes('insulin') || packageDesc.includes('insulin')));
   }
 
+  /**
+   * Check if FDA result is a transdermal patch product
+   */
+  private isPatchProduct(result: NonNullable<FDAResponse['results']>[0]): boolean {
+    return (result.dosage_form?.toUpperCase() || '').includes('PATCH');
+  }
+
+  /**
+   * Parse patch package size from FDA data
+   * Patches are usually packed in pouches inside a carton, so the counts along
+   * the packaging chain are multiplied:
+   * - "5 POUCH in 1 CARTON > 1 PATCH in 1 POUCH" = 5 patches
+   * - "1 POUCH in 1 CARTON > 30 PATCH in 1 POUCH" = 30 patches
+   */
+  private parsePatchPackageSize(result: NonNullable<FDAResponse['results']>[0]): number {
+    const packageDesc = result.package_description ||
+      (Array.isArray(result.packaging) && result.packaging.length > 0 ? result.packaging[0].description : '') ||
+      '';
+    if (!/patch/i.test(packageDesc)) {
+      return 0;
+    }
+
+    // Each level reads "N UNIT in 1 CONTAINER"
+    let patches = 1;
+    for (const level of packageDesc.split('>')) {
+      const countMatch = level.match(/^\s*(\d+)\s+[A-Z]/i);
+      if (countMatch) {
+        patches *= parseInt(countMatch[1], 10);
+      }
+    }
+
+    return patches;
+  }
+
+  /**
+   * Parse insulin concentration (units/mL) from FDA active_ingredients
+   * FDA insulin strengths look like "100 [iU]/mL" or "200 U/mL"
+   */
+  private parseInsulinStrength(result: NonNullable<FDAResponse['results']>[0]): number | null {
+    const ingredients = result.active_ingredients;
+    if (!Array.isArray(ingredients) || ingredients.length !== 1 || !ingredients[0].strength) {
+      return null;
+    }
+
+    return parseInsulinConcentration(ingredients[0].strength);
+  }
+
   /**
    * Parse insulin package size from FDA data
    * For insulin, package_size should represent total units in the package
@@ -318,16 +415,26 @@ export class FDAClient {
     const brandName = (result.brand_name || '').toLowerCase();
     const packageSize = result.package_size || '';
     
-    // Default concentration (U100 = 100 units/mL)
-    let concentration = 100;
+    // Concentration from FDA strength, then name/description (U100, U-200, U500), default U100
+    const concentration = this.parseInsulinStrength(result) ??
+      parseInsulinConcentration(packageDesc + ' ' + brandName) ??
+      100;
     
-    // Check for concentration in name/description (U100, U200, U500)
-    const concentrationMatch = (packageDesc + ' ' + brandName).match(/\b(u\d{3})\b/i);
-    if (concentrationMatch) {
-      const concStr = concentrationMatch[1].toLowerCase();
-      if (concStr === 'u200') concentration = 200;
-      else if (concStr === 'u500') concentration = 500;
-      // else u100 = 100 (default)
+    // Pens/vials per package × volume per pen/vial ("5 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE" = 15 mL)
+    const spec = parseInsulinPackage(
+      result.package_description ||
+        (Array.isArray(result.packaging) && result.packaging.length > 0 ? result.packaging[0].description : undefined)
+    );
+    if (spec) {
+      const totalUnits = Math.round(spec.containers * spec.volume_ml * concentration);
+      logInfo('Parsed insulin package size', {
+        packageDesc: packageDesc.substring(0, 100),
+        containers: spec.containers,
+        volumeML: spec.volume_ml,
+        concentration,
+        totalUnits,
+      });
+      return totalUnits;
     }
     
     // Try to extract volume from package description
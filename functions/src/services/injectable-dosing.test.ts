@@ -0,0 +1,61 @@
+/**
+ * Injectable Dosing Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertInjectableDose, isInjectedDose, toDevicePackages } from './injectable-dosing';
+import type { ParsedSIG } from './sig-parser';
+
+describe('Injectable Dosing', () => {
+  describe('convertInjectableDose', () => {
+    it('should convert a weekly GLP-1 dose into pens', () => {
+      const weekly: ParsedSIG = { dose_unit: 'mg', per_day: 0.5 / 7, confidence: 'parsed', quantity_per_dose: 0.5 };
+      const result = convertInjectableDose(weekly, 'Ozempic');
+      expect(result?.parsed.dose_unit).toBe('pen');
+      expect(result?.parsed.quantity_per_dose).toBe(0.25);
+      expect(result?.parsed.per_day).toBeCloseTo(0.25 / 7, 10);
+      expect(result?.details).toMatchObject({ device: 'pen', devices_per_dose: 0.25, doses_per_device: 4 });
+    });
+
+    it('should convert an mg dose from an mg/mL vial', () => {
+      const weekly: ParsedSIG = { dose_unit: 'mg', per_day: 100 / 7, confidence: 'parsed', quantity_per_dose: 100 };
+      const result = convertInjectableDose(weekly, 'testosterone cypionate');
+      expect(result?.parsed.dose_unit).toBe('vial');
+      expect(result?.details.doses_per_device).toBe(20);
+      expect(result?.details.dose_volume_ml).toBe(0.5);
+    });
+
+    it('should return null for drugs without a device or non-mass doses', () => {
+      expect(convertInjectableDose({ dose_unit: 'mg', per_day: 10, confidence: 'parsed' }, 'lisinopril')).toBeNull();
+      expect(convertInjectableDose({ dose_unit: 'mL', per_day: 1, confidence: 'parsed' }, 'Ozempic')).toBeNull();
+    });
+  });
+
+  describe('isInjectedDose', () => {
+    const tablets = [{ ndc: '00000000001', pkg_size: 30, active: true, dosage_form: 'TABLET', package_description: '30 TABLET in 1 BOTTLE' }];
+    const pens = [{ ndc: '00000000002', pkg_size: 1, active: true, dosage_form: 'INJECTION, SOLUTION', package_description: '1 PEN, DISPOSABLE in 1 CARTON > 3 mL in 1 PEN, DISPOSABLE' }];
+
+    it('should follow the SIG route or verb', () => {
+      expect(isInjectedDose({ route: 'subcutaneous', verb: null }, [])).toBe(true);
+      expect(isInjectedDose({ route: null, verb: 'inject' }, tablets)).toBe(true);
+      expect(isInjectedDose({ route: 'oral', verb: 'take' }, pens)).toBe(false);
+    });
+
+    it('should fall back to injectable packages', () => {
+      expect(isInjectedDose({ route: null, verb: 'take' }, pens)).toBe(true);
+      expect(isInjectedDose(undefined, tablets)).toBe(false);
+      expect(isInjectedDose(undefined, [])).toBe(false);
+    });
+  });
+
+  describe('toDevicePackages', () => {
+    it('should count devices and drop packages without a device', () => {
+      const packages = toDevicePackages([
+        { ndc: '00000000001', pkg_size: 3, active: true, package_description: '1 PEN, DISPOSABLE in 1 CARTON > 3 mL in 1 PEN, DISPOSABLE' },
+        { ndc: '00000000002', pkg_size: 30, active: true, package_description: '30 TABLET in 1 BOTTLE' },
+      ]);
+      expect(packages).toHaveLength(1);
+      expect(packages[0].pkg_size).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Injectable Dosing Service
+ *
+ * This module converts mass doses of non-insulin injectables ("0.5 mg weekly",
+ * "40 mg every 14 days", "100 mg weekly") into dispensable devices
+ * (pens, prefilled syringes, vials) using the configured device capacities.
+ * The dosing interval stays in the ParsedSIG, so the quantity calculator
+ * counts devices over the days supply like any other unit.
+ */
+
+import { logInfo } from '../utils/logger';
+import { convertToMg, isMassUnit } from '../utils/unit-conversions';
+import {
+  calculateDevicesPerDose,
+  countDevicesInPackage,
+  getInjectableDevice,
+  INJECTABLE_DEVICES,
+} from '../utils/injectable-config';
+import type { InjectableDevice, InjectableDeviceType } from '../utils/injectable-config';
+import type { ParsedSIG } from './sig-parser';
+import type { StructuredSIG } from './sig-structure';
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Device math for reasoning
+ */
+export interface InjectableDoseDetails {
+  device: InjectableDeviceType;
+  dose_mg: number; // Dose per injection
+  devices_per_dose: number; // Fractional when one device covers several doses
+  doses_per_device: number; // Whole doses one device covers (0 when a dose needs several devices)
+  capacity: string; // Device capacity for display ("4 doses/pen", "200 mg/mL × 10 mL")
+  dose_volume_ml?: number; // Variable-dose devices: volume drawn per dose
+}
+
+/**
+ * Routes that administer a dose by injection
+ */
+const INJECTION_ROUTES = ['subcutaneous', 'intramuscular', 'intravenous'];
+
+/**
+ * FDA routes of injectable products
+ */
+const INJECTABLE_FDA_ROUTE_PATTERN = /SUBCUTANEOUS|INTRAMUSCULAR|INTRAVENOUS/i;
+
+/**
+ * Check whether a dose is injected rather than taken another way
+ *
+ * The SIG route or verb wins ("subcutaneously", "inject"; "by mouth" is never injected);
+ * otherwise an active package must be injectable by FDA dosage form, route or device.
+ * Oral semaglutide (Rybelsus) shares a name with the Ozempic pen and must stay a tablet.
+ *
+ * @param structured - Route and verb read from the SIG
+ * @param packages - Available packages
+ * @returns True if the dose is injected
+ */
+export function isInjectedDose(
+  structured: Pick<StructuredSIG, 'route' | 'verb'> | undefined,
+  packages: NDCPackageData[]
+): boolean {
+  if (structured?.verb === 'inject' || (structured?.route && INJECTION_ROUTES.includes(structured.route))) {
+    return true;
+  }
+  if (structured?.route) {
+    return false;
+  }
+
+  return packages.some((pkg) =>
+    pkg.active && (
+      (pkg.dosage_form || '').toUpperCase().includes('INJECT') ||
+      (pkg.route || []).some((route) => INJECTABLE_FDA_ROUTE_PATTERN.test(route)) ||
+      countDevicesInPackage(pkg.package_description) > 0
+    )
+  );
+}
+
+/**
+ * Format a device capacity for display
+ */
+function formatCapacity(device: InjectableDevice): string {
+  if (device.doses_per_device) {
+    return `${device.doses_per_device} dose(s)/${device.device}`;
+  }
+  return `${device.concentration_mg_per_ml} mg/mL × ${device.volume_ml} mL`;
+}
+
+/**
+ * Convert a mass dose into injectable devices
+ *
+ * @param parsedSIG - Parsed SIG with a mass dose unit (mg, mcg, g)
+ * @param drugName - Drug name used to look up the device capacity
+ * @param devices - Device-capacity table (default: configured devices)
+ * @returns Device-based ParsedSIG and the device math, or null if the drug is not a known injectable
+ */
+export function convertInjectableDose(
+  parsedSIG: ParsedSIG,
+  drugName: string,
+  devices: Record<string, InjectableDevice> = INJECTABLE_DEVICES
+): { parsed: ParsedSIG; details: InjectableDoseDetails } | null {
+  if (!isMassUnit(parsedSIG.dose_unit)) {
+    return null;
+  }
+
+  const device = getInjectableDevice(drugName, devices);
+  if (!device) {
+    return null;
+  }
+
+  const dosePerAdministration = parsedSIG.quantity_per_dose ?? parsedSIG.per_day;
+  const doseMg = convertToMg(dosePerAdministration, parsedSIG.dose_unit);
+  const devicesPerDose = calculateDevicesPerDose(doseMg, device);
+  if (devicesPerDose <= 0) {
+    return null;
+  }
+
+  const factor = devicesPerDose / dosePerAdministration;
+  const parsed: ParsedSIG = {
+    ...parsedSIG,
+    dose_unit: device.device,
+    per_day: parsedSIG.per_day * factor,
+    ...(parsedSIG.quantity_per_dose !== undefined && { quantity_per_dose: devicesPerDose }),
+  };
+
+  const details: InjectableDoseDetails = {
+    device: device.device,
+    dose_mg: doseMg,
+    devices_per_dose: devicesPerDose,
+    doses_per_device: devicesPerDose <= 1 ? Math.round(1 / devicesPerDose) : 0,
+    capacity: formatCapacity(device),
+    ...(device.concentration_mg_per_ml && { dose_volume_ml: doseMg / device.concentration_mg_per_ml }),
+  };
+
+  logInfo('Converted injectable dose to devices', {
+    device: device.device,
+    doseMg,
+    devicesPerDose,
+  });
+
+  return { parsed, details };
+}
+
+/**
+ * Re-express package sizes as device counts
+ *
+ * FDA package sizes for injectables are usually volumes ("10 mL in 1 VIAL"), which do not
+ * compare with a quantity in devices. Packages whose description does not name a device
+ * are dropped.
+ *
+ * @param packages - Available packages
+ * @returns Packages with pkg_size in devices
+ */
+export function toDevicePackages(packages: NDCPackageData[]): NDCPackageData[] {
+  return packages
+    .map((pkg) => ({ ...pkg, pkg_size: countDevicesInPackage(pkg.package_description) }))
+    .filter((pkg) => pkg.pkg_size > 0);
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateQuantity } from './quantity-calculator';
+import { calculateQuantity, calculateQuantityWithRounding } from './quantity-calculator';
 import { ValidationError } from '../utils/errors';
 import type { ParsedSIG } from './sig-parser';
 
@@ -127,5 +127,429 @@ describe('Quantity Calculator', () => {
       const result = calculateQuantity(maxSIG, 30, 'solid');
       expect(result.total_qty).toBe(3000); // 100 × 30
     });
+
+    it('should round split-tablet totals up to whole tablets', () => {
+      const quarterSIG: ParsedSIG = { dose_unit: 'tab', per_day: 1 / 4, confidence: 'parsed' };
+      expect(calculateQuantity(quarterSIG, 5, 'solid').total_qty).toBe(2); // 1.25 tabs
+
+      const thirdSIG: ParsedSIG = { dose_unit: 'tab', per_day: 1 / 3, confidence: 'parsed' };
+      expect(calculateQuantity(thirdSIG, 10, 'solid').total_qty).toBe(4); // 3.33 tabs
+      expect(calculateQuantity(thirdSIG, 9, 'solid').total_qty).toBe(3);
+
+      const rounding = calculateQuantityWithRounding(quarterSIG, 5, 'solid').rounding;
+      expect(rounding).toMatchObject({ applied: true, rule: 'round_to_integer', before: 1.25, after: 2 });
+    });
+  });
+
+  describe('multi-phase schedules', () => {
+    const taperSIG: ParsedSIG = {
+      dose_unit: 'tab',
+      per_day: 2.5,
+      confidence: 'parsed',
+      phases: [
+        { quantity_per_dose: 4, frequency: 1, per_day: 4, duration_days: 3 },
+        { quantity_per_dose: 3, frequency: 1, per_day: 3, duration_days: 3 },
+        { quantity_per_dose: 2, frequency: 1, per_day: 2, duration_days: 3 },
+        { quantity_per_dose: 1, frequency: 1, per_day: 1, duration_days: 3 },
+      ],
+    };
+
+    it('should sum phase quantities instead of multiplying by days_supply', () => {
+      const result = calculateQuantityWithRounding(taperSIG, 12, 'solid');
+      expect(result.computed.total_qty).toBe(30); // (4 + 3 + 2 + 1) × 3 days
+      expect(result.phase_schedule?.schedule_days).toBe(12);
+      expect(result.phase_schedule?.days_supply_mismatch).toBe(false);
+    });
+
+    it('should flag phases that do not match days_supply', () => {
+      const result = calculateQuantityWithRounding(taperSIG, 10, 'solid');
+      expect(result.computed.total_qty).toBe(30);
+      expect(result.phase_schedule?.days_supply_mismatch).toBe(true);
+    });
+
+    it('should run an open-ended final phase for the remaining days', () => {
+      const titrationSIG: ParsedSIG = {
+        dose_unit: 'tab',
+        per_day: 1,
+        confidence: 'parsed',
+        phases: [
+          { quantity_per_dose: 1, frequency: 1, per_day: 1, duration_days: 7 },
+          { quantity_per_dose: 2, frequency: 1, per_day: 2, duration_days: null },
+        ],
+      };
+      const result = calculateQuantityWithRounding(titrationSIG, 30, 'solid');
+      expect(result.computed.total_qty).toBe(53); // 1 × 7 + 2 × 23
+      expect(result.phase_schedule?.phases[1]).toEqual({ per_day: 2, days: 23, quantity: 46, open_ended: true });
+      expect(result.phase_schedule?.days_supply_mismatch).toBe(false);
+    });
+
+    it('should apply phases in calculateQuantity as well', () => {
+      const result = calculateQuantity(taperSIG, 12, 'solid');
+      expect(result.total_qty).toBe(30);
+    });
+  });
+
+  describe('non-daily schedules', () => {
+    it('should count whole weekly doses within days_supply', () => {
+      const weeklySIG: ParsedSIG = {
+        dose_unit: 'tab',
+        per_day: 4 / 7,
+        confidence: 'parsed',
+        quantity_per_dose: 4,
+        dosing_schedule: { doses: 1, period_days: 7, label: 'once weekly' },
+      };
+      const result = calculateQuantityWithRounding(weeklySIG, 30, 'solid');
+      expect(result.dose_schedule?.dose_count).toBe(5); // days 1, 8, 15, 22, 29
+      expect(result.computed.total_qty).toBe(20); // 5 doses × 4 tabs (not 30 × 4/7 = 17)
+      expect(result.computed.per_day).toBeCloseTo(4 / 7);
+    });
+
+    it('should count every-other-day doses', () => {
+      const qodSIG: ParsedSIG = {
+        dose_unit: 'tab',
+        per_day: 0.5,
+        confidence: 'parsed',
+        quantity_per_dose: 1,
+        dosing_schedule: { doses: 1, period_days: 2, label: 'every other day' },
+      };
+      expect(calculateQuantity(qodSIG, 30, 'solid').total_qty).toBe(15);
+      expect(calculateQuantity(qodSIG, 31, 'solid').total_qty).toBe(16);
+    });
+
+    it('should count monthly doses', () => {
+      const monthlySIG: ParsedSIG = {
+        dose_unit: 'tab',
+        per_day: 1 / 30,
+        confidence: 'parsed',
+        quantity_per_dose: 1,
+        dosing_schedule: { doses: 1, period_days: 30, label: 'monthly' },
+      };
+      expect(calculateQuantity(monthlySIG, 90, 'solid').total_qty).toBe(3);
+    });
+  });
+
+  describe('weekday schedules', () => {
+    const warfarinSIG: ParsedSIG = {
+      dose_unit: 'tab',
+      per_day: 5 / 7,
+      confidence: 'parsed',
+      weekday_schedule: [1, 0.5, 1, 0.5, 1, 0.5, 0.5],
+    };
+
+    it('should use the weekly total for full weeks', () => {
+      const result = calculateQuantityWithRounding(warfarinSIG, 28, 'solid');
+      expect(result.computed.total_qty).toBe(20); // 4 weeks × 5 tabs
+      expect(result.weekday_schedule?.assumption).toBeUndefined();
+    });
+
+    it('should cover a partial week with the highest-dose consecutive days', () => {
+      const result = calculateQuantityWithRounding(warfarinSIG, 30, 'solid');
+      // 4 weeks × 5 + best 2-day run (Fri + Sat = 1.5, or Sun + Mon = 1.5)
+      expect(result.weekday_schedule?.remainder_qty).toBe(1.5);
+      expect(result.rounding.before).toBe(21.5);
+      expect(result.weekday_schedule?.assumption).toContain('Start day unknown');
+    });
+  });
+
+  describe('cyclic regimens', () => {
+    const cycleSIG: ParsedSIG = {
+      dose_unit: 'cap',
+      per_day: 1,
+      confidence: 'parsed',
+      cycle: { days_on: 21, days_off: 7 },
+    };
+
+    it('should dispense one full cycle for a matching days supply', () => {
+      const result = calculateQuantityWithRounding(cycleSIG, 28, 'solid');
+      expect(result.computed.total_qty).toBe(21);
+      expect(result.computed.calendar_days).toBe(28);
+      expect(result.computed.dosing_days).toBe(21);
+    });
+
+    it('should round up to whole cycles', () => {
+      const result = calculateQuantityWithRounding(cycleSIG, 30, 'solid');
+      expect(result.cycle_schedule?.cycles).toBe(2);
+      expect(result.computed.calendar_days).toBe(56);
+      expect(result.computed.dosing_days).toBe(42);
+      expect(result.computed.total_qty).toBe(42);
+    });
+
+    it('should leave calendar and dosing days unset for daily regimens', () => {
+      const dailySIG: ParsedSIG = { dose_unit: 'tab', per_day: 1, confidence: 'parsed' };
+      const result = calculateQuantityWithRounding(dailySIG, 30, 'solid');
+      expect(result.computed.calendar_days).toBeUndefined();
+      expect(result.cycle_schedule).toBeUndefined();
+    });
+  });
+
+  describe('eye/ear drops', () => {
+    const dropsSIG: ParsedSIG = { dose_unit: 'drop', per_day: 4, confidence: 'parsed', application_sites: 2 };
+
+    it('should convert drops to mL and round to a whole bottle', () => {
+      const result = calculateQuantityWithRounding(dropsSIG, 30, 'drops', 'timolol ophthalmic');
+      // 120 drops / 20 drops per mL = 6 mL -> one 10 mL bottle
+      expect(result.computed.dose_unit).toBe('mL');
+      expect(result.computed.per_day).toBe(0.2);
+      expect(result.computed.total_qty).toBe(10);
+      expect(result.rounding.rule).toBe('round_to_whole_bottles');
+      expect(result.rounding.before).toBe(6);
+      expect(result.rounding.details?.bottles_needed).toBe(1);
+    });
+
+    it('should use product-specific drops per mL', () => {
+      const latanoprostSIG: ParsedSIG = { dose_unit: 'drop', per_day: 2, confidence: 'parsed', application_sites: 2 };
+      const result = calculateQuantityWithRounding(latanoprostSIG, 30, 'drops', 'latanoprost');
+      // 60 drops / 30 drops per mL = 2 mL -> one 2.5 mL bottle
+      expect(result.rounding.details?.drops_per_ml).toBe(30);
+      expect(result.computed.total_qty).toBe(2.5);
+    });
+
+    it('should only use bottle sizes found in packages', () => {
+      const packages = [{ ndc: '00000000001', pkg_size: 5, active: true, dosage_form: 'SOLUTION/DROPS' }];
+      const result = calculateQuantityWithRounding(dropsSIG, 30, 'drops', 'timolol ophthalmic', undefined, packages);
+      expect(result.computed.total_qty).toBe(10);
+      expect(result.rounding.details?.bottle_size_ml).toBe(5);
+      expect(result.rounding.details?.bottles_needed).toBe(2);
+    });
+  });
+
+  describe('inhalers', () => {
+    it('should round to canisters of the candidate package and report the source', () => {
+      const inhalerSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 2, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 60, active: true, package_description: '1 INHALER in 1 CARTON > 60 ACTUATION in 1 INHALER' }];
+      const result = calculateQuantityWithRounding(inhalerSIG, 30, 'inhaler', 'albuterol', undefined, packages);
+      expect(result.computed.total_qty).toBe(60);
+      expect(result.rounding.details).toMatchObject({ actuations_per_canister: 60, actuation_source: 'package_description', canisters_needed: 1 });
+    });
+
+    it('should fall back to the static table', () => {
+      const inhalerSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 2, confidence: 'parsed' };
+      const result = calculateQuantityWithRounding(inhalerSIG, 30, 'inhaler', 'albuterol');
+      expect(result.computed.total_qty).toBe(200);
+      expect(result.rounding.details?.actuation_source).toBe('static_table');
+    });
+
+    it('should round blister dry-powder inhalers to whole devices', () => {
+      const inhalerSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 2, confidence: 'parsed' };
+      const result = calculateQuantityWithRounding(inhalerSIG, 30, 'inhaler', 'Advair Diskus');
+      expect(result.computed.total_qty).toBe(60);
+      expect(result.rounding.rule).toBe('round_to_whole_inhalers');
+      expect(result.rounding.details).toMatchObject({ device_type: 'blister_dpi', devices_needed: 1, device_source: 'static_table' });
+    });
+
+    it('should count HandiHaler capsules and round to whole blister cards', () => {
+      const inhalerSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 2, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 30, active: true, package_description: '3 BLISTER PACK in 1 CARTON > 10 CAPSULE in 1 BLISTER PACK' }];
+      const result = calculateQuantityWithRounding(inhalerSIG, 30, 'inhaler', 'Spiriva HandiHaler', undefined, packages);
+      expect(result.computed.dose_unit).toBe('cap');
+      expect(result.computed.per_day).toBe(1);
+      expect(result.computed.total_qty).toBe(30);
+      expect(result.rounding.rule).toBe('round_to_whole_blister_cards');
+      expect(result.rounding.details).toMatchObject({ inhalations_per_dose: 2, devices_needed: 3, packages_needed: 1, device_source: 'package_description' });
+    });
+
+    it('should count capsules when the capsule device is only detected from the package', () => {
+      // "Inhale 2 puffs once daily" = 2 inhalations of 1 capsule per day
+      const inhalerSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 2, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 30, active: true, package_description: '3 BLISTER PACK in 1 CARTON > 10 CAPSULE in 1 BLISTER PACK' }];
+      const result = calculateQuantityWithRounding(inhalerSIG, 30, 'inhaler', 'Spiriva', undefined, packages);
+      expect(result.computed.dose_unit).toBe('cap');
+      expect(result.computed.total_qty).toBe(30);
+      expect(result.rounding.details).toMatchObject({ device_type: 'capsule_dpi', inhalations_per_dose: 2 });
+    });
+  });
+
+  describe('nasal sprays', () => {
+    it('should round sprays to whole bottles', () => {
+      const sprayingSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 4, confidence: 'parsed', application_sites: 2 };
+      const result = calculateQuantityWithRounding(sprayingSIG, 30, 'nasal_spray', 'fluticasone propionate nasal');
+      // 120 sprays -> one 120-spray bottle
+      expect(result.computed.total_qty).toBe(120);
+      expect(result.rounding.rule).toBe('round_to_whole_bottles');
+      expect(result.rounding.details?.bottles_needed).toBe(1);
+    });
+
+    it('should use product-specific spray counts', () => {
+      const sprayingSIG: ParsedSIG = { dose_unit: 'actuation', per_day: 4, confidence: 'parsed', application_sites: 2 };
+      const result = calculateQuantity(sprayingSIG, 90, 'nasal_spray', 'azelastine');
+      // 360 sprays -> two 200-spray bottles
+      expect(result.total_qty).toBe(400);
+    });
+  });
+
+  describe('topicals', () => {
+    it('should round grams to whole tubes', () => {
+      const topicalSIG: ParsedSIG = { dose_unit: 'g', per_day: 1, confidence: 'parsed', quantity_per_dose: 0.5 };
+      const result = calculateQuantityWithRounding(topicalSIG, 30, 'topical', 'triamcinolone cream');
+      expect(result.computed.dose_unit).toBe('g');
+      expect(result.computed.total_qty).toBe(30);
+      expect(result.rounding.rule).toBe('round_to_whole_tubes');
+      expect(result.rounding.details?.tubes_needed).toBe(1);
+    });
+  });
+
+  describe('patches', () => {
+    it('should count patch changes and round to whole boxes', () => {
+      const patchSIG: ParsedSIG = {
+        dose_unit: 'patch',
+        per_day: 1 / 3,
+        confidence: 'parsed',
+        quantity_per_dose: 1,
+        dosing_schedule: { doses: 1, period_days: 3, label: 'every 72 hours' },
+      };
+      const packages = [{ ndc: '00000000001', pkg_size: 5, active: true, dosage_form: 'PATCH, EXTENDED RELEASE' }];
+      const result = calculateQuantityWithRounding(patchSIG, 30, 'patch', 'fentanyl', undefined, packages);
+      // Changes on days 1, 4, ..., 28 = 10 patches = 2 boxes of 5
+      expect(result.rounding.before).toBe(10);
+      expect(result.computed.total_qty).toBe(10);
+      expect(result.rounding.rule).toBe('round_to_whole_boxes');
+      expect(result.rounding.details?.boxes_needed).toBe(2);
+    });
+
+    it('should round up to the box count with the fewest leftover patches', () => {
+      const weeklySIG: ParsedSIG = {
+        dose_unit: 'patch',
+        per_day: 1 / 7,
+        confidence: 'parsed',
+        quantity_per_dose: 1,
+        dosing_schedule: { doses: 1, period_days: 7, label: 'once weekly' },
+      };
+      const result = calculateQuantityWithRounding(weeklySIG, 28, 'patch', 'clonidine');
+      expect(result.computed.total_qty).toBe(4);
+      expect(result.rounding.details?.box_size).toBe(4);
+    });
+  });
+
+  describe('insulin', () => {
+    it('should include priming units and break out adjustments', () => {
+      const insulinSIG: ParsedSIG = { dose_unit: 'unit', per_day: 20, confidence: 'parsed' };
+      const result = calculateQuantityWithRounding(insulinSIG, 30, 'insulin', 'Humalog KwikPen', undefined, undefined, 2);
+      // 600 units + 2 units x 60 injections = 720 units = 3 pens of 300 units
+      expect(result.computed.total_qty).toBe(900);
+      expect(result.rounding.rule).toBe('round_to_whole_pens');
+      expect(result.rounding.details).toMatchObject({ injections: 60, priming_units: 120, containers_for_volume: 3, containers_for_in_use: 2 });
+    });
+
+    it('should round to the pen volume and concentration of the candidate packages', () => {
+      const insulinSIG: ParsedSIG = { dose_unit: 'unit', per_day: 40, confidence: 'parsed' };
+      const packages = [
+        { ndc: '00000000001', pkg_size: 1800, active: true, package_description: '3 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE', units_per_ml: 200 },
+      ];
+      const result = calculateQuantityWithRounding(insulinSIG, 30, 'insulin', 'Tresiba FlexTouch', undefined, packages, 1);
+      expect(result.computed.total_qty).toBe(1800);
+      expect(result.rounding.details).toMatchObject({ concentration: 200, volume_per_container: 3, containers_per_package: 3, packages_needed: 1, package_source: 'package_description' });
+    });
+
+    it('should dispense a container per in-use period', () => {
+      const insulinSIG: ParsedSIG = { dose_unit: 'unit', per_day: 5, confidence: 'parsed' };
+      const result = calculateQuantityWithRounding(insulinSIG, 84, 'insulin', 'Novolog vial', undefined, undefined, 1);
+      expect(result.computed.total_qty).toBe(3000);
+      expect(result.rounding.details).toMatchObject({ in_use_days: 28, containers_for_volume: 1, containers_for_in_use: 3 });
+    });
+  });
+
+  describe('injectables', () => {
+    it('should count weekly doses and round to whole pens', () => {
+      const penSIG: ParsedSIG = {
+        dose_unit: 'pen',
+        per_day: 0.25 / 7,
+        confidence: 'parsed',
+        quantity_per_dose: 0.25,
+        dosing_schedule: { doses: 1, period_days: 7, label: 'once weekly' },
+      };
+      const result = calculateQuantityWithRounding(penSIG, 84, 'injectable', 'Ozempic');
+      // 12 weekly doses at 4 doses per pen = 3 pens
+      expect(result.computed.total_qty).toBe(3);
+      expect(result.rounding.rule).toBe('round_to_whole_devices');
+    });
+
+    it('should round partial devices up', () => {
+      const vialSIG: ParsedSIG = { dose_unit: 'vial', per_day: 0.05 / 7, confidence: 'parsed', quantity_per_dose: 0.05 };
+      const result = calculateQuantityWithRounding(vialSIG, 30, 'injectable', 'testosterone cypionate');
+      expect(result.computed.total_qty).toBe(1);
+    });
+  });
+
+  describe('reconstituted suspensions', () => {
+    it('should round to whole reconstituted bottles', () => {
+      const suspensionSIG: ParsedSIG = { dose_unit: 'mL', per_day: 10, confidence: 'parsed' };
+      const result = calculateQuantityWithRounding(suspensionSIG, 10, 'liquid', 'amoxicillin 400 mg/5 mL for suspension');
+      expect(result.computed.total_qty).toBe(100);
+      expect(result.rounding.rule).toBe('round_to_reconstituted_bottles');
+      expect(result.rounding.details).toMatchObject({ bottles_needed: 1, beyond_use_days: 14, exceeds_beyond_use: false });
+    });
+
+    it('should split the fill when days supply exceeds the beyond-use date', () => {
+      const suspensionSIG: ParsedSIG = { dose_unit: 'mL', per_day: 7, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 100, active: true, dosage_form: 'POWDER, FOR SUSPENSION' }];
+      const result = calculateQuantityWithRounding(suspensionSIG, 20, 'liquid', 'cefdinir', undefined, packages);
+      // 140 mL, but each bottle expires 10 days (70 mL) after mixing
+      expect(result.computed.total_qty).toBe(200);
+      expect(result.rounding.details).toMatchObject({ bottles_needed: 2, usable_ml_per_bottle: 70, exceeds_beyond_use: true });
+    });
+
+    it('should keep 5 mL rounding for ready-made liquids', () => {
+      const liquidSIG: ParsedSIG = { dose_unit: 'mL', per_day: 7, confidence: 'parsed' };
+      expect(calculateQuantityWithRounding(liquidSIG, 3, 'liquid', 'ibuprofen').rounding.rule).toBe('round_liquid_to_5ml');
+    });
+  });
+
+  describe('dose packs', () => {
+    it('should dispense a matching taper as one whole dose pack', () => {
+      const taperSIG: ParsedSIG = { dose_unit: 'tab', per_day: 3.5, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 21, active: true, package_description: '21 TABLET in 1 DOSE PACK' }];
+      const result = calculateQuantityWithRounding(taperSIG, 6, 'solid', 'methylprednisolone 4 mg', undefined, packages);
+      expect(result.computed.total_qty).toBe(21);
+      expect(result.rounding.rule).toBe('round_to_whole_dose_packs');
+      expect(result.rounding.details).toMatchObject({ pack_units: 21, packs_needed: 1, schedule_matches: true, course_days: 6 });
+    });
+
+    it('should round a mismatched SIG up to whole packs', () => {
+      const sig: ParsedSIG = { dose_unit: 'tab', per_day: 1, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 6, active: true, package_description: '1 BLISTER PACK in 1 CARTON > 6 TABLET in 1 BLISTER PACK' }];
+      const result = calculateQuantityWithRounding(sig, 4, 'solid', 'azithromycin 250 mg', undefined, packages);
+      expect(result.computed.total_qty).toBe(6);
+      expect(result.rounding.details).toMatchObject({ packs_needed: 1, schedule_matches: false });
+    });
+
+    it('should not match a schedule that fills the pack over a different course length', () => {
+      const sig: ParsedSIG = { dose_unit: 'tab', per_day: 1, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 6, active: true, package_description: '1 BLISTER PACK in 1 CARTON > 6 TABLET in 1 BLISTER PACK' }];
+      const result = calculateQuantityWithRounding(sig, 6, 'solid', 'azithromycin 250 mg', undefined, packages);
+      expect(result.computed.total_qty).toBe(6);
+      expect(result.rounding.details).toMatchObject({ schedule_matches: false, course_days: 5, sig_days: 6 });
+    });
+
+    it('should keep integer rounding for bottles', () => {
+      const sig: ParsedSIG = { dose_unit: 'tab', per_day: 1, confidence: 'parsed' };
+      const packages = [{ ndc: '00000000001', pkg_size: 30, active: true, package_description: '30 TABLET in 1 BOTTLE' }];
+      expect(calculateQuantityWithRounding(sig, 30, 'solid', 'azithromycin', undefined, packages).rounding.rule).toBe('round_to_integer');
+    });
+  });
+
+  describe('supplies', () => {
+    it('should map tests to strips and round to whole boxes', () => {
+      const testingSIG: ParsedSIG = { dose_unit: 'test', per_day: 4, confidence: 'parsed', quantity_per_dose: 1 };
+      const result = calculateQuantityWithRounding(testingSIG, 30, 'supplies', 'Contour Next test strips');
+      expect(result.computed.dose_unit).toBe('strip');
+      expect(result.computed.total_qty).toBe(150);
+      expect(result.rounding.rule).toBe('round_to_supply_boxes');
+      expect(result.rounding.details).toMatchObject({ supply_type: 'test_strip', box_size: 50, boxes_needed: 3 });
+    });
+
+    it('should use box counts from the package descriptions', () => {
+      const testingSIG: ParsedSIG = { dose_unit: 'test', per_day: 3, confidence: 'parsed', quantity_per_dose: 1 };
+      const packages = [{ ndc: '00000000001', pkg_size: 102, active: true, package_description: '102 LANCET in 1 BOX' }];
+      const result = calculateQuantityWithRounding(testingSIG, 30, 'supplies', 'lancets', undefined, packages);
+      expect(result.computed.dose_unit).toBe('lancet');
+      expect(result.computed.total_qty).toBe(102);
+    });
+
+    it('should map injections to pen needles', () => {
+      const needleSIG: ParsedSIG = { dose_unit: 'injection', per_day: 4, confidence: 'parsed', quantity_per_dose: 1 };
+      const result = calculateQuantityWithRounding(needleSIG, 30, 'supplies', 'BD Nano');
+      expect(result.computed.dose_unit).toBe('needle');
+      expect(result.computed.total_qty).toBe(150);
+    });
   });
 });
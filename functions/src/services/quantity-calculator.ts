@@ -6,7 +6,11 @@
  * 
  * Supports special rounding logic for different dosage forms:
  * - Liquids: Round to nearest 5 mL
+ * - Eye/ear drops: Convert drops to mL and round to whole bottles
+ * - Topicals: Round grams to whole tubes
+ * - Patches: Round to whole boxes
  * - Inhalers: Round to whole canisters
+ * - Nasal sprays: Round to whole bottles
  * - Insulin: Round to whole pens/vials
  * - Solids: Round to whole units
  */
@@ -14,12 +18,23 @@
 import { logInfo } from '../utils/logger';
 import { ValidationError } from '../utils/errors';
 import { roundLiquidVolume } from '../utils/unit-conversions';
-import { getActuationsPerCanister, calculateCanistersNeeded } from '../utils/inhaler-config';
+import {
+  chooseInhalerPackage,
+  chooseDPIPackage,
+  getInhalationsPerDose,
+  getInhalerDeviceType,
+} from '../utils/inhaler-config';
+import { getDropsPerML, calculateBottlesNeeded } from '../utils/drops-config';
+import { getSpraysPerBottle, calculateSprayBottlesNeeded } from '../utils/nasal-spray-config';
+import { calculateTubesNeeded } from '../utils/topical-config';
+import { calculateBoxesNeeded } from '../utils/patch-config';
+import { calculateDevicesNeeded } from '../utils/injectable-config';
+import { calculateSupplyBoxesNeeded, resolveSupplyType, SUPPLY_UNITS } from '../utils/supplies-config';
+import { getBeyondUseDays, isReconstitutedProduct, planReconstitutedBottles } from '../utils/reconstitution-config';
+import { chooseDosePack } from '../utils/dose-pack-config';
 import { 
-  getInsulinConcentration, 
   unitsToVolume, 
-  calculatePensNeeded, 
-  calculateVialsNeeded,
+  chooseInsulinPackage,
   isPenFormat,
   isVialFormat,
   isPenFormatFromPackage,
@@ -37,6 +52,8 @@ export interface ComputedData {
   per_day: number; // Quantity per day
   total_qty: number; // Total quantity needed (per_day × days_supply)
   days_supply: number; // Days of supply
+  calendar_days?: number; // Cyclic regimens: calendar days covered by whole cycles
+  dosing_days?: number; // Cyclic regimens: dosing (on) days within those cycles
 }
 
 /**
@@ -50,18 +67,65 @@ export interface RoundingDetails {
   details?: Record<string, unknown>;
 }
 
+/**
+ * Multi-phase schedule breakdown for reasoning
+ */
+export interface PhaseScheduleDetails {
+  phases: Array<{ per_day: number; days: number; quantity: number; open_ended: boolean }>;
+  schedule_days: number; // Total days covered by the phases
+  days_supply_mismatch: boolean; // Phases cover more or fewer days than days_supply
+}
+
+/**
+ * Non-daily schedule dose count for reasoning
+ */
+export interface DoseScheduleDetails {
+  label: string; // e.g., "once weekly"
+  doses_per_period: number;
+  period_days: number;
+  quantity_per_dose: number;
+  dose_count: number; // Whole doses falling within days_supply (first dose on day 1)
+}
+
+/**
+ * Weekday schedule breakdown for reasoning
+ */
+export interface WeekdayScheduleDetails {
+  weekly_total: number;
+  full_weeks: number;
+  remainder_days: number;
+  remainder_qty: number;
+  assumption?: string; // Present when a partial week is covered (start day unknown)
+}
+
+/**
+ * Cyclic on/off regimen breakdown for reasoning
+ */
+export interface CycleScheduleDetails {
+  days_on: number;
+  days_off: number;
+  cycle_length: number;
+  cycles: number; // Whole cycles needed to cover days_supply
+  calendar_days: number;
+  dosing_days: number;
+}
+
 /**
  * Quantity calculation result with rounding details
  */
 export interface ComputedDataWithRounding {
   computed: ComputedData;
   rounding: RoundingDetails;
+  phase_schedule?: PhaseScheduleDetails;
+  dose_schedule?: DoseScheduleDetails;
+  weekday_schedule?: WeekdayScheduleDetails;
+  cycle_schedule?: CycleScheduleDetails;
 }
 
 /**
  * Supported unit types
  */
-const SUPPORTED_UNITS = ['tab', 'cap', 'mL', 'actuation', 'unit'] as const;
+const SUPPORTED_UNITS = ['tab', 'cap', 'mL', 'actuation', 'unit', 'drop', 'g', 'patch', 'pen', 'syringe', 'vial', 'test', 'injection', 'strip', 'lancet', 'needle'] as const;
 export type SupportedUnit = typeof SUPPORTED_UNITS[number];
 
 /**
@@ -92,11 +156,270 @@ function normalizeUnit(unit: string): string {
     'milliliters': 'mL',
     'millilitre': 'mL',
     'millilitres': 'mL',
+    'drops': 'drop',
+    'gtt': 'drop',
+    'gtts': 'drop',
+    'gm': 'g',
+    'gram': 'g',
+    'grams': 'g',
+    'patches': 'patch',
+    'tests': 'test',
+    'injections': 'injection',
+    'strips': 'strip',
+    'lancets': 'lancet',
+    'needles': 'needle',
   };
   
   return unitMap[normalized] || normalized;
 }
 
+/**
+ * Count whole doses of a non-daily schedule within the days supply
+ * 
+ * The first dose falls on day 1, so a 30-day supply of a weekly drug covers
+ * 5 doses (days 1, 8, 15, 22, 29) rather than 30 × 1/7 = 4.29 doses.
+ */
+function calculateScheduledDoseQuantity(
+  parsedSIG: ParsedSIG,
+  daysSupply: number
+): { totalQty: number; doseSchedule: DoseScheduleDetails } {
+  const schedule = parsedSIG.dosing_schedule!;
+  const quantityPerDose = parsedSIG.quantity_per_dose
+    ?? (parsedSIG.per_day * schedule.period_days) / schedule.doses;
+
+  // Small epsilon guards against floating point error (e.g., 28 / 7)
+  const doseCount = Math.ceil((daysSupply * schedule.doses) / schedule.period_days - 1e-9);
+  const totalQty = doseCount * quantityPerDose;
+
+  logInfo('Calculated non-daily schedule quantity', {
+    schedule: schedule.label,
+    daysSupply,
+    doseCount,
+    quantityPerDose,
+    totalQty,
+  });
+
+  return {
+    totalQty,
+    doseSchedule: {
+      label: schedule.label,
+      doses_per_period: schedule.doses,
+      period_days: schedule.period_days,
+      quantity_per_dose: quantityPerDose,
+      dose_count: doseCount,
+    },
+  };
+}
+
+/**
+ * Calculate the exact quantity of a weekday schedule within the days supply
+ * 
+ * Full weeks use the weekly total. The start day of a partial week is unknown,
+ * so the remaining days use the highest-dose run of consecutive weekdays to
+ * avoid running short.
+ */
+function calculateWeekdayQuantity(
+  parsedSIG: ParsedSIG,
+  daysSupply: number
+): { totalQty: number; weekdaySchedule: WeekdayScheduleDetails } {
+  const schedule = parsedSIG.weekday_schedule!;
+  const weeklyTotal = schedule.reduce((sum, qty) => sum + qty, 0);
+  const fullWeeks = Math.floor(daysSupply / 7);
+  const remainderDays = daysSupply % 7;
+
+  let remainderQty = 0;
+  for (let start = 0; start < 7 && remainderDays > 0; start++) {
+    let runQty = 0;
+    for (let offset = 0; offset < remainderDays; offset++) {
+      runQty += schedule[(start + offset) % 7];
+    }
+    remainderQty = Math.max(remainderQty, runQty);
+  }
+
+  const totalQty = fullWeeks * weeklyTotal + remainderQty;
+
+  logInfo('Calculated weekday schedule quantity', {
+    weeklyTotal,
+    fullWeeks,
+    remainderDays,
+    remainderQty,
+    totalQty,
+  });
+
+  return {
+    totalQty,
+    weekdaySchedule: {
+      weekly_total: weeklyTotal,
+      full_weeks: fullWeeks,
+      remainder_days: remainderDays,
+      remainder_qty: remainderQty,
+      assumption: remainderDays > 0
+        ? `Start day unknown - remaining ${remainderDays} day(s) use the highest-dose consecutive weekdays`
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Calculate the quantity of a cyclic on/off regimen in whole cycles
+ * 
+ * A cycle is dispensed in full, so a 30-day supply of a 21-on/7-off regimen
+ * covers 2 cycles (56 calendar days, 42 dosing days).
+ */
+function calculateCyclicQuantity(
+  parsedSIG: ParsedSIG,
+  daysSupply: number
+): { totalQty: number; cycleSchedule: CycleScheduleDetails } {
+  const { days_on: daysOn, days_off: daysOff } = parsedSIG.cycle!;
+  const cycleLength = daysOn + daysOff;
+  const cycles = Math.max(Math.ceil(daysSupply / cycleLength), 1);
+  const dosingDays = cycles * daysOn;
+  const totalQty = dosingDays * parsedSIG.per_day;
+
+  logInfo('Calculated cyclic regimen quantity', {
+    daysOn,
+    daysOff,
+    cycles,
+    dosingDays,
+    totalQty,
+  });
+
+  return {
+    totalQty,
+    cycleSchedule: {
+      days_on: daysOn,
+      days_off: daysOff,
+      cycle_length: cycleLength,
+      cycles,
+      calendar_days: cycles * cycleLength,
+      dosing_days: dosingDays,
+    },
+  };
+}
+
+/**
+ * Calculate the base (unrounded) quantity for the days supply
+ * 
+ * Cyclic regimens are dispensed in whole cycles and only count dosing days.
+ * Weekday and non-daily schedules count actual doses instead of multiplying a fractional per_day.
+ * Multi-phase schedules sum each phase instead of multiplying by days_supply.
+ * An open-ended final phase covers whatever days remain after the fixed phases.
+ */
+function calculateBaseQuantity(
+  parsedSIG: ParsedSIG,
+  daysSupply: number
+): {
+  totalQty: number;
+  phaseSchedule?: PhaseScheduleDetails;
+  doseSchedule?: DoseScheduleDetails;
+  weekdaySchedule?: WeekdayScheduleDetails;
+  cycleSchedule?: CycleScheduleDetails;
+} {
+  if (parsedSIG.cycle) {
+    return calculateCyclicQuantity(parsedSIG, daysSupply);
+  }
+
+  if (parsedSIG.weekday_schedule && parsedSIG.weekday_schedule.length === 7) {
+    return calculateWeekdayQuantity(parsedSIG, daysSupply);
+  }
+
+  if (parsedSIG.dosing_schedule && (!parsedSIG.phases || parsedSIG.phases.length === 0)) {
+    return calculateScheduledDoseQuantity(parsedSIG, daysSupply);
+  }
+
+  if (!parsedSIG.phases || parsedSIG.phases.length === 0) {
+    return { totalQty: parsedSIG.per_day * daysSupply };
+  }
+
+  const fixedDays = parsedSIG.phases.reduce((sum, phase) => sum + (phase.duration_days ?? 0), 0);
+  const hasOpenEndedPhase = parsedSIG.phases.some((phase) => phase.duration_days === null);
+
+  const phases = parsedSIG.phases.map((phase) => {
+    const days = phase.duration_days ?? Math.max(daysSupply - fixedDays, 0);
+    return {
+      per_day: phase.per_day,
+      days,
+      quantity: phase.per_day * days,
+      open_ended: phase.duration_days === null,
+    };
+  });
+
+  const scheduleDays = phases.reduce((sum, phase) => sum + phase.days, 0);
+  const totalQty = phases.reduce((sum, phase) => sum + phase.quantity, 0);
+
+  // An open-ended phase absorbs any shortfall, so only an overrun is a mismatch
+  const daysSupplyMismatch = hasOpenEndedPhase ? fixedDays > daysSupply : scheduleDays !== daysSupply;
+
+  logInfo('Calculated multi-phase quantity', {
+    phaseCount: phases.length,
+    scheduleDays,
+    daysSupply,
+    totalQty,
+    daysSupplyMismatch,
+  });
+
+  return {
+    totalQty,
+    phaseSchedule: {
+      phases,
+      schedule_days: scheduleDays,
+      days_supply_mismatch: daysSupplyMismatch,
+    },
+  };
+}
+
+/**
+ * Container use over the days supply - drives insulin priming waste and in-use expiry,
+ * and the beyond-use date of reconstituted suspensions
+ */
+interface ContainerUse {
+  injections: number;
+  days: number; // Calendar days the containers are in use
+}
+
+/**
+ * Count injections over the days supply
+ * 
+ * Uses the dose size when known (non-daily and scheduled doses), otherwise doses per day.
+ */
+function countInjections(
+  parsedSIG: ParsedSIG,
+  totalQty: number,
+  daysSupply: number,
+  dosesPerDay?: number
+): number {
+  if (parsedSIG.quantity_per_dose) {
+    return Math.ceil(totalQty / parsedSIG.quantity_per_dose - 1e-9);
+  }
+  return Math.ceil((dosesPerDay ?? 1) * daysSupply);
+}
+
+/**
+ * Map the dose unit to the unit quantities are dispensed in
+ * 
+ * Eye/ear drops are counted in drops but dispensed in mL bottles.
+ * Capsule dry-powder inhalers are counted in inhalations but dispensed in capsules.
+ * Supplies are counted in tests/injections but dispensed as strips, lancets or pen needles (one per use).
+ */
+function toDispensedUnit(
+  perDay: number,
+  doseUnit: string,
+  dosageForm: DosageFormType,
+  drugName?: string,
+  availablePackages?: NDCPackageData[]
+): { doseUnit: string; perDay: number } {
+  if (dosageForm === 'drops' && doseUnit === 'drop') {
+    return { doseUnit: 'mL', perDay: perDay / getDropsPerML(drugName || '') };
+  }
+  if (dosageForm === 'inhaler' && doseUnit === 'actuation' && getInhalerDeviceType(drugName || '', availablePackages) === 'capsule_dpi') {
+    return { doseUnit: 'cap', perDay: perDay / getInhalationsPerDose(drugName || '', 'capsule_dpi') };
+  }
+  if (dosageForm === 'supplies') {
+    return { doseUnit: SUPPLY_UNITS[resolveSupplyType(drugName || '', doseUnit)], perDay };
+  }
+  return { doseUnit, perDay };
+}
+
 /**
  * Round quantity based on unit type and dosage form
  */
@@ -105,29 +428,129 @@ function roundQuantity(
   unit: string, 
   dosageForm: DosageFormType,
   drugName?: string,
-  availablePackages?: NDCPackageData[]
+  availablePackages?: NDCPackageData[],
+  containerUse?: ContainerUse
 ): number {
+  // Handle dry-powder inhalers - round blisters/capsules to whole devices or blister cards
+  const inhalerDevice = dosageForm === 'inhaler' ? getInhalerDeviceType(drugName || '', availablePackages) : 'mdi';
+  if (inhalerDevice !== 'mdi' && (unit === 'actuation' || unit === 'cap')) {
+    const inhalationsPerDose = unit === 'actuation' ? getInhalationsPerDose(drugName || '', inhalerDevice) : 1;
+    const { devices, total_doses } = chooseDPIPackage(quantity / inhalationsPerDose, inhalerDevice, availablePackages, drugName);
+    
+    logInfo('Rounded dry-powder inhaler quantity to whole devices', {
+      requestedInhalations: quantity,
+      deviceType: inhalerDevice,
+      devices,
+      totalDoses: total_doses,
+    });
+    
+    return total_doses;
+  }
+  
   // Handle inhalers - convert actuations to canisters
   if (dosageForm === 'inhaler' && unit === 'actuation') {
-    const actuationsPerCanister = drugName ? getActuationsPerCanister(drugName) : 200;
-    const canisters = calculateCanistersNeeded(quantity, actuationsPerCanister);
-    const totalActuations = canisters * actuationsPerCanister;
+    // Actuation counts come from the candidate packages, then the static table
+    const { spec, source, canisters, total_actuations } = chooseInhalerPackage(quantity, availablePackages, drugName);
     
     logInfo('Rounded inhaler quantity to whole canisters', {
       requestedActuations: quantity,
-      actuationsPerCanister,
+      actuationsPerCanister: spec.actuations_per_canister,
+      source,
       canisters,
-      totalActuations,
+      totalActuations: total_actuations,
+    });
+    
+    return total_actuations;
+  }
+  
+  // Handle nasal sprays - convert sprays to bottles
+  if (dosageForm === 'nasal_spray' && unit === 'actuation') {
+    const spraysPerBottle = getSpraysPerBottle(drugName || '');
+    const bottles = calculateSprayBottlesNeeded(quantity, spraysPerBottle);
+    const totalSprays = bottles * spraysPerBottle;
+    
+    logInfo('Rounded nasal spray quantity to whole bottles', {
+      requestedSprays: quantity,
+      spraysPerBottle,
+      bottles,
+      totalSprays,
+    });
+    
+    return totalSprays;
+  }
+  
+  // Handle injectables - round pens/syringes/vials to whole devices
+  if (dosageForm === 'injectable') {
+    const devices = calculateDevicesNeeded(quantity);
+    
+    logInfo('Rounded injectable quantity to whole devices', {
+      requestedDevices: quantity,
+      device: unit,
+      devices,
+    });
+    
+    return devices;
+  }
+  
+  // Handle supplies - one strip/lancet/needle per use, rounded to whole boxes
+  if (dosageForm === 'supplies') {
+    const { boxes, totalSupplies } = calculateSupplyBoxesNeeded(
+      Math.ceil(quantity - 1e-9),
+      resolveSupplyType(drugName || '', unit),
+      availablePackages
+    );
+    
+    logInfo('Rounded supply quantity to whole boxes', {
+      requestedSupplies: quantity,
+      boxes,
+      totalSupplies,
+    });
+    
+    return totalSupplies;
+  }
+  
+  // Handle patches - round patches to whole boxes
+  if (dosageForm === 'patch' && unit === 'patch') {
+    const { boxes, totalPatches } = calculateBoxesNeeded(Math.ceil(quantity), availablePackages);
+    
+    logInfo('Rounded patch quantity to whole boxes', {
+      requestedPatches: quantity,
+      boxes,
+      totalPatches,
+    });
+    
+    return totalPatches;
+  }
+  
+  // Handle topicals - round grams to whole tubes
+  if (dosageForm === 'topical' && unit === 'g') {
+    const { tubes, totalGrams } = calculateTubesNeeded(quantity, availablePackages);
+    
+    logInfo('Rounded topical quantity to whole tubes', {
+      requestedGrams: quantity,
+      tubes,
+      totalGrams,
+    });
+    
+    return totalGrams;
+  }
+  
+  // Handle eye/ear drops - convert drops to mL and round to whole bottles
+  if (dosageForm === 'drops' && unit === 'drop') {
+    const dropsPerML = getDropsPerML(drugName || '');
+    const { totalML } = calculateBottlesNeeded(quantity / dropsPerML, availablePackages);
+    
+    logInfo('Rounded drops quantity to whole bottles', {
+      requestedDrops: quantity,
+      dropsPerML,
+      totalML,
     });
     
-    return totalActuations;
+    return totalML;
   }
   
   // Handle insulin - convert units to pens/vials
   if (dosageForm === 'insulin' && unit === 'unit') {
-    const concentration = drugName ? getInsulinConcentration(drugName) : 100;
-    const volumeML = unitsToVolume(quantity, concentration);
-    
     // Determine if pen or vial format
     // First check drug name, then check available packages
     let isPen = drugName ? isPenFormat(drugName) : false;
@@ -176,40 +599,74 @@ function roundQuantity(
       isPen = true;
     }
     
-    let containers: number;
-    let volumePerContainer: number;
-    
-    if (isVial) {
-      volumePerContainer = 10; // 10 mL vial
-      containers = calculateVialsNeeded(volumeML, volumePerContainer);
-    } else {
-      // Default to pen
-      volumePerContainer = 3; // 3 mL pen
-      containers = calculatePensNeeded(volumeML, volumePerContainer);
-    }
-    
-    const totalVolume = containers * volumePerContainer;
-    const totalUnits = totalVolume * concentration;
+    // Volume and concentration come from the candidate packages (default: 3 mL pen / 10 mL vial)
+    const { spec, breakdown, packages, total_units } = chooseInsulinPackage(quantity, isVial ? 'vial' : 'pen', availablePackages, {
+      injections: containerUse?.injections ?? 0,
+      days: containerUse?.days ?? 0,
+      drugName,
+    });
     
     logInfo('Rounded insulin quantity to whole containers', {
       requestedUnits: quantity,
-      concentration,
-      volumeML,
+      concentration: spec.concentration,
       isPen,
       isVial,
-      containers,
-      volumePerContainer,
-      totalUnits,
+      primingUnits: breakdown.priming_units,
+      containersForInUse: breakdown.containers_for_in_use,
+      containers: breakdown.containers,
+      volumePerContainer: spec.volume_ml,
+      packages,
+      totalUnits: total_units,
     });
     
-    return totalUnits;
+    return total_units;
+  }
+  
+  // Handle dose packs and kits - fixed courses dispensed as whole packs
+  const dosePack = dosageForm === 'solid' && (unit === 'tab' || unit === 'cap')
+    ? chooseDosePack(quantity, drugName, availablePackages, containerUse?.days)
+    : null;
+  if (dosePack) {
+    logInfo('Rounded quantity to whole dose packs', {
+      requestedUnits: quantity,
+      packUnits: dosePack.units,
+      packs: dosePack.packs,
+      matchesSchedule: dosePack.matches_schedule,
+    });
+    
+    return dosePack.total_units;
   }
   
   // Round to integers for tab/cap/actuation/unit
-  if (unit === 'tab' || unit === 'cap' || unit === 'actuation' || unit === 'unit') {
+  // Split-tablet totals round up so the last partial tablet is dispensed; epsilon absorbs 3 × 1/3
+  if (unit === 'tab' || unit === 'cap') {
+    return Math.ceil(quantity - 1e-9);
+  }
+  if (unit === 'actuation' || unit === 'unit') {
     return Math.round(quantity);
   }
   
+  // Handle reconstituted suspensions - whole bottles, each used within its beyond-use date
+  if (dosageForm === 'liquid' && unit === 'mL' && isReconstitutedProduct(drugName || '', availablePackages)) {
+    const beyondUse = getBeyondUseDays(drugName || '');
+    const { bottles, totalML, exceedsBeyondUse } = planReconstitutedBottles(
+      quantity,
+      containerUse?.days ?? 0,
+      beyondUse.days,
+      availablePackages
+    );
+    
+    logInfo('Rounded reconstituted suspension to whole bottles', {
+      requestedML: quantity,
+      beyondUseDays: beyondUse.days,
+      bottles,
+      totalML,
+      exceedsBeyondUse,
+    });
+    
+    return totalML;
+  }
+  
   // For liquids (mL), use special rounding rules
   // Round up to nearest whole mL, and for partial bottles, round up to nearest 5mL
   if (unit === 'mL') {
@@ -228,32 +685,136 @@ function roundQuantityWithDetails(
   unit: string, 
   dosageForm: DosageFormType,
   drugName?: string,
-  availablePackages?: NDCPackageData[]
+  availablePackages?: NDCPackageData[],
+  containerUse?: ContainerUse
 ): RoundingDetails {
   const before = quantity;
   let after: number;
   let rule: string;
   let details: Record<string, unknown> | undefined;
 
+  // Handle dry-powder inhalers - round blisters/capsules to whole devices or blister cards
+  // before/after are in blisters/capsules so they compare with package sizes
+  const inhalerDevice = dosageForm === 'inhaler' ? getInhalerDeviceType(drugName || '', availablePackages) : 'mdi';
+  if (inhalerDevice !== 'mdi' && (unit === 'actuation' || unit === 'cap')) {
+    const inhalationsPerDose = unit === 'actuation' ? getInhalationsPerDose(drugName || '', inhalerDevice) : 1;
+    const doses = quantity / inhalationsPerDose;
+    const { spec, source, devices, packages, total_doses } = chooseDPIPackage(doses, inhalerDevice, availablePackages, drugName);
+    details = {
+      device_type: inhalerDevice,
+      inhalations_per_dose: inhalationsPerDose,
+      ...(unit === 'actuation' && { requested_inhalations: quantity }),
+      doses_per_device: spec.doses_per_device,
+      devices_needed: devices,
+      devices_per_package: spec.devices,
+      packages_needed: packages,
+      device_source: source,
+    };
+    rule = inhalerDevice === 'blister_dpi' ? 'round_to_whole_inhalers' : 'round_to_whole_blister_cards';
+    return { applied: true, rule, before: doses, after: total_doses, details };
+  }
+  
   // Handle inhalers - convert actuations to canisters
   if (dosageForm === 'inhaler' && unit === 'actuation') {
-    const actuationsPerCanister = drugName ? getActuationsPerCanister(drugName) : 200;
-    const canisters = calculateCanistersNeeded(quantity, actuationsPerCanister);
-    after = canisters * actuationsPerCanister;
+    // Actuation counts come from the candidate packages, then the static table
+    const { spec, source, canisters, packages, total_actuations } = chooseInhalerPackage(quantity, availablePackages, drugName);
+    after = total_actuations;
     rule = 'round_to_whole_canisters';
     details = {
-      actuations_per_canister: actuationsPerCanister,
+      actuations_per_canister: spec.actuations_per_canister,
+      actuation_source: source,
       canisters_needed: canisters,
+      canisters_per_package: spec.canisters,
+      packages_needed: packages,
       requested_actuations: quantity,
     };
     return { applied: true, rule, before, after, details };
   }
   
+  // Handle nasal sprays - convert sprays to bottles
+  if (dosageForm === 'nasal_spray' && unit === 'actuation') {
+    const spraysPerBottle = getSpraysPerBottle(drugName || '');
+    const bottles = calculateSprayBottlesNeeded(quantity, spraysPerBottle);
+    after = bottles * spraysPerBottle;
+    rule = 'round_to_whole_bottles';
+    details = {
+      sprays_per_bottle: spraysPerBottle,
+      bottles_needed: bottles,
+      requested_sprays: quantity,
+    };
+    return { applied: true, rule, before, after, details };
+  }
+  
+  // Handle injectables - round pens/syringes/vials to whole devices
+  if (dosageForm === 'injectable') {
+    after = calculateDevicesNeeded(quantity);
+    rule = 'round_to_whole_devices';
+    details = {
+      device: unit,
+      requested_devices: quantity,
+    };
+    return { applied: after !== quantity, rule, before, after, details };
+  }
+  
+  // Handle supplies - one strip/lancet/needle per use, rounded to whole boxes
+  if (dosageForm === 'supplies') {
+    const supplyType = resolveSupplyType(drugName || '', unit);
+    const { boxSize, boxes, totalSupplies } = calculateSupplyBoxesNeeded(Math.ceil(quantity - 1e-9), supplyType, availablePackages);
+    after = totalSupplies;
+    rule = 'round_to_supply_boxes';
+    details = {
+      supply_type: supplyType,
+      box_size: boxSize,
+      boxes_needed: boxes,
+      requested_supplies: quantity,
+    };
+    return { applied: true, rule, before, after, details };
+  }
+  
+  // Handle patches - round patches to whole boxes
+  if (dosageForm === 'patch' && unit === 'patch') {
+    const { boxSize, boxes, totalPatches } = calculateBoxesNeeded(Math.ceil(quantity), availablePackages);
+    after = totalPatches;
+    rule = 'round_to_whole_boxes';
+    details = {
+      box_size: boxSize,
+      boxes_needed: boxes,
+      requested_patches: quantity,
+    };
+    return { applied: true, rule, before, after, details };
+  }
+  
+  // Handle topicals - round grams to whole tubes
+  if (dosageForm === 'topical' && unit === 'g') {
+    const { tubeSize, tubes, totalGrams } = calculateTubesNeeded(quantity, availablePackages);
+    after = totalGrams;
+    rule = 'round_to_whole_tubes';
+    details = {
+      tube_size_g: tubeSize,
+      tubes_needed: tubes,
+      requested_grams: quantity,
+    };
+    return { applied: true, rule, before, after, details };
+  }
+  
+  // Handle eye/ear drops - convert drops to mL and round to whole bottles
+  // before/after are in mL so they compare with package sizes
+  if (dosageForm === 'drops' && unit === 'drop') {
+    const dropsPerML = getDropsPerML(drugName || '');
+    const volumeML = quantity / dropsPerML;
+    const { bottleSize, bottles, totalML } = calculateBottlesNeeded(volumeML, availablePackages);
+    details = {
+      drops_per_ml: dropsPerML,
+      requested_drops: quantity,
+      volume_ml: volumeML,
+      bottle_size_ml: bottleSize,
+      bottles_needed: bottles,
+    };
+    return { applied: true, rule: 'round_to_whole_bottles', before: volumeML, after: totalML, details };
+  }
+  
   // Handle insulin - convert units to pens/vials
   if (dosageForm === 'insulin' && unit === 'unit') {
-    const concentration = drugName ? getInsulinConcentration(drugName) : 100;
-    const volumeML = unitsToVolume(quantity, concentration);
-    
     // Determine if pen or vial format (same logic as roundQuantity)
     let isPen = drugName ? isPenFormat(drugName) : false;
     let isVial = drugName ? isVialFormat(drugName) : false;
@@ -299,44 +860,86 @@ function roundQuantityWithDetails(
       isPen = true;
     }
     
-    let containers: number;
-    let volumePerContainer: number;
-    
-    if (isVial) {
-      volumePerContainer = 10; // 10 mL vial
-      containers = calculateVialsNeeded(volumeML, volumePerContainer);
-      rule = 'round_to_whole_vials';
-    } else {
-      // Default to pen
-      volumePerContainer = 3; // 3 mL pen
-      containers = calculatePensNeeded(volumeML, volumePerContainer);
-      rule = 'round_to_whole_pens';
-    }
+    rule = isVial ? 'round_to_whole_vials' : 'round_to_whole_pens';
     
-    const totalVolume = containers * volumePerContainer;
-    const totalUnits = totalVolume * concentration;
+    // Volume and concentration come from the candidate packages (default: 3 mL pen / 10 mL vial)
+    // Containers cover priming waste and the in-use limit of opened containers
+    const { spec, source, breakdown, packages, total_units } = chooseInsulinPackage(quantity, isVial ? 'vial' : 'pen', availablePackages, {
+      injections: containerUse?.injections ?? 0,
+      days: containerUse?.days ?? 0,
+      drugName,
+    });
+    const { containers, ...adjustments } = breakdown;
     
-    after = totalUnits;
+    after = total_units;
     details = {
-      concentration,
-      volume_ml: volumeML,
+      concentration: spec.concentration,
+      volume_ml: unitsToVolume(quantity, spec.concentration),
       is_pen: isPen,
       is_vial: isVial,
       containers_needed: containers,
-      volume_per_container: volumePerContainer,
+      volume_per_container: spec.volume_ml,
+      containers_per_package: spec.containers,
+      packages_needed: packages,
+      package_source: source,
       requested_units: quantity,
+      ...adjustments,
+    };
+    return { applied: true, rule, before, after, details };
+  }
+  
+  // Handle dose packs and kits - fixed courses dispensed as whole packs
+  // The SIG quantity and days are checked against the pack's built-in course
+  const dosePack = dosageForm === 'solid' && (unit === 'tab' || unit === 'cap')
+    ? chooseDosePack(quantity, drugName, availablePackages, containerUse?.days)
+    : null;
+  if (dosePack) {
+    after = dosePack.total_units;
+    rule = 'round_to_whole_dose_packs';
+    details = {
+      pack_units: dosePack.units,
+      packs_needed: dosePack.packs,
+      pack_source: dosePack.source,
+      schedule_matches: dosePack.matches_schedule,
+      ...(containerUse && { sig_days: containerUse.days }),
+      ...(dosePack.course && { course_days: dosePack.course.days, course_schedule: dosePack.course.schedule }),
     };
     return { applied: true, rule, before, after, details };
   }
   
   // Round to integers for tab/cap/actuation/unit
+  // Split-tablet totals round up so the last partial tablet is dispensed; epsilon absorbs 3 × 1/3
   if (unit === 'tab' || unit === 'cap' || unit === 'actuation' || unit === 'unit') {
-    after = Math.round(quantity);
+    after = unit === 'tab' || unit === 'cap' ? Math.ceil(quantity - 1e-9) : Math.round(quantity);
     rule = 'round_to_integer';
     const applied = after !== quantity;
     return { applied, rule, before, after };
   }
   
+  // Handle reconstituted suspensions - whole bottles, each used within its beyond-use date
+  if (dosageForm === 'liquid' && unit === 'mL' && isReconstitutedProduct(drugName || '', availablePackages)) {
+    const beyondUse = getBeyondUseDays(drugName || '');
+    const days = containerUse?.days ?? 0;
+    const { bottleSize, bottles, totalML, usableML, exceedsBeyondUse } = planReconstitutedBottles(
+      quantity,
+      days,
+      beyondUse.days,
+      availablePackages
+    );
+    after = totalML;
+    rule = 'round_to_reconstituted_bottles';
+    details = {
+      bottle_size_ml: bottleSize,
+      bottles_needed: bottles,
+      usable_ml_per_bottle: usableML,
+      beyond_use_days: beyondUse.days,
+      beyond_use_source: beyondUse.source,
+      days_supply: days,
+      exceeds_beyond_use: exceedsBeyondUse,
+    };
+    return { applied: true, rule, before, after, details };
+  }
+  
   // For liquids (mL), use special rounding rules
   if (unit === 'mL') {
     after = roundLiquidVolume(quantity);
@@ -360,6 +963,7 @@ function roundQuantityWithDetails(
  * @param dosageForm - Detected dosage form type
  * @param drugName - Optional drug name for dosage-specific calculations
  * @param unitOverride - Optional unit override from request
+ * @param dosesPerDay - Optional doses per day, used to count insulin priming when the dose size is unknown
  * @returns ComputedData with calculated quantities
  * @throws ValidationError if inputs are invalid
  */
@@ -368,7 +972,8 @@ export function calculateQuantity(
   daysSupply: number,
   dosageForm: DosageFormType,
   drugName?: string,
-  unitOverride?: string
+  unitOverride?: string,
+  dosesPerDay?: number
 ): ComputedData {
   // Validate inputs
   if (!parsedSIG || typeof parsedSIG !== 'object') {
@@ -408,7 +1013,7 @@ export function calculateQuantity(
   }
 
   // Calculate total quantity
-  const totalQty = parsedSIG.per_day * daysSupply;
+  const { totalQty, phaseSchedule, cycleSchedule } = calculateBaseQuantity(parsedSIG, daysSupply);
 
   // Validate total quantity is reasonable
   if (totalQty <= 0) {
@@ -420,7 +1025,14 @@ export function calculateQuantity(
   }
 
   // Round quantity based on unit type and dosage form
-  const roundedTotalQty = roundQuantity(totalQty, doseUnit, dosageForm, drugName);
+  const containerUse = {
+    injections: countInjections(parsedSIG, totalQty, daysSupply, dosesPerDay),
+    days: cycleSchedule?.calendar_days ?? phaseSchedule?.schedule_days ?? daysSupply,
+  };
+  const roundedTotalQty = roundQuantity(totalQty, doseUnit, dosageForm, drugName, undefined, containerUse);
+
+  // Drops are dispensed by volume - report quantities in mL
+  const output = toDispensedUnit(parsedSIG.per_day, doseUnit, dosageForm, drugName);
 
   logInfo('Quantity calculated successfully', {
     dose_unit: doseUnit,
@@ -431,8 +1043,8 @@ export function calculateQuantity(
   });
 
   return {
-    dose_unit: doseUnit,
-    per_day: parsedSIG.per_day,
+    dose_unit: output.doseUnit,
+    per_day: output.perDay,
     total_qty: roundedTotalQty,
     days_supply: daysSupply,
   };
@@ -447,7 +1059,8 @@ export function calculateQuantityWithRounding(
   dosageForm: DosageFormType,
   drugName?: string,
   unitOverride?: string,
-  availablePackages?: NDCPackageData[]
+  availablePackages?: NDCPackageData[],
+  dosesPerDay?: number
 ): ComputedDataWithRounding {
   // Validate inputs (same as calculateQuantity)
   if (!parsedSIG || typeof parsedSIG !== 'object') {
@@ -487,7 +1100,8 @@ export function calculateQuantityWithRounding(
   }
 
   // Calculate total quantity
-  const totalQty = parsedSIG.per_day * daysSupply;
+  const { totalQty, phaseSchedule, doseSchedule, weekdaySchedule, cycleSchedule } =
+    calculateBaseQuantity(parsedSIG, daysSupply);
 
   // Validate total quantity is reasonable
   if (totalQty <= 0) {
@@ -499,17 +1113,32 @@ export function calculateQuantityWithRounding(
   }
 
   // Round quantity and get details
-  const rounding = roundQuantityWithDetails(totalQty, doseUnit, dosageForm, drugName, availablePackages);
+  const containerUse = {
+    injections: countInjections(parsedSIG, totalQty, daysSupply, dosesPerDay),
+    days: cycleSchedule?.calendar_days ?? phaseSchedule?.schedule_days ?? daysSupply,
+  };
+  const rounding = roundQuantityWithDetails(totalQty, doseUnit, dosageForm, drugName, availablePackages, containerUse);
   const roundedTotalQty = rounding.after;
 
+  // Drops are dispensed by volume - report quantities in mL
+  const output = toDispensedUnit(parsedSIG.per_day, doseUnit, dosageForm, drugName, availablePackages);
+
   return {
     computed: {
-      dose_unit: doseUnit,
-      per_day: parsedSIG.per_day,
+      dose_unit: output.doseUnit,
+      per_day: output.perDay,
       total_qty: roundedTotalQty,
       days_supply: daysSupply,
+      ...(cycleSchedule && {
+        calendar_days: cycleSchedule.calendar_days,
+        dosing_days: cycleSchedule.dosing_days,
+      }),
     },
     rounding,
+    phase_schedule: phaseSchedule,
+    dose_schedule: doseSchedule,
+    weekday_schedule: weekdaySchedule,
+    cycle_schedule: cycleSchedule,
   };
 }
 
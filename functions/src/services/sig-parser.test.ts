@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseWithRules, parseSIG } from './sig-parser';
+import { parseWithRules, parseWithRulesWithMetadata, parseSIG, detectTabletSplitting } from './sig-parser';
 
 describe('SIG Parser', () => {
   describe('parseWithRules', () => {
@@ -255,6 +255,11 @@ describe('SIG Parser', () => {
         expect(result?.per_day).toBe(2);
       });
 
+      it('should handle numeric "N times a day" and bare "daily"', () => {
+        expect(parseWithRules('Take 1 tablet 3 times a day')?.per_day).toBe(3);
+        expect(parseWithRules('Take 2 tablets daily')?.per_day).toBe(2);
+      });
+
       it('should handle numeric frequencies (2x/day)', () => {
         const result = parseWithRules('Take 1 tablet 2x/day');
         expect(result).toBeDefined();
@@ -262,6 +267,549 @@ describe('SIG Parser', () => {
       });
     });
 
+    describe('interval-based frequencies', () => {
+      it('should parse q6h abbreviation', () => {
+        const result = parseWithRules('1 tab PO q6h');
+        expect(result).toEqual({
+          dose_unit: 'tab',
+          per_day: 4, // 24 / 6 = 4 doses × 1 tab
+          confidence: 'parsed',
+        });
+      });
+
+      it('should parse q8h and q12h abbreviations', () => {
+        expect(parseWithRules('1 cap PO q8h')?.per_day).toBe(3);
+        expect(parseWithRules('2 tabs PO q12h')?.per_day).toBe(4); // 2 tabs × 2 doses
+      });
+
+      it('should parse spaced and hr variants', () => {
+        expect(parseWithRules('1 tab q 4 hr')?.per_day).toBe(6);
+        expect(parseWithRules('1 tab q.6h')?.per_day).toBe(4);
+      });
+
+      it('should parse "every N hours" pattern', () => {
+        const result = parseWithRules('Take 2 capsules by mouth every 12 hours');
+        expect(result).toEqual({
+          dose_unit: 'cap',
+          per_day: 4, // 2 caps × (24 / 12)
+          confidence: 'parsed',
+        });
+      });
+
+      it('should use the shortest interval for ranges (q4-6h)', () => {
+        expect(parseWithRules('1 tab PO q4-6h')?.per_day).toBe(6);
+        expect(parseWithRules('1 tab every 4 to 6 hours')?.per_day).toBe(6);
+      });
+
+      it('should report the derived interval in metadata', () => {
+        const result = parseWithRulesWithMetadata('1 tab PO q4-6h');
+        expect(result.method).toBe('rules');
+        expect(result.frequency).toBe(6);
+        expect(result.interval_hours).toEqual({ min: 4, max: 6, used: 4 });
+      });
+
+      it('should not report an interval for named frequencies', () => {
+        const result = parseWithRulesWithMetadata('1 tab PO BID');
+        expect(result.interval_hours).toBeUndefined();
+      });
+
+      it('should treat intervals longer than a day as non-daily schedules', () => {
+        const result = parseWithRulesWithMetadata('1 tab q36h');
+        expect(result.sub_method).toBe('non-daily');
+        expect(result.interval_hours).toBeUndefined();
+        expect(result.dosing_schedule?.period_days).toBe(1.5);
+      });
+    });
+
+    describe('PRN (as needed) dosing', () => {
+      it('should use explicit max daily dose clause', () => {
+        const result = parseWithRules('1-2 tabs q4-6h prn pain, max 8 tabs/day');
+        expect(result).toEqual({
+          dose_unit: 'tab',
+          per_day: 8,
+          confidence: 'parsed',
+          prn: true,
+        });
+      });
+
+      it('should fall back to the highest scheduled frequency without a max clause', () => {
+        const result = parseWithRulesWithMetadata('Take 1 tablet by mouth every 6 hours as needed for pain');
+        expect(result.parsed?.per_day).toBe(4);
+        expect(result.parsed?.prn).toBe(true);
+        expect(result.sub_method).toBe('prn');
+        expect(result.prn?.basis).toBe('max_scheduled_frequency');
+        expect(result.prn?.assumption).toContain('no maximum daily dose');
+      });
+
+      it('should not read the max clause as the dose or frequency', () => {
+        const result = parseWithRulesWithMetadata('2 puffs q4h prn wheezing, not to exceed 12 puffs in 24 hours');
+        expect(result.quantity_per_dose).toBe(2);
+        expect(result.frequency).toBe(6);
+        expect(result.parsed?.per_day).toBe(12);
+        expect(result.prn?.basis).toBe('max_daily_dose');
+      });
+
+      it('should convert max doses into dose units', () => {
+        const result = parseWithRules('Take 2 capsules q6h PRN, maximum of 3 doses per day');
+        expect(result?.per_day).toBe(6); // 3 doses × 2 caps
+      });
+
+      it('should keep PRN details for doses written as a mass', () => {
+        const result = parseWithRulesWithMetadata('Take 500 mg q6h prn pain');
+        expect(result.sub_method).toBe('prn');
+        expect(result.parsed).toMatchObject({ dose_unit: 'mg', per_day: 2000, quantity_per_dose: 500, prn: true });
+        expect(result.prn?.basis).toBe('max_scheduled_frequency');
+        expect(result.prn?.assumption).toContain('500 mg × 4/day');
+      });
+
+      it('should convert a mass maximum for mass doses', () => {
+        const result = parseWithRulesWithMetadata('Take 500 mg q6h prn pain, max 3 g/day');
+        expect(result.prn).toMatchObject({ basis: 'max_daily_dose', max_per_day: 3000 });
+      });
+
+      it('should count both eyes for PRN drops', () => {
+        const result = parseWithRulesWithMetadata('1 drop OU q4h prn itching');
+        expect(result.sub_method).toBe('prn');
+        expect(result.parsed).toMatchObject({ dose_unit: 'drop', per_day: 12, application_sites: 2, prn: true });
+        expect(result.prn?.assumption).toContain('× 2 sites');
+      });
+
+      it('should count both nostrils for PRN nasal sprays', () => {
+        const result = parseWithRules('2 sprays each nostril q12h prn congestion');
+        expect(result).toMatchObject({ dose_unit: 'actuation', per_day: 8, application_sites: 2, prn: true });
+      });
+
+      it('should return null when PRN SIG has no schedule or maximum', () => {
+        expect(parseWithRules('1 tab prn pain')).toBeNull();
+      });
+
+      it('should not flag scheduled SIGs as PRN', () => {
+        const result = parseWithRulesWithMetadata('1 tab PO BID');
+        expect(result.parsed?.prn).toBeUndefined();
+        expect(result.prn).toBeUndefined();
+      });
+    });
+
+    describe('multi-phase schedules', () => {
+      it('should parse a prednisone taper into ordered phases', () => {
+        const result = parseWithRulesWithMetadata(
+          '4 tabs daily x 3 days, then 3 tabs daily x 3 days, then 2 tabs daily x 3 days, then 1 tab daily x 3 days'
+        );
+        expect(result.sub_method).toBe('multi-phase');
+        expect(result.parsed?.dose_unit).toBe('tab');
+        expect(result.parsed?.phases).toEqual([
+          { quantity_per_dose: 4, frequency: 1, per_day: 4, duration_days: 3 },
+          { quantity_per_dose: 3, frequency: 1, per_day: 3, duration_days: 3 },
+          { quantity_per_dose: 2, frequency: 1, per_day: 2, duration_days: 3 },
+          { quantity_per_dose: 1, frequency: 1, per_day: 1, duration_days: 3 },
+        ]);
+        expect(result.parsed?.per_day).toBe(2.5); // 30 tabs over 12 days
+      });
+
+      it('should parse a titration with an open-ended final phase', () => {
+        const result = parseWithRules('Take 1 tab daily for 7 days then 2 tabs daily');
+        expect(result?.phases).toEqual([
+          { quantity_per_dose: 1, frequency: 1, per_day: 1, duration_days: 7 },
+          { quantity_per_dose: 2, frequency: 1, per_day: 2, duration_days: null },
+        ]);
+      });
+
+      it('should convert weeks and inherit frequency and unit between phases', () => {
+        const result = parseWithRules('1 cap BID for 1 week, then 2 x 1 week, then stop');
+        expect(result?.dose_unit).toBe('cap');
+        expect(result?.phases).toEqual([
+          { quantity_per_dose: 1, frequency: 2, per_day: 2, duration_days: 7 },
+          { quantity_per_dose: 2, frequency: 2, per_day: 4, duration_days: 7 },
+        ]);
+      });
+
+      it('should not treat a phase without duration in the middle as valid', () => {
+        const result = parseWithRulesWithMetadata('1 tab daily then 2 tabs daily then 3 tabs daily x 3 days');
+        expect(result.sub_method).not.toBe('multi-phase');
+      });
+    });
+
+    describe('non-daily schedules', () => {
+      it('should parse every other day (QOD)', () => {
+        const result = parseWithRules('1 tab PO every other day');
+        expect(result).toEqual({
+          dose_unit: 'tab',
+          per_day: 0.5,
+          confidence: 'parsed',
+          quantity_per_dose: 1,
+          dosing_schedule: { doses: 1, period_days: 2, label: 'every other day' },
+        });
+        expect(parseWithRules('1 tab PO QOD')?.per_day).toBe(0.5);
+      });
+
+      it('should parse once weekly methotrexate', () => {
+        const result = parseWithRulesWithMetadata('2.5 mg x 4 tabs once weekly');
+        expect(result.sub_method).toBe('non-daily');
+        expect(result.quantity_per_dose).toBe(4);
+        expect(result.parsed?.per_day).toBeCloseTo(4 / 7);
+        expect(result.dosing_schedule).toEqual({ doses: 1, period_days: 7, label: 'once weekly' });
+      });
+
+      it('should parse twice weekly before weekly', () => {
+        const result = parseWithRules('1 cap twice weekly');
+        expect(result?.dosing_schedule).toEqual({ doses: 2, period_days: 7, label: 'twice weekly' });
+      });
+
+      it('should parse every N days and weeks', () => {
+        expect(parseWithRules('1 tab every 3 days')?.dosing_schedule?.period_days).toBe(3);
+        expect(parseWithRules('1 tab every 2 weeks')?.dosing_schedule?.period_days).toBe(14);
+        expect(parseWithRules('1 tab q72h')?.dosing_schedule?.period_days).toBe(3);
+      });
+
+      it('should parse monthly schedules', () => {
+        const result = parseWithRules('Take 1 tablet by mouth once a month');
+        expect(result?.dosing_schedule).toEqual({ doses: 1, period_days: 30, label: 'monthly' });
+      });
+
+      it('should keep a daily frequency over weekly monitoring instructions', () => {
+        const inr = parseWithRules('Take 1 tab daily, check INR weekly');
+        expect(inr?.dosing_schedule).toBeUndefined();
+        expect(inr?.per_day).toBe(1);
+
+        const labs = parseWithRules('Take 1 tab at bedtime. Monitor weekly labs');
+        expect(labs?.dosing_schedule).toBeUndefined();
+        expect(labs?.per_day).toBe(1);
+      });
+
+      it('should keep a weekly schedule written after the dose', () => {
+        const result = parseWithRules('Take 1 tablet by mouth, once weekly. Take in the morning with water');
+        expect(result?.dosing_schedule).toMatchObject({ label: 'once weekly' });
+      });
+
+      it('should not treat a weekly duration as a weekly schedule', () => {
+        const result = parseWithRules('1 tab BID for 1 week');
+        expect(result?.dosing_schedule).toBeUndefined();
+        expect(result?.per_day).toBe(2);
+      });
+    });
+
+    describe('weekday schedules', () => {
+      it('should parse warfarin-style weekday dosing with fractional tablets', () => {
+        const result = parseWithRulesWithMetadata('Take 1 tab Mon/Wed/Fri, 1/2 tab all other days');
+        expect(result.sub_method).toBe('weekday');
+        expect(result.parsed?.weekday_schedule).toEqual([1, 0.5, 1, 0.5, 1, 0.5, 0.5]);
+        expect(result.parsed?.per_day).toBeCloseTo(5 / 7); // 3 + 4 × 0.5 = 5 tabs/week
+      });
+
+      it('should parse weekday doses written in mg', () => {
+        const result = parseWithRulesWithMetadata('5 mg Mon/Wed/Fri, 2.5 mg all other days');
+        expect(result.sub_method).toBe('weekday');
+        expect(result.parsed?.dose_unit).toBe('mg');
+        expect(result.parsed?.weekday_schedule).toEqual([5, 2.5, 5, 2.5, 5, 2.5, 2.5]);
+        expect(result.quantity_per_dose).toBe(5);
+      });
+
+      it('should parse weekday ranges and full day names', () => {
+        const result = parseWithRules('1.5 tabs Monday through Friday and 1 tab on weekends');
+        expect(result?.weekday_schedule).toEqual([1.5, 1.5, 1.5, 1.5, 1.5, 1, 1]);
+      });
+
+      it('should leave uncovered weekdays without a dose', () => {
+        const result = parseWithRules('2 tabs on Tue and Thu');
+        expect(result?.weekday_schedule).toEqual([0, 2, 0, 2, 0, 0, 0]);
+      });
+
+      it('should not treat "every other day" as remaining weekdays', () => {
+        const result = parseWithRulesWithMetadata('1 tab every other day');
+        expect(result.sub_method).toBe('non-daily');
+      });
+
+      it('should not read "sun" in other words as a Sunday dose', () => {
+        const daily = parseWithRulesWithMetadata('Take 1 tab by mouth daily. Avoid sun exposure');
+        expect(daily.sub_method).toBe('frequency-based');
+        expect(daily.parsed?.weekday_schedule).toBeUndefined();
+        expect(daily.parsed?.per_day).toBe(1);
+
+        const twiceDaily = parseWithRules('Take 1 cap twice daily x 10 days, avoid prolonged sun');
+        expect(twiceDaily?.weekday_schedule).toBeUndefined();
+        expect(twiceDaily?.per_day).toBe(2);
+      });
+
+      it('should skip the excepted days', () => {
+        const result = parseWithRules('Take 1 tab daily except Sunday');
+        expect(result?.weekday_schedule).toEqual([1, 1, 1, 1, 1, 1, 0]);
+        expect(result?.per_day).toBeCloseTo(6 / 7);
+      });
+
+      it('should multiply weekday doses by a daily frequency', () => {
+        const result = parseWithRules('1 cap twice daily Mon-Fri');
+        expect(result?.weekday_schedule).toEqual([2, 2, 2, 2, 2, 0, 0]);
+      });
+
+      it('should leave the same dose every day to frequency-based parsing', () => {
+        const result = parseWithRulesWithMetadata('1 tab daily Monday through Sunday');
+        expect(result.sub_method).toBe('frequency-based');
+        expect(result.parsed?.per_day).toBe(1);
+      });
+    });
+
+    describe('cyclic regimens', () => {
+      it('should parse "for N days of a M-day cycle"', () => {
+        const result = parseWithRulesWithMetadata('Take 1 capsule by mouth daily for 21 days of a 28-day cycle');
+        expect(result.sub_method).toBe('cyclic');
+        expect(result.parsed?.cycle).toEqual({ days_on: 21, days_off: 7 });
+        expect(result.parsed?.per_day).toBe(1);
+        expect(result.parsed?.dose_unit).toBe('cap');
+      });
+
+      it('should parse "days 1-21 of each 28 day cycle"', () => {
+        const result = parseWithRules('2 tabs twice daily on days 1-14 of each 21 day cycle');
+        expect(result?.cycle).toEqual({ days_on: 14, days_off: 7 });
+        expect(result?.per_day).toBe(4);
+      });
+
+      it('should parse days on / days off', () => {
+        const result = parseWithRules('Take 1 tab daily, 5 days on / 2 off');
+        expect(result?.cycle).toEqual({ days_on: 5, days_off: 2 });
+      });
+
+      it('should convert weeks on / weeks off to days', () => {
+        const result = parseWithRules('1 cap daily 3 weeks on, 1 week off');
+        expect(result?.cycle).toEqual({ days_on: 21, days_off: 7 });
+      });
+    });
+
+    describe('fractional and spelled-out doses', () => {
+      it('should parse simple and unicode fractions', () => {
+        expect(parseWithRules('Take 1/2 tablet by mouth daily')?.per_day).toBe(0.5);
+        expect(parseWithRules('Take ½ tab twice daily')?.per_day).toBe(1);
+      });
+
+      it('should parse mixed numbers', () => {
+        expect(parseWithRules('Take 1 1/2 tablets daily')?.per_day).toBe(1.5);
+        expect(parseWithRules('Take 1½ tabs BID')?.per_day).toBe(3);
+      });
+
+      it('should parse English number words', () => {
+        expect(parseWithRules('Take two capsules by mouth twice daily')?.per_day).toBe(4);
+        expect(parseWithRules('Take one-half tablet daily')?.per_day).toBe(0.5);
+        expect(parseWithRules('Take half of a tablet once daily')?.per_day).toBe(0.5);
+        expect(parseWithRules('Take one and a half tablets three times daily')?.per_day).toBe(4.5);
+      });
+
+      it('should not rewrite strengths or frequency words', () => {
+        const result = parseWithRulesWithMetadata('Hydrocodone 5/325 take 1 tab three times weekly');
+        expect(result.quantity_per_dose).toBe(1);
+        expect(result.dosing_schedule?.label).toBe('three times weekly');
+      });
+
+      it('should record the tablet-splitting assumption for split tablet doses', () => {
+        const splitting = detectTabletSplitting('Take ½ tab daily', 'tab');
+        expect(splitting?.doses).toEqual([0.5]);
+        expect(splitting?.assumption).toContain('split');
+        expect(detectTabletSplitting('Take 1 tab daily', 'tab')).toBeUndefined();
+        expect(detectTabletSplitting('Take 2.5 mL daily', 'mL')).toBeUndefined();
+      });
+    });
+
+    describe('dose ranges', () => {
+      it('should use the top of the range by default', () => {
+        const result = parseWithRulesWithMetadata('Take 1-2 tabs by mouth twice daily');
+        expect(result.parsed?.per_day).toBe(4);
+        expect(result.dose_range).toEqual({ min: 1, max: 2, policy: 'max', used: 2 });
+      });
+
+      it('should apply the min and average policies', () => {
+        expect(parseWithRules('Take 1-2 tabs twice daily', undefined, 'min')?.per_day).toBe(2);
+        expect(parseWithRules('Take 5 to 10 mL three times daily', undefined, 'average')?.per_day).toBe(22.5);
+      });
+
+      it('should parse spelled-out ranges', () => {
+        const result = parseWithRulesWithMetadata('Take one to two capsules daily', undefined, 'min');
+        expect(result.dose_range).toEqual({ min: 1, max: 2, policy: 'min', used: 1 });
+      });
+
+      it('should apply the policy to PRN doses', () => {
+        const result = parseWithRulesWithMetadata('1-2 tabs q6h prn pain', undefined, 'min');
+        expect(result.parsed?.per_day).toBe(4);
+        expect(result.dose_range?.policy).toBe('min');
+      });
+
+      it('should not report a range for single doses', () => {
+        expect(parseWithRulesWithMetadata('Take 2 tabs daily').dose_range).toBeUndefined();
+      });
+    });
+
+    describe('bedtime and morning abbreviations', () => {
+      it('should parse QHS, HS and QAM as once daily', () => {
+        expect(parseWithRules('1 tab PO QHS')?.per_day).toBe(1);
+        expect(parseWithRules('2 caps po hs')?.per_day).toBe(2);
+        expect(parseWithRules('1 tab QAM')?.per_day).toBe(1);
+      });
+    });
+
+    describe('strength-based doses', () => {
+      it('should parse mass doses without a dispensable unit', () => {
+        const result = parseWithRulesWithMetadata('Amoxicillin 500 mg PO TID');
+        expect(result.sub_method).toBe('strength-based');
+        expect(result.parsed).toEqual({ dose_unit: 'mg', per_day: 1500, confidence: 'parsed', quantity_per_dose: 500 });
+      });
+
+      it('should normalize gram and microgram units', () => {
+        expect(parseWithRules('0.5 g twice daily')?.dose_unit).toBe('g');
+        expect(parseWithRules('Levothyroxine 50 mcg daily')?.dose_unit).toBe('mcg');
+      });
+
+      it('should prefer the dispensable unit when both are given', () => {
+        const result = parseWithRules('Take 1 tab (500 mg) by mouth BID');
+        expect(result?.dose_unit).toBe('tab');
+        expect(result?.per_day).toBe(2);
+      });
+    });
+
+    describe('weight-based doses', () => {
+      it('should parse a daily mg/kg dose divided into doses', () => {
+        const result = parseWithRulesWithMetadata('Amoxicillin 40 mg/kg/day divided BID');
+        expect(result.sub_method).toBe('weight-based');
+        expect(result.parsed?.per_day).toBe(40);
+        expect(result.parsed?.quantity_per_dose).toBe(20);
+        expect(result.parsed?.weight_based).toEqual({ amount_per_kg: 40, unit: 'mg', basis: 'day', doses_per_day: 2 });
+      });
+
+      it('should parse a per-dose mg/kg amount with an interval', () => {
+        const result = parseWithRules('15 mg/kg/dose PO q6h');
+        expect(result?.per_day).toBe(60);
+        expect(result?.weight_based?.basis).toBe('dose');
+      });
+
+      it('should read divided dose counts', () => {
+        expect(parseWithRules('90 mg/kg/day PO in 2 divided doses')?.weight_based?.doses_per_day).toBe(2);
+      });
+
+      it('should apply the range policy to mg/kg ranges', () => {
+        const result = parseWithRulesWithMetadata('10-15 mg/kg PO q8h', undefined, 'min');
+        expect(result.parsed?.weight_based?.amount_per_kg).toBe(10);
+        expect(result.dose_range).toEqual({ min: 10, max: 15, policy: 'min', used: 10 });
+      });
+
+      it('should not parse a per-dose mg/kg amount without a frequency', () => {
+        expect(parseWithRules('15 mg/kg/dose')).toBeNull();
+      });
+    });
+
+    describe('eye/ear drops', () => {
+      it('should count both eyes for OU', () => {
+        const result = parseWithRulesWithMetadata('Instill 1 drop OU BID');
+        expect(result.parsed).toEqual({ dose_unit: 'drop', per_day: 4, confidence: 'parsed', application_sites: 2 });
+        expect(result.quantity_per_dose).toBe(1);
+      });
+
+      it('should parse gtt abbreviations for a single eye', () => {
+        const result = parseWithRules('1 gtt OS TID');
+        expect(result?.dose_unit).toBe('drop');
+        expect(result?.per_day).toBe(3);
+        expect(result?.application_sites).toBeUndefined();
+      });
+
+      it('should count both ears', () => {
+        expect(parseWithRules('Place 4 drops in each ear twice daily')?.per_day).toBe(16);
+      });
+
+      it('should read a single time of day as once daily', () => {
+        expect(parseWithRules('1 drop in left eye at bedtime')).toEqual({ dose_unit: 'drop', per_day: 1, confidence: 'parsed' });
+        expect(parseWithRules('1 drop in left eye qhs')?.per_day).toBe(1);
+        expect(parseWithRules('1 drop OU in the morning')?.per_day).toBe(2);
+      });
+    });
+
+    describe('nasal sprays', () => {
+      it('should count both nostrils', () => {
+        const result = parseWithRules('2 sprays each nostril daily');
+        expect(result).toEqual({ dose_unit: 'actuation', per_day: 4, confidence: 'parsed', application_sites: 2 });
+      });
+
+      it('should not multiply inhaler puffs', () => {
+        expect(parseWithRules('2 puffs BID')?.application_sites).toBeUndefined();
+      });
+    });
+
+    describe('topical creams and ointments', () => {
+      it('should estimate grams for an affected area', () => {
+        const result = parseWithRulesWithMetadata('Apply thin layer to affected area BID');
+        expect(result.sub_method).toBe('topical');
+        expect(result.parsed?.dose_unit).toBe('g');
+        expect(result.parsed?.per_day).toBe(1);
+        expect(result.parsed?.topical?.basis).toBe('default');
+      });
+
+      it('should use explicit gram amounts instead of a strength', () => {
+        const result = parseWithRulesWithMetadata('Apply 2 g to affected joints QID');
+        expect(result.sub_method).toBe('topical');
+        expect(result.parsed?.per_day).toBe(8);
+      });
+
+      it('should leave drops to the frequency parser', () => {
+        expect(parseWithRulesWithMetadata('Apply 1 drop OU BID').sub_method).toBe('frequency-based');
+      });
+    });
+
+    describe('transdermal patches', () => {
+      it('should parse change intervals longer than a day', () => {
+        const result = parseWithRulesWithMetadata('Apply 1 patch every 72 hours');
+        expect(result.sub_method).toBe('non-daily');
+        expect(result.parsed?.dose_unit).toBe('patch');
+        expect(result.parsed?.dosing_schedule).toEqual({ doses: 1, period_days: 3, label: 'every 72 hours' });
+      });
+
+      it('should parse weekly patches', () => {
+        expect(parseWithRules('Apply 1 patch weekly')?.dosing_schedule?.label).toBe('once weekly');
+      });
+
+      it('should parse patches worn for part of the day as once daily', () => {
+        const result = parseWithRulesWithMetadata('Apply 1 patch to painful area for 12 hours then remove');
+        expect(result.sub_method).toBe('patch');
+        expect(result.parsed).toEqual({ dose_unit: 'patch', per_day: 1, confidence: 'parsed', quantity_per_dose: 1, wear_hours: 12 });
+      });
+
+      it('should read wear time written as hours on', () => {
+        expect(parseWithRules('Apply up to 3 patches daily, 12 hours on and 12 hours off')?.wear_hours).toBe(12);
+      });
+    });
+
+    describe('injectable devices', () => {
+      it('should parse device counts with an interval', () => {
+        const result = parseWithRulesWithMetadata('Inject 1 pen subcutaneously every 14 days');
+        expect(result.parsed?.dose_unit).toBe('pen');
+        expect(result.parsed?.dosing_schedule?.period_days).toBe(14);
+        expect(parseWithRules('Inject one syringe weekly')?.dose_unit).toBe('syringe');
+      });
+
+      it('should keep mg doses given with a pen as strength-based', () => {
+        const result = parseWithRulesWithMetadata('Inject 0.5 mg subcutaneously once weekly using the pen');
+        expect(result.sub_method).toBe('strength-based');
+        expect(result.parsed?.dose_unit).toBe('mg');
+        expect(result.parsed?.quantity_per_dose).toBe(0.5);
+      });
+    });
+
+    describe('diabetic supplies', () => {
+      it('should parse glucose testing as tests per day', () => {
+        const result = parseWithRulesWithMetadata('Test blood glucose 4 times daily');
+        expect(result.sub_method).toBe('supplies');
+        expect(result.parsed).toEqual({ dose_unit: 'test', per_day: 4, confidence: 'parsed', quantity_per_dose: 1 });
+      });
+
+      it('should count meal-anchored tests', () => {
+        expect(parseWithRules('Check blood sugar before meals and at bedtime')?.per_day).toBe(4);
+        expect(parseWithRules('Check BG AC and HS')?.per_day).toBe(4);
+        expect(parseWithRules('Check blood sugar twice daily before meals')?.per_day).toBe(2);
+      });
+
+      it('should parse pen needles used with each injection', () => {
+        expect(parseWithRules('Use with each injection up to 3 times daily')).toMatchObject({ dose_unit: 'injection', per_day: 3 });
+        expect(parseWithRules('Use 1 pen needle with each injection 4 times daily')).toMatchObject({ dose_unit: 'needle', per_day: 4 });
+      });
+
+      it('should leave insulin doses to the other parsers', () => {
+        expect(parseWithRules('Inject 10 units before meals, check blood sugar QID')?.dose_unit).toBe('unit');
+      });
+    });
+
     describe('unit override', () => {
       it('should use unit override when provided', () => {
         const result = parseWithRules('Take 1 tablet by mouth once daily', 'cap');
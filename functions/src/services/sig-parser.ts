@@ -10,8 +10,14 @@
 
 import OpenAI from 'openai';
 import { logInfo, logWarn, logError } from '../utils/logger';
-import { convertToML, isLiquidUnit } from '../utils/unit-conversions';
+import { convertToML, convertToMg, isLiquidUnit } from '../utils/unit-conversions';
+import { getApplicationSiteCount } from '../utils/drops-config';
+import { getNostrilCount } from '../utils/nasal-spray-config';
+import { estimateTopicalAmount } from '../utils/topical-config';
+import type { TopicalEstimate } from '../utils/topical-config';
 import { startTimer, recordCounter, METRICS } from '../utils/metrics';
+import { extractSIGStructure } from './sig-structure';
+import type { StructuredSIG } from './sig-structure';
 
 /**
  * Parsed SIG data structure
@@ -20,6 +26,54 @@ export interface ParsedSIG {
   dose_unit: string; // e.g., "tab", "cap", "mL"
   per_day: number; // Total quantity per day
   confidence: 'parsed'; // Binary: 'parsed' or 'not-parsed'
+  prn?: boolean; // As-needed dosing - per_day is the maximum daily use, not a schedule
+  phases?: SIGPhase[]; // Ordered phases for tapers/titrations - quantity is the sum of all phases
+  quantity_per_dose?: number; // Dose size, required to count whole doses for non-daily schedules
+  dosing_schedule?: DosingSchedule; // Non-daily schedule (QOD, weekly, monthly) - per_day is fractional
+  weekday_schedule?: number[]; // Quantity per weekday, Monday first (7 entries) - per_day is the weekly average
+  cycle?: DosingCycle; // On/off cycle - per_day applies to dosing (on) days only
+  weight_based?: WeightBasedDose; // mg/kg dosing - per_day and quantity_per_dose are per kg until the patient weight is applied
+  topical?: TopicalEstimate; // Creams/ointments - grams per application and how they were estimated
+  wear_hours?: number; // Patches: hours each patch is worn before removal ("for 12 hours then remove")
+  application_sites?: number; // Drops/nasal sprays: eyes, ears or nostrils dosed per administration (OU, each nostril = 2) - per_day includes the multiplier
+}
+
+/**
+ * Weight-based dose (e.g., "40 mg/kg/day divided BID")
+ */
+export interface WeightBasedDose {
+  amount_per_kg: number; // Dose amount per kg as written
+  unit: 'mg' | 'mcg' | 'g';
+  basis: 'day' | 'dose'; // Whether amount_per_kg is a daily total or a single dose
+  doses_per_day: number;
+}
+
+/**
+ * Cyclic on/off regimen (e.g., 21 days on / 7 days off)
+ */
+export interface DosingCycle {
+  days_on: number;
+  days_off: number;
+}
+
+/**
+ * Non-daily dosing schedule: `doses` doses every `period_days` days
+ * (e.g., QOD = 1 per 2 days, twice weekly = 2 per 7 days, monthly = 1 per 30 days)
+ */
+export interface DosingSchedule {
+  doses: number;
+  period_days: number;
+  label: string; // Human-readable schedule (e.g., "once weekly")
+}
+
+/**
+ * A single phase of a multi-phase (taper/titration) schedule
+ */
+export interface SIGPhase {
+  quantity_per_dose: number;
+  frequency: number; // Doses per day
+  per_day: number; // quantity_per_dose × frequency
+  duration_days: number | null; // null = open-ended final phase (runs for the rest of days_supply)
 }
 
 /**
@@ -28,10 +82,58 @@ export interface ParsedSIG {
 export interface ParsedSIGWithMetadata {
   parsed: ParsedSIG | null;
   method: 'rules' | 'ai' | 'failed';
-  sub_method?: 'time-based' | 'frequency-based'; // Sub-method for rules-based parsing
+  sub_method?: 'time-based' | 'frequency-based' | 'prn' | 'multi-phase' | 'non-daily' | 'weekday' | 'cyclic' | 'strength-based' | 'weight-based' | 'topical' | 'patch' | 'supplies'; // Sub-method for rules-based parsing
   quantity_per_dose?: number;
   frequency?: number;
-  unit_conversion?: { from: string; to: string; original: number; converted: number };
+  interval_hours?: DosingInterval; // Present when frequency was derived from an hourly interval (q6h, every 8 hours)
+  prn?: PRNDetails; // Present for as-needed SIGs
+  dosing_schedule?: DosingSchedule; // Present for non-daily schedules (QOD, weekly, monthly)
+  cycle?: DosingCycle; // Present for cyclic on/off regimens
+  tablet_splitting?: TabletSplitting; // Present when a tablet dose is a fraction of a tablet
+  structured?: StructuredSIG; // Route, verb, site, duration, indication and timing (set by parseSIGWithMetadata)
+  dose_range?: DoseRange; // Present when the dose is a range ("1-2 tabs")
+  unit_conversion?: { from: string; to: string; original: number; converted: number; strength?: string };
+}
+
+/**
+ * Hourly dosing interval derived from SIGs like "q6h" or "every 4-6 hours"
+ */
+export interface DosingInterval {
+  min: number; // Shortest interval in hours
+  max: number; // Longest interval in hours (equals min when no range is given)
+  used: number; // Interval used for the frequency calculation (shortest = most doses)
+}
+
+/**
+ * As-needed (PRN) dosing details
+ */
+export interface PRNDetails {
+  basis: 'max_daily_dose' | 'max_scheduled_frequency'; // Where the daily quantity came from
+  max_per_day: number; // Maximum daily quantity used for calculation (in dose units)
+  assumption: string; // Human-readable assumption, surfaced in flags.notes
+}
+
+/**
+ * Which end of a dose range ("1-2 tabs") is used for quantity
+ */
+export type DoseRangePolicy = 'max' | 'min' | 'average';
+
+/**
+ * Dose range captured from the SIG and the policy applied to it
+ */
+export interface DoseRange {
+  min: number;
+  max: number;
+  policy: DoseRangePolicy;
+  used: number; // Dose used for quantity after applying the policy
+}
+
+/**
+ * Fractional tablet dose details (e.g., "1/2 tab daily")
+ */
+export interface TabletSplitting {
+  doses: number[]; // Fractional tablet doses found in the SIG
+  assumption: string; // Human-readable assumption, surfaced in flags.notes
 }
 
 /**
@@ -51,6 +153,10 @@ const FREQUENCY_MAP: Record<string, number> = {
   '1x daily': 1,
   '1x/day': 1,
   '1 x daily': 1,
+  'qam': 1,
+  'qpm': 1,
+  'qhs': 1,
+  'hs': 1,
   'bid': 2,
   'b.i.d.': 2,
   'b i d': 2,
@@ -111,6 +217,24 @@ const UNIT_MAP: Record<string, string> = {
   'inhalations': 'actuation',
   'spray': 'actuation',
   'sprays': 'actuation',
+  'drop': 'drop',
+  'drops': 'drop',
+  'gtt': 'drop',
+  'gtts': 'drop',
+  'patch': 'patch',
+  'patches': 'patch',
+  'pen': 'pen',
+  'pens': 'pen',
+  'syringe': 'syringe',
+  'syringes': 'syringe',
+  'vial': 'vial',
+  'vials': 'vial',
+  'strip': 'strip',
+  'strips': 'strip',
+  'lancet': 'lancet',
+  'lancets': 'lancet',
+  'needle': 'needle',
+  'needles': 'needle',
   'unit': 'unit',
   'units': 'unit',
 };
@@ -131,18 +255,138 @@ function normalizeUnit(unitStr: string): string | null {
   return UNIT_MAP[normalized] || null;
 }
 
+/**
+ * Normalize a mass unit ("milligrams", "ug") to mg/mcg/g
+ */
+function normalizeMassUnit(unitStr: string): 'mg' | 'mcg' | 'g' {
+  const rawUnit = unitStr.toLowerCase();
+  return rawUnit.startsWith('mc') || rawUnit === 'ug' || rawUnit === 'µg' || rawUnit.startsWith('micro')
+    ? 'mcg'
+    : rawUnit.startsWith('m') ? 'mg' : 'g';
+}
+
+/**
+ * Interval pattern: "q6h", "q 8 hr", "q4-6h", "every 12 hours", "every 4 to 6 hours"
+ * Groups: [1]/[3] = interval (or range start), [2]/[4] = range end
+ */
+const INTERVAL_PATTERN = /\b(?:q\.?\s*(\d+)(?:\s*(?:-|to)\s*(\d+))?\s*(?:h|hr|hrs|hour|hours)|every\s+(\d+)(?:\s*(?:-|to)\s*(\d+))?\s*(?:h|hr|hrs|hour|hours))\b/i;
+
+/**
+ * Extract an hourly dosing interval from SIG text
+ *
+ * For ranges (q4-6h) the shortest interval is used, since it yields the
+ * highest number of doses per day.
+ */
+function extractInterval(sig: string, maxHours: number = 24): DosingInterval | null {
+  const match = sig.match(INTERVAL_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const start = parseInt(match[1] ?? match[3], 10);
+  const rangeEnd = match[2] ?? match[4];
+  const end = rangeEnd ? parseInt(rangeEnd, 10) : start;
+  const min = Math.min(start, end);
+  const max = Math.max(start, end);
+
+  // By default only intervals that fit within a day are supported
+  if (min < 1 || max > maxHours) {
+    return null;
+  }
+
+  return { min, max, used: min };
+}
+
+/**
+ * Non-daily schedule patterns, checked in order (twice weekly before weekly)
+ */
+const NON_DAILY_PATTERNS: Array<{ pattern: RegExp; doses: number; periodDays: number; label: string }> = [
+  { pattern: /\b(?:q\.?o\.?d\.?|every other day|alternate days)(?=\W|$)/i, doses: 1, periodDays: 2, label: 'every other day' },
+  { pattern: /\b(?:(?:three times|3\s*(?:x|times))\s*(?:a|per|each)?\s*week(?:ly)?|tiw)\b/i, doses: 3, periodDays: 7, label: 'three times weekly' },
+  { pattern: /\b(?:(?:twice|2\s*(?:x|times))\s*(?:a|per|each)?\s*week(?:ly)?|biw)\b/i, doses: 2, periodDays: 7, label: 'twice weekly' },
+  { pattern: /\b(?:(?:once|1\s*x)\s*(?:a|per|each)\s*week|once weekly|weekly|every week|q\.?\s*(?:wk|week)|qw)\b/i, doses: 1, periodDays: 7, label: 'once weekly' },
+  { pattern: /\b(?:monthly|once (?:a|per|each) month|every month|q\.?\s*month|qmo)\b/i, doses: 1, periodDays: 30, label: 'monthly' },
+];
+
+/**
+ * Extract a non-daily dosing schedule from SIG text
+ * (QOD, weekly, twice weekly, every N days/weeks, monthly, q48h and longer)
+ *
+ * A daily frequency in the dose's own clause wins over a non-daily schedule in
+ * another clause, so monitoring instructions ("take 1 tab daily, check INR weekly")
+ * keep the daily frequency.
+ *
+ * @param sig - Prescription SIG text
+ * @returns Dosing schedule or null if the SIG is not on a non-daily schedule
+ */
+function extractNonDailySchedule(sig: string): DosingSchedule | null {
+  const schedule = matchNonDailySchedule(sig);
+  if (!schedule) {
+    return null;
+  }
+
+  // The dose clause is the first clause with a number ("Take 1 tab daily" in "Take 1 tab daily, check INR weekly")
+  const doseClause = sig.split(/[.;,](?=\s|$)/).find((clause) => /\d/.test(clause)) ?? sig;
+  if (extractFrequency(doseClause) && !matchNonDailySchedule(doseClause)) {
+    return null;
+  }
+  return schedule;
+}
+
+/**
+ * Match the non-daily schedule patterns against text
+ */
+function matchNonDailySchedule(sig: string): DosingSchedule | null {
+  for (const { pattern, doses, periodDays, label } of NON_DAILY_PATTERNS) {
+    if (pattern.test(sig)) {
+      return { doses, period_days: periodDays, label };
+    }
+  }
+
+  // Every N weeks ("every 2 weeks", "q4wk")
+  const weeksMatch = sig.match(/\b(?:every|q\.?)\s*(\d+)\s*(?:weeks|wks?)\b/i);
+  if (weeksMatch) {
+    const weeks = parseInt(weeksMatch[1], 10);
+    if (weeks >= 1) {
+      return { doses: 1, period_days: weeks * 7, label: `every ${weeks} weeks` };
+    }
+  }
+
+  // Every N days ("every 3 days", "q3d")
+  const daysMatch = sig.match(/\b(?:every|q\.?)\s*(\d+)\s*(?:days|d)\b/i);
+  if (daysMatch) {
+    const days = parseInt(daysMatch[1], 10);
+    if (days >= 2) {
+      return { doses: 1, period_days: days, label: `every ${days} days` };
+    }
+  }
+
+  // Hourly intervals longer than a day ("q72h", "every 48 hours")
+  const interval = extractInterval(sig, 24 * 31);
+  if (interval && interval.used > 24) {
+    return { doses: 1, period_days: interval.used / 24, label: `every ${interval.used} hours` };
+  }
+
+  return null;
+}
+
+/**
+ * Single time-of-day dosing ("at bedtime", "nightly", "every morning")
+ */
+const ONCE_DAILY_TIME_PATTERN = /\b(?:at bedtime|at night|nightly|every night|(?:in the|every|each) (?:morning|evening))\b/i;
+
 /**
  * Extract frequency from SIG text
  */
 function extractFrequency(sig: string): number | null {
   // Try to match frequency patterns
   const frequencyPatterns = [
-    // Abbreviations (QD, BID, TID, QID)
-    /\b(qd|q\.d\.|q d|bid|b\.i\.d\.|b i d|tid|t\.i\.d\.|t i d|qid|q\.i\.d\.|q i d)\b/i,
+    // Abbreviations (QD, BID, TID, QID, QAM, QPM, QHS, HS)
+    /\b(qd|q\.d\.|q d|qam|qpm|qhs|hs|bid|b\.i\.d\.|b i d|tid|t\.i\.d\.|t i d|qid|q\.i\.d\.|q i d)\b/i,
     // Spelled out
     /\b(once|twice|three times|four times)\s+(daily|a day)\b/i,
-    // Numeric (1x daily, 2x/day, etc.)
-    /\b(\d+)\s*x\s*(daily|day|\/day)\b/i,
+    // Numeric (1x daily, 2x/day, 3 times a day, etc.)
+    /\b(\d+)\s*(?:x|times)\s*(daily|day|\/day|a day|per day)\b/i,
   ];
 
   for (const pattern of frequencyPatterns) {
@@ -154,7 +398,7 @@ function extractFrequency(sig: string): number | null {
         return freq;
       }
       // Handle numeric frequencies (1x daily, 2x/day, etc.)
-      const numMatch = matched.match(/(\d+)\s*x/i);
+      const numMatch = matched.match(/(\d+)\s*(?:x|times)/i);
       if (numMatch) {
         const num = parseInt(numMatch[1], 10);
         if (num > 0 && num <= 10) {
@@ -164,17 +408,182 @@ function extractFrequency(sig: string): number | null {
     }
   }
 
+  // Interval-based (q6h, every 8 hours): doses per day = 24 / interval
+  const interval = extractInterval(sig);
+  if (interval) {
+    return 24 / interval.used;
+  }
+
+  // Bare "daily" (checked last so "twice daily" or "max 6 per day" clauses win)
+  if (/\b(daily|every day|each day|qday)\b/i.test(sig)) {
+    return 1;
+  }
+
+  // A single time of day is once daily ("1 drop in left eye at bedtime", "in the morning")
+  if (ONCE_DAILY_TIME_PATTERN.test(sig)) {
+    return 1;
+  }
+
   return null;
 }
 
+/**
+ * Dose quantity normalization
+ * 
+ * Rewrites fractions, unicode fractions, mixed numbers and English number words
+ * that precede a dose unit into decimals so the numeric extractors can read them:
+ * "½ tab" / "1/2 tab" / "one-half tab" → "0.5 tab", "one and a half tablets" → "1.5 tablets",
+ * "two capsules" → "2 capsules". Numbers not followed by a dose unit (strengths
+ * like "5/325", "three times weekly") are left untouched.
+ */
+const DOSE_UNITS = 'tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|drop|drops|gtt|gtts|patch|patches|pen|pens|syringe|syringes|vial|vials|strip|strips|lancet|lancets|needle|needles|unit|units';
+const BEFORE_DOSE_UNIT = `(?:\\s+of)?(?:\\s+an?)?(?=\\s*(?:${DOSE_UNITS})\\b)`;
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4, '⅛': 1 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const NUMBER_WORD_PATTERN = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve';
+
+const FRACTION_WORDS: Record<string, number> = {
+  half: 1 / 2, halves: 1 / 2, third: 1 / 3, thirds: 1 / 3, quarter: 1 / 4, quarters: 1 / 4,
+};
+
+function normalizeDoseQuantities(sig: string): string {
+  let result = sig;
+
+  // Unicode fractions, optionally after a whole number ("1½", "1 ½")
+  result = result.replace(/(\d+)?\s*([½⅓⅔¼¾⅛])/g, (_match, whole: string | undefined, fraction: string) =>
+    ` ${(whole ? parseInt(whole, 10) : 0) + UNICODE_FRACTIONS[fraction]}`
+  ).trim();
+
+  // Mixed numbers and simple fractions ("1 1/2 tabs", "1/2 tab")
+  result = result.replace(
+    new RegExp(`\\b(?:(\\d+)\\s+)?(\\d+)\\/(\\d+)${BEFORE_DOSE_UNIT}`, 'gi'),
+    (match, whole: string | undefined, numerator: string, denominator: string) => {
+      const denominatorValue = parseInt(denominator, 10);
+      if (denominatorValue === 0) {
+        return match;
+      }
+      return String((whole ? parseInt(whole, 10) : 0) + parseInt(numerator, 10) / denominatorValue);
+    }
+  );
+
+  // "one and a half", "1 and one-half"
+  result = result.replace(
+    new RegExp(`\\b(\\d+|${NUMBER_WORD_PATTERN})\\s+and\\s+(?:a|one)[\\s-]+half${BEFORE_DOSE_UNIT}`, 'gi'),
+    (_match, whole: string) => String((NUMBER_WORDS[whole.toLowerCase()] ?? parseInt(whole, 10)) + 0.5)
+  );
+
+  // "one-half", "half a", "a quarter", "two-thirds of a"
+  result = result.replace(
+    new RegExp(`\\b(?:(a|an|one|two|three)[\\s-]+)?(half|halves|thirds?|quarters?)${BEFORE_DOSE_UNIT}`, 'gi'),
+    (_match, count: string | undefined, fraction: string) =>
+      String((count ? NUMBER_WORDS[count.toLowerCase()] : 1) * FRACTION_WORDS[fraction.toLowerCase()])
+  );
+
+  // Whole number words, including ranges ("two capsules", "one to two tablets")
+  result = result.replace(
+    new RegExp(`\\b(${NUMBER_WORD_PATTERN})(?=\\s*(?:(?:-|to|or)\\s*(?:\\d+|${NUMBER_WORD_PATTERN})\\s*)?(?:${DOSE_UNITS})\\b)`, 'gi'),
+    (word: string) => String(NUMBER_WORDS[word.toLowerCase()])
+  );
+
+  return result;
+}
+
+/**
+ * Find fractional tablet doses that require splitting tablets
+ * 
+ * @param sig - Prescription SIG text
+ * @param doseUnit - Parsed dose unit (only tablets can be split)
+ * @returns Splitting details, or undefined if every tablet dose is whole
+ */
+export function detectTabletSplitting(sig: string, doseUnit: string): TabletSplitting | undefined {
+  if (doseUnit !== 'tab' || !sig) {
+    return undefined;
+  }
+
+  const doses = new Set<number>();
+  for (const match of normalizeDoseQuantities(sig).matchAll(/(\d*\.\d+)\s*(?:tablet|tablets|tab|tabs)\b/gi)) {
+    const dose = parseFloat(match[1]);
+    if (!Number.isInteger(dose)) {
+      doses.add(dose);
+    }
+  }
+
+  if (doses.size === 0) {
+    return undefined;
+  }
+
+  const doseList = Array.from(doses);
+  const formatted = doseList.map((dose) => Math.round(dose * 100) / 100).join(', ');
+  return {
+    doses: doseList,
+    assumption: `Split-tablet dose (${formatted} tab) assumes tablets are scored and can be split - quantity counts split portions toward whole tablets`,
+  };
+}
+
+/**
+ * Dose range pattern ("1-2 tabs", "5 to 10 mL", "1 or 2 puffs")
+ */
+const DOSE_RANGE_PATTERN = new RegExp(`\\b(\\d+\\.?\\d*)\\s*(?:-|to|or)\\s*(\\d+\\.?\\d*)\\s+(${DOSE_UNITS})\\b`, 'i');
+
+/**
+ * Pick the dose used for quantity from a range
+ */
+function applyRangePolicy(min: number, max: number, policy: DoseRangePolicy): number {
+  switch (policy) {
+    case 'min':
+      return min;
+    case 'average':
+      return (min + max) / 2;
+    default:
+      return max;
+  }
+}
+
+/**
+ * Build range metadata for reasoning from extracted quantity data
+ */
+function toDoseRange(
+  quantityData: { range?: { min: number; max: number } } | null,
+  policy: DoseRangePolicy
+): DoseRange | undefined {
+  if (!quantityData?.range) {
+    return undefined;
+  }
+  const { min, max } = quantityData.range;
+  return { min, max, policy, used: applyRangePolicy(min, max, policy) };
+}
+
 /**
  * Extract quantity per dose from SIG text (with unit for liquid conversion)
+ * 
+ * Dose ranges ("1-2 tabs") resolve to one end according to the range policy (default: max).
  */
-function extractQuantityPerDose(sig: string): { quantity: number; unit: string | null } | null {
+function extractQuantityPerDose(
+  sig: string,
+  rangePolicy: DoseRangePolicy = 'max'
+): { quantity: number; unit: string | null; range?: { min: number; max: number } } | null {
+  const rangeMatch = sig.match(DOSE_RANGE_PATTERN);
+  if (rangeMatch) {
+    const first = parseFloat(rangeMatch[1]);
+    const second = parseFloat(rangeMatch[2]);
+    const min = Math.min(first, second);
+    const max = Math.max(first, second);
+    if (min > 0 && max <= 100) {
+      return { quantity: applyRangePolicy(min, max, rangePolicy), unit: rangeMatch[3], range: { min, max } };
+    }
+  }
+
   // Match patterns like "take 2 tablets", "1 tablet", "2 caps", "5 mL", "1 teaspoon", "2 puffs", "20 units", etc.
   const quantityPatterns = [
-    /\b(take|use|administer|give|inhale|inject)\s+(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|unit|units)\b/i,
-    /\b(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|unit|units)\b/i,
+    /\b(take|use|administer|give|inhale|inject)\s+(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|drop|drops|gtt|gtts|patch|patches|pen|pens|syringe|syringes|vial|vials|strip|strips|lancet|lancets|needle|needles|unit|units)\b/i,
+    /\b(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|drop|drops|gtt|gtts|patch|patches|pen|pens|syringe|syringes|vial|vials|strip|strips|lancet|lancets|needle|needles|unit|units)\b/i,
   ];
 
   for (let i = 0; i < quantityPatterns.length; i++) {
@@ -210,7 +619,13 @@ function extractDoseUnit(sig: string, unitOverride?: string): string | null {
     /\b(capsule|capsules|cap|caps)\b/i,
     /\b(ml|milliliter|milliliters|millilitre|millilitres|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces)\b/i,
     /\b(puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays)\b/i,
+    /\b(drop|drops|gtt|gtts)\b/i,
+    /\b(patch|patches)\b/i,
     /\b(unit|units)\b/i,
+    // Supplies ("1 strip", "1 pen needle") are checked before devices so "pen needle" is not a pen
+    /\b\d+\.?\d*\s+(?:pen\s+)?(strip|strips|lancet|lancets|needle|needles)\b/i,
+    // Devices only count as a dose unit with a count ("1 pen"), not in "0.5 mg using the pen"
+    /\b\d+\.?\d*\s+(pen|pens|syringe|syringes|vial|vials)\b/i,
   ];
 
   for (const pattern of unitPatterns) {
@@ -226,6 +641,19 @@ function extractDoseUnit(sig: string, unitOverride?: string): string | null {
   return null;
 }
 
+/**
+ * Count sites dosed per administration (both eyes/ears for drops, both nostrils for sprays)
+ */
+function getApplicationSites(sig: string, doseUnit: string): number {
+  if (doseUnit === 'drop') {
+    return getApplicationSiteCount(sig);
+  }
+  if (doseUnit === 'actuation') {
+    return getNostrilCount(sig);
+  }
+  return 1;
+}
+
 /**
  * Detect and parse time-based dosing patterns (e.g., "1 in morning and 2 in evening")
  * 
@@ -251,7 +679,7 @@ function parseTimeBasedDosing(sig: string, unitOverride?: string): ParsedSIG | n
   
   // Pattern to extract all quantity + unit pairs
   // Matches: "1 capsule", "2 tablets", "5 mL", etc.
-  const quantityPattern = /\b(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|unit|units)\b/gi;
+  const quantityPattern = /\b(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|drop|drops|gtt|gtts|patch|patches|pen|pens|syringe|syringes|vial|vials|unit|units)\b/gi;
   
   const matches = Array.from(normalizedSig.matchAll(quantityPattern));
   
@@ -317,133 +745,1131 @@ function parseTimeBasedDosing(sig: string, unitOverride?: string): ParsedSIG | n
 }
 
 /**
- * Parse SIG using rules-based approach
- * 
+ * PRN (as needed) keywords
+ */
+const PRN_PATTERN = /\b(prn|p\.r\.n\.?|as needed|as-needed|when needed|if needed)(?=\W|$)/i;
+
+/**
+ * Maximum daily dose clauses:
+ * "max 8 tabs/day", "maximum of 6 tablets per day", "not to exceed 4 doses in 24 hours",
+ * "do not exceed 3 times daily", "max daily dose 8 tabs"
+ * Groups: [1] = amount, [2] = unit (optional; "dose"/"times" or no unit mean doses)
+ */
+const MAX_DAILY_UNITS = 'tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|drop|drops|gtt|gtts|patch|patches|unit|units|mg|milligrams?|mcg|micrograms?|grams?|gm|g|doses|dose|times';
+const MAX_DAILY_PATTERNS = [
+  new RegExp(`\\b(?:max(?:imum)?|not to exceed|do not exceed|no more than|nte)\\s*(?:of\\s*)?(\\d+\\.?\\d*)\\s*(${MAX_DAILY_UNITS})?\\s*(?:(?:\\/|per|a|in|each|every)\\s*(?:day|24\\s*(?:hours|hrs|hr|h))|daily)\\b`, 'i'),
+  new RegExp(`\\bmax(?:imum)?\\s+daily\\s+(?:dose\\s+)?(?:of\\s*)?(\\d+\\.?\\d*)\\s*(${MAX_DAILY_UNITS})?\\b`, 'i'),
+];
+
+/**
+ * Parse as-needed (PRN) dosing patterns (e.g., "1-2 tabs q4-6h prn pain, max 8 tabs/day")
+ *
+ * PRN doses are not scheduled, so the daily quantity is the maximum the patient may use:
+ * - An explicit "max N per day" clause wins when present
+ * - Otherwise the highest scheduled frequency is assumed (shortest interval, largest dose)
+ * Doses written as a mass ("500 mg q6h prn") stay in their mass unit and are
+ * converted to dispensable units later using product strength.
+ *
  * @param sig - Prescription SIG text
  * @param unitOverride - Optional unit override from request
- * @returns ParsedSIG or null if parsing fails
+ * @param rangePolicy - Which end of a dose range to use
+ * @returns Parsing result with PRN metadata, or null if not a parseable PRN SIG
  */
-export function parseWithRules(sig: string, unitOverride?: string): ParsedSIG | null {
-  if (!sig || typeof sig !== 'string' || sig.trim().length === 0) {
+function parsePRNDosing(sig: string, unitOverride?: string, rangePolicy: DoseRangePolicy = 'max'): ParsedSIGWithMetadata | null {
+  if (!PRN_PATTERN.test(sig)) {
     return null;
   }
 
-  const normalizedSig = sig.trim();
-
-  // First, try to detect time-based dosing patterns
-  const timeBasedResult = parseTimeBasedDosing(normalizedSig, unitOverride);
-  if (timeBasedResult) {
-    return timeBasedResult;
-  }
+  // Remove the max clause so its numbers are not mistaken for the dose or frequency
+  const maxMatch = MAX_DAILY_PATTERNS.map((pattern) => sig.match(pattern)).find(Boolean) ?? null;
+  const scheduledSig = maxMatch ? sig.replace(maxMatch[0], ' ') : sig;
 
-  // Extract components for frequency-based parsing
-  const quantityData = extractQuantityPerDose(normalizedSig);
-  const frequency = extractFrequency(normalizedSig);
-  const doseUnit = extractDoseUnit(normalizedSig, unitOverride);
+  const frequency = extractFrequency(scheduledSig);
+  const unitDoseUnit = extractDoseUnit(sig, unitOverride);
+  const massDose = unitDoseUnit ? null : extractMassDose(scheduledSig, rangePolicy);
+  const quantityData = massDose ?? extractQuantityPerDose(scheduledSig, rangePolicy);
+  const doseUnit = massDose?.unit ?? unitDoseUnit;
 
-  // Validate required components
-  if (!frequency || !doseUnit || !quantityData) {
-    logWarn('SIG parsing failed - missing required components', {
-      sig: '[REDACTED]',
-      hasFrequency: !!frequency,
-      hasDoseUnit: !!doseUnit,
-      hasQuantityData: !!quantityData,
-    });
+  if (!doseUnit || !quantityData) {
     return null;
   }
 
   let quantityPerDose = quantityData.quantity;
-  
-  // Handle liquid unit conversions (e.g., teaspoons, tablespoons, oz to mL)
-  if (quantityData.unit && isLiquidUnit(quantityData.unit)) {
-    try {
-      // Convert to mL if it's a non-mL liquid unit
-      const normalizedQuantityUnit = quantityData.unit.toLowerCase().trim();
-      if (normalizedQuantityUnit !== 'ml' && normalizedQuantityUnit !== 'milliliter' && normalizedQuantityUnit !== 'milliliters') {
-        quantityPerDose = convertToML(quantityData.quantity, quantityData.unit);
-        logInfo('Converted liquid unit to mL', {
-          sig: '[REDACTED]',
-          originalQuantity: quantityData.quantity,
-          originalUnit: quantityData.unit,
-          convertedQuantity: quantityPerDose,
-        });
-      }
-    } catch (error) {
-      logWarn('Failed to convert liquid unit', {
-        sig: '[REDACTED]',
-        unit: quantityData.unit,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      // Continue with original quantity if conversion fails
+  let unitConversion: ParsedSIGWithMetadata['unit_conversion'];
+  const quantityUnit = quantityData.unit?.toLowerCase();
+  if (!massDose && quantityData.unit && quantityUnit && isLiquidUnit(quantityUnit) && !['ml', 'milliliter', 'milliliters'].includes(quantityUnit)) {
+    quantityPerDose = convertToML(quantityData.quantity, quantityData.unit);
+    unitConversion = { from: quantityData.unit, to: 'mL', original: quantityData.quantity, converted: quantityPerDose };
+  }
+
+  // Drops in both eyes/ears and sprays in each nostril count twice per administration
+  const applicationSites = massDose ? 1 : getApplicationSites(sig, doseUnit);
+  const dosePerAdministration = quantityPerDose * applicationSites;
+
+  let maxPerDay: number | null = null;
+  if (maxMatch) {
+    const amount = parseFloat(maxMatch[1]);
+    const maxUnit = maxMatch[2]?.toLowerCase();
+    const isMassMax = !!maxUnit && /^(?:mg|milligrams?|mcg|micrograms?|grams?|gm|g)$/.test(maxUnit);
+    if (!maxUnit || maxUnit.startsWith('dose') || maxUnit === 'times') {
+      // "max 4 doses/day" - convert doses into dose units
+      maxPerDay = amount * dosePerAdministration;
+    } else if (massDose || isMassMax) {
+      // A mass maximum only applies to a mass dose ("max 3 g/day" for 500 mg doses)
+      maxPerDay = massDose && isMassMax ? convertToMg(amount, normalizeMassUnit(maxUnit)) / convertToMg(1, doseUnit) : null;
+    } else if (isLiquidUnit(maxUnit) && maxUnit !== 'ml') {
+      maxPerDay = convertToML(amount, maxUnit);
+    } else {
+      maxPerDay = amount;
     }
   }
 
-  // Calculate per_day
-  const perDay = quantityPerDose * frequency;
+  let prn: PRNDetails;
+  if (maxPerDay !== null) {
+    prn = {
+      basis: 'max_daily_dose',
+      max_per_day: maxPerDay,
+      assumption: `PRN: using maximum daily dose from SIG (${maxPerDay} ${doseUnit}/day)`,
+    };
+  } else if (frequency) {
+    const scheduledPerDay = dosePerAdministration * frequency;
+    const sites = applicationSites > 1 ? ` × ${applicationSites} sites` : '';
+    prn = {
+      basis: 'max_scheduled_frequency',
+      max_per_day: scheduledPerDay,
+      assumption: `PRN: no maximum daily dose specified - assuming maximum scheduled use (${quantityPerDose} ${doseUnit}${sites} × ${frequency}/day = ${scheduledPerDay} ${doseUnit}/day)`,
+    };
+  } else {
+    // Neither a schedule nor a maximum - nothing to base the quantity on
+    return null;
+  }
 
-  // Validate per_day is reasonable
-  if (perDay <= 0 || perDay > 100) {
-    logWarn('SIG parsing failed - invalid per_day calculation', {
-      sig: '[REDACTED]',
-      perDay,
-    });
+  // Mass doses are not bound by the 100 units/day guard - cap at 100 g/day instead
+  const exceedsDailyLimit = massDose ? convertToMg(prn.max_per_day, doseUnit) > 100000 : prn.max_per_day > 100;
+  if (prn.max_per_day <= 0 || exceedsDailyLimit) {
     return null;
   }
 
-  logInfo('SIG parsed successfully', {
+  logInfo('Parsed PRN dosing pattern', {
     sig: '[REDACTED]',
+    basis: prn.basis,
+    perDay: prn.max_per_day,
     doseUnit,
-    perDay,
-    quantityPerDose,
-    frequency,
   });
 
   return {
-    dose_unit: doseUnit,
-    per_day: perDay,
-    confidence: 'parsed',
+    parsed: {
+      dose_unit: doseUnit,
+      per_day: prn.max_per_day,
+      confidence: 'parsed',
+      prn: true,
+      ...(massDose && { quantity_per_dose: quantityPerDose }),
+      ...(applicationSites > 1 && { application_sites: applicationSites }),
+    },
+    method: 'rules',
+    sub_method: 'prn',
+    quantity_per_dose: quantityPerDose,
+    frequency: frequency ?? prn.max_per_day / dosePerAdministration,
+    interval_hours: extractInterval(scheduledSig) ?? undefined,
+    unit_conversion: unitConversion,
+    dose_range: toDoseRange(quantityData, rangePolicy),
+    prn,
   };
 }
 
 /**
- * Parse with rules and return metadata for reasoning
+ * Phase duration: "x 3 days", "for 7 days", "for 2 weeks", "x2 wks", "on day 1"
  */
-export function parseWithRulesWithMetadata(sig: string, unitOverride?: string): ParsedSIGWithMetadata {
-  if (!sig || typeof sig !== 'string' || sig.trim().length === 0) {
-    return { parsed: null, method: 'failed' };
+const PHASE_DURATION_PATTERN = /\b(?:x|for|times|over)\s*(\d+)\s*(days?|d|weeks?|wks?)\b/i;
+const SINGLE_DAY_PATTERN = /\b(?:on\s+)?(?:day\s*1|the first day|first day)\b/i;
+
+/**
+ * Extract the duration (in days) of a single phase
+ */
+function extractPhaseDuration(segment: string): number | null {
+  const match = segment.match(PHASE_DURATION_PATTERN);
+  if (match) {
+    const amount = parseInt(match[1], 10);
+    return match[2].toLowerCase().startsWith('w') ? amount * 7 : amount;
+  }
+  if (SINGLE_DAY_PATTERN.test(segment)) {
+    return 1;
   }
+  return null;
+}
 
-  const normalizedSig = sig.trim();
+/**
+ * Parse multi-phase taper/titration schedules
+ * (e.g., "4 tabs daily x 3 days, then 3 tabs daily x 3 days, then 2 tabs daily x 3 days")
+ *
+ * Phases are separated by "then". Every phase except the last needs a duration;
+ * a last phase without one is open-ended and continues for the rest of days_supply.
+ * A phase without its own frequency inherits the previous phase's frequency.
+ *
+ * @param sig - Prescription SIG text
+ * @param unitOverride - Optional unit override from request
+ * @param rangePolicy - Which end of a dose range to use
+ * @returns Parsing result with phases, or null if not a multi-phase SIG
+ */
+function parseMultiPhaseDosing(sig: string, unitOverride?: string, rangePolicy: DoseRangePolicy = 'max'): ParsedSIGWithMetadata | null {
+  const segments = sig
+    .split(/[,;]?\s*\bthen\b\s*/i)
+    .map((segment) => segment.trim())
+    // Drop trailing instructions without a dose ("then stop", "then discontinue")
+    .filter((segment) => /\d/.test(segment));
+
+  if (segments.length < 2) {
+    return null;
+  }
 
-  // First, try to detect time-based dosing patterns
-  const timeBasedResult = parseTimeBasedDosing(normalizedSig, unitOverride);
-  if (timeBasedResult) {
-    // For time-based dosing, we don't have separate quantity_per_dose and frequency
-    // Estimate frequency as the number of dosing times
-    const quantityPattern = /\b(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|unit|units)\b/gi;
-    const matches = Array.from(normalizedSig.toLowerCase().matchAll(quantityPattern));
-    const estimatedFrequency = matches.length >= 2 ? matches.length : 2; // Default to 2 if we can't count
-    
-    return {
-      parsed: timeBasedResult,
-      method: 'rules',
-      sub_method: 'time-based',
-      quantity_per_dose: timeBasedResult.per_day / estimatedFrequency, // Approximate
-      frequency: estimatedFrequency,
-    };
+  const doseUnit = extractDoseUnit(sig, unitOverride);
+  if (!doseUnit) {
+    return null;
   }
 
-  // Extract components for frequency-based parsing
-  const quantityData = extractQuantityPerDose(normalizedSig);
-  const frequency = extractFrequency(normalizedSig);
-  const doseUnit = extractDoseUnit(normalizedSig, unitOverride);
+  const phases: SIGPhase[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const duration = extractPhaseDuration(segment);
 
-  // Validate required components
-  if (!frequency || !doseUnit || !quantityData) {
-    return { parsed: null, method: 'failed' };
-  }
+    // Only the final phase may be open-ended
+    if (duration === null && i < segments.length - 1) {
+      return null;
+    }
 
-  let quantityPerDose = quantityData.quantity;
+    // Dose with a unit ("3 tabs"), otherwise a leading bare number ("then 3 daily x 3 days")
+    const quantityData = extractQuantityPerDose(segment, rangePolicy);
+    let quantity = quantityData?.quantity ?? 1;
+    if (!quantityData?.unit) {
+      const bareMatch = segment.match(/^(?:take|use|give)?\s*(\d+\.?\d*)\b(?!\s*(?:days?|weeks?|wks?)\b)/i);
+      if (!bareMatch) {
+        return null;
+      }
+      quantity = parseFloat(bareMatch[1]);
+    }
+
+    const frequency = extractFrequency(segment)
+      ?? (i > 0 ? phases[i - 1].frequency : null)
+      ?? (SINGLE_DAY_PATTERN.test(segment) ? 1 : null);
+    if (!frequency) {
+      return null;
+    }
+
+    const perDay = quantity * frequency;
+    if (perDay <= 0 || perDay > 100) {
+      return null;
+    }
+
+    phases.push({
+      quantity_per_dose: quantity,
+      frequency,
+      per_day: perDay,
+      duration_days: duration,
+    });
+  }
+
+  // Average daily use over the fixed-length phases
+  const fixedPhases = phases.filter((phase) => phase.duration_days !== null);
+  const fixedDays = fixedPhases.reduce((sum, phase) => sum + (phase.duration_days ?? 0), 0);
+  const fixedQty = fixedPhases.reduce((sum, phase) => sum + phase.per_day * (phase.duration_days ?? 0), 0);
+  const perDay = fixedDays > 0 ? Math.round((fixedQty / fixedDays) * 100) / 100 : phases[0].per_day;
+
+  logInfo('Parsed multi-phase dosing pattern', {
+    sig: '[REDACTED]',
+    phaseCount: phases.length,
+    fixedDays,
+    doseUnit,
+  });
+
+  return {
+    parsed: {
+      dose_unit: doseUnit,
+      per_day: perDay,
+      confidence: 'parsed',
+      phases,
+    },
+    method: 'rules',
+    sub_method: 'multi-phase',
+    quantity_per_dose: phases[0].quantity_per_dose,
+    frequency: phases[0].frequency,
+  };
+}
+
+/**
+ * Weekday names/abbreviations mapped to index (Monday = 0)
+ */
+const WEEKDAY_INDEX: Record<string, number> = {
+  'monday': 0, 'mon': 0,
+  'tuesday': 1, 'tues': 1, 'tue': 1,
+  'wednesday': 2, 'wed': 2,
+  'thursday': 3, 'thurs': 3, 'thur': 3, 'thu': 3,
+  'friday': 4, 'fri': 4,
+  'saturday': 5, 'sat': 5,
+  'sunday': 6, 'sun': 6,
+};
+
+const WEEKDAY_NAMES = 'monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat|sunday|sun';
+const WEEKDAY_PATTERN = new RegExp(`\\b(${WEEKDAY_NAMES})s?\\b`, 'gi');
+const WEEKDAY_RANGE_PATTERN = new RegExp(`\\b(${WEEKDAY_NAMES})s?\\s*(?:-|to|through|thru)\\s*(${WEEKDAY_NAMES})s?\\b`, 'gi');
+
+/**
+ * Weekday names only count as days in a list or range ("Mon/Wed/Fri", "Tue and Thu", "Mon-Fri"),
+ * after a day cue ("on Sunday", "every Monday") or right after the dose ("5 mg Sun"),
+ * so "avoid sun exposure" is not a Sunday dose
+ */
+const WEEKDAY_TOKEN = `(?:${WEEKDAY_NAMES})s?\\b\\.?`;
+const WEEKDAY_LIST_PATTERN = new RegExp(
+  `\\b${WEEKDAY_TOKEN}(?:\\s*(?:,|\\/|&|-|\\band\\b|\\bor\\b|\\bto\\b|\\bthrough\\b|\\bthru\\b)\\s*${WEEKDAY_TOKEN})+`,
+  'gi'
+);
+const WEEKDAY_CUED_PATTERN = new RegExp(`(?:^\\s*(?:\\([^)]*\\)\\s*)?(?:on\\s+)?|\\b(?:on|every|each)\\s+)${WEEKDAY_TOKEN}`, 'gi');
+
+/**
+ * Excluded days ("daily except Sunday", "every day but not on weekends")
+ * Groups: [1] = text naming the excluded days
+ */
+const WEEKDAY_EXCEPT_PATTERN = /\b(?:except|but not|other than)\b(.*)$/i;
+
+/**
+ * "All other days" clauses that cover every weekday not named elsewhere
+ */
+const REMAINING_DAYS_PATTERN = /\b(?:all other days|other days|remaining days|rest of the week|all others)\b/i;
+
+/**
+ * Dose quantity with unit, allowing decimals and simple fractions ("1/2 tab", "1.5 tabs")
+ * Groups: [1] = quantity, [2] = unit
+ */
+const WEEKDAY_DOSE_PATTERN = /(\d+\/\d+|\d*\.?\d+)\s*(tablet|tablets|tab|tabs|capsule|capsules|cap|caps)\b/gi;
+
+/**
+ * Dose written as a mass ("5 mg Mon/Wed/Fri, 2.5 mg all other days"), converted later using product strength
+ * Groups: [1] = quantity, [2] = unit
+ */
+const WEEKDAY_MASS_DOSE_PATTERN = /(\d+\/\d+|\d*\.?\d+)\s*(mg|milligrams?|mcg|ug|µg|micrograms?)(?=\W|$)/gi;
+
+/**
+ * Parse a numeric token that may be a simple fraction ("1/2")
+ */
+function parseDoseNumber(token: string): number {
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+  }
+  return parseFloat(token);
+}
+
+/**
+ * Collect the weekdays named in a clause ("Mon/Wed/Fri", "Mon-Fri", "weekends")
+ *
+ * @param clause - Clause text following its dose
+ */
+function extractWeekdays(clause: string): Set<number> {
+  const days = new Set<number>();
+  const spans = [
+    ...Array.from(clause.matchAll(WEEKDAY_LIST_PATTERN), (match) => match[0]),
+    ...Array.from(clause.matchAll(WEEKDAY_CUED_PATTERN), (match) => match[0]),
+  ];
+
+  for (const span of spans) {
+    // Ranges first ("Mon-Fri", "Monday through Thursday")
+    let remaining = span;
+    for (const match of span.matchAll(WEEKDAY_RANGE_PATTERN)) {
+      const start = WEEKDAY_INDEX[match[1].toLowerCase()];
+      const end = WEEKDAY_INDEX[match[2].toLowerCase()];
+      for (let day = start; ; day = (day + 1) % 7) {
+        days.add(day);
+        if (day === end) break;
+      }
+      remaining = remaining.replace(match[0], ' ');
+    }
+
+    for (const match of remaining.matchAll(WEEKDAY_PATTERN)) {
+      days.add(WEEKDAY_INDEX[match[1].toLowerCase()]);
+    }
+  }
+
+  if (/\bweekdays\b/i.test(clause)) {
+    [0, 1, 2, 3, 4].forEach((day) => days.add(day));
+  }
+  if (/\bweekends?\b/i.test(clause)) {
+    days.add(5);
+    days.add(6);
+  }
+
+  return days;
+}
+
+/**
+ * Parse weekday-specific variable dosing (e.g., warfarin
+ * "1 tab Mon/Wed/Fri, 1/2 tab all other days")
+ *
+ * Each dose quantity starts a clause that runs until the next quantity; the clause
+ * names the weekdays it applies to, "all other days" for the rest of the week, or
+ * the days it skips ("daily except Sunday"). Weekdays that no clause covers get no dose.
+ * A daily frequency in the SIG ("twice daily Mon-Fri") multiplies each day's dose;
+ * a schedule with the same dose every day is left to frequency-based parsing.
+ *
+ * @param sig - Prescription SIG text
+ * @param unitOverride - Optional unit override from request
+ * @returns Parsing result with a 7-day schedule, or null if not a weekday SIG
+ */
+function parseWeekdayDosing(sig: string, unitOverride?: string): ParsedSIGWithMetadata | null {
+  if (!sig.match(WEEKDAY_PATTERN) && !/\b(?:weekdays|weekends?)\b/i.test(sig)) {
+    return null;
+  }
+
+  // Dispensable units win over a strength in parentheses ("1 tab (5 mg) Mon/Wed/Fri")
+  const unitDoses = Array.from(sig.matchAll(WEEKDAY_DOSE_PATTERN));
+  const isMassDose = unitDoses.length === 0;
+  const doses = isMassDose ? Array.from(sig.matchAll(WEEKDAY_MASS_DOSE_PATTERN)) : unitDoses;
+  if (doses.length === 0) {
+    return null;
+  }
+
+  const toUnit = (rawUnit: string) => (isMassDose ? normalizeMassUnit(rawUnit) : normalizeUnit(rawUnit));
+  const firstUnit = toUnit(doses[0][2]);
+  if (!firstUnit || doses.some((dose) => toUnit(dose[2]) !== firstUnit)) {
+    return null;
+  }
+
+  const schedule: Array<number | null> = new Array(7).fill(null);
+  let remainingDaysQuantity: number | null = null;
+
+  for (let i = 0; i < doses.length; i++) {
+    const start = (doses[i].index ?? 0) + doses[i][0].length;
+    const end = i + 1 < doses.length ? doses[i + 1].index ?? sig.length : sig.length;
+    const clause = sig.slice(start, end);
+    const quantity = parseDoseNumber(doses[i][1]);
+
+    if (REMAINING_DAYS_PATTERN.test(clause)) {
+      remainingDaysQuantity = quantity;
+      continue;
+    }
+
+    const exceptMatch = clause.match(WEEKDAY_EXCEPT_PATTERN);
+    const excludedDays = exceptMatch ? extractWeekdays(exceptMatch[1]) : new Set<number>();
+    let days = extractWeekdays(exceptMatch ? clause.slice(0, exceptMatch.index) : clause);
+    if (excludedDays.size > 0) {
+      // "daily except Sunday" - every day not excluded
+      const named = days.size > 0 ? days : new Set([0, 1, 2, 3, 4, 5, 6]);
+      days = new Set(Array.from(named).filter((day) => !excludedDays.has(day)));
+    }
+    if (days.size === 0) {
+      // A dose without days is not a weekday schedule
+      return null;
+    }
+    days.forEach((day) => {
+      schedule[day] = quantity;
+    });
+  }
+
+  const dailyFrequency = extractFrequency(sig);
+  const dailySchedule = schedule.map((quantity) => quantity ?? remainingDaysQuantity ?? 0);
+  if (dailyFrequency && dailySchedule.every((quantity) => quantity === dailySchedule[0])) {
+    // The same dose every day is an ordinary daily schedule
+    return null;
+  }
+
+  const dosesPerDay = dailyFrequency ?? 1;
+  const weekdaySchedule = dailySchedule.map((quantity) => quantity * dosesPerDay);
+  const weeklyTotal = weekdaySchedule.reduce((sum, quantity) => sum + quantity, 0);
+  if (weeklyTotal <= 0 || weeklyTotal > 700) {
+    return null;
+  }
+
+  const doseUnit = unitOverride && !isMassDose ? normalizeUnit(unitOverride) || unitOverride : firstUnit;
+  const perDay = weeklyTotal / 7;
+
+  logInfo('Parsed weekday dosing pattern', {
+    sig: '[REDACTED]',
+    weeklyTotal,
+    doseUnit,
+  });
+
+  return {
+    parsed: {
+      dose_unit: doseUnit,
+      per_day: perDay,
+      confidence: 'parsed',
+      weekday_schedule: weekdaySchedule,
+    },
+    method: 'rules',
+    sub_method: 'weekday',
+    quantity_per_dose: Math.max(...dailySchedule),
+    frequency: dosesPerDay,
+  };
+}
+
+/**
+ * Cycle patterns
+ * - "for 21 days of a 28-day cycle", "on days 1-21 of each 28 day cycle"
+ * - "21 days on, 7 days off", "5 days on / 2 off", "3 weeks on, 1 week off"
+ */
+const CYCLE_OF_LENGTH_PATTERN = /\b(?:(?:for|x)\s*(\d+)\s*days?|(?:on\s+)?days?\s*1\s*(?:-|to|through|thru)\s*(\d+))\s*(?:of|in|out of)\s*(?:a|an|each|every)?\s*(\d+)[\s-]*days?\s*cycles?\b/i;
+const CYCLE_ON_OFF_PATTERN = /\b(\d+)\s*(days?|weeks?|wks?)\s*on\s*[,/;]?\s*(?:and\s*|then\s*)?(\d+)\s*(days?|weeks?|wks?)?\s*off\b/i;
+
+/**
+ * Extract an on/off dosing cycle and return the SIG with the cycle clause removed
+ */
+function extractDosingCycle(sig: string): { cycle: DosingCycle; remainingSig: string } | null {
+  const ofLengthMatch = sig.match(CYCLE_OF_LENGTH_PATTERN);
+  if (ofLengthMatch) {
+    const daysOn = parseInt(ofLengthMatch[1] ?? ofLengthMatch[2], 10);
+    const cycleLength = parseInt(ofLengthMatch[3], 10);
+    if (daysOn > 0 && cycleLength > daysOn) {
+      return {
+        cycle: { days_on: daysOn, days_off: cycleLength - daysOn },
+        remainingSig: sig.replace(ofLengthMatch[0], ' '),
+      };
+    }
+  }
+
+  const onOffMatch = sig.match(CYCLE_ON_OFF_PATTERN);
+  if (onOffMatch) {
+    const onUnit = onOffMatch[2].toLowerCase();
+    // "5 days on / 2 off" - the off period shares the on period's unit
+    const offUnit = (onOffMatch[4] ?? onOffMatch[2]).toLowerCase();
+    const daysOn = parseInt(onOffMatch[1], 10) * (onUnit.startsWith('w') ? 7 : 1);
+    const daysOff = parseInt(onOffMatch[3], 10) * (offUnit.startsWith('w') ? 7 : 1);
+    if (daysOn > 0 && daysOff > 0) {
+      return {
+        cycle: { days_on: daysOn, days_off: daysOff },
+        remainingSig: sig.replace(onOffMatch[0], ' '),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse cyclic on/off regimens (e.g., "1 cap daily for 21 days of a 28-day cycle")
+ *
+ * The dose and frequency outside the cycle clause apply to each dosing (on) day.
+ *
+ * @param sig - Prescription SIG text
+ * @param unitOverride - Optional unit override from request
+ * @param rangePolicy - Which end of a dose range to use
+ * @returns Parsing result with cycle metadata, or null if not a cyclic SIG
+ */
+function parseCyclicDosing(sig: string, unitOverride?: string, rangePolicy: DoseRangePolicy = 'max'): ParsedSIGWithMetadata | null {
+  const cycleData = extractDosingCycle(sig);
+  if (!cycleData) {
+    return null;
+  }
+
+  const { cycle, remainingSig } = cycleData;
+  const quantityData = extractQuantityPerDose(remainingSig, rangePolicy);
+  const frequency = extractFrequency(remainingSig);
+  const doseUnit = extractDoseUnit(remainingSig, unitOverride);
+
+  if (!frequency || !doseUnit || !quantityData) {
+    return null;
+  }
+
+  const perDay = quantityData.quantity * frequency;
+  if (perDay <= 0 || perDay > 100) {
+    return null;
+  }
+
+  logInfo('Parsed cyclic dosing pattern', {
+    sig: '[REDACTED]',
+    daysOn: cycle.days_on,
+    daysOff: cycle.days_off,
+    perDay,
+    doseUnit,
+  });
+
+  return {
+    parsed: {
+      dose_unit: doseUnit,
+      per_day: perDay,
+      confidence: 'parsed',
+      cycle,
+    },
+    method: 'rules',
+    sub_method: 'cyclic',
+    quantity_per_dose: quantityData.quantity,
+    frequency,
+    cycle,
+    dose_range: toDoseRange(quantityData, rangePolicy),
+  };
+}
+
+/**
+ * Weight-based dose pattern ("40 mg/kg/day", "15 mg/kg/dose", "10-15 mg/kg", "20 mg per kg per day")
+ */
+const WEIGHT_DOSE_PATTERN = /\b(\d*\.?\d+)(?:\s*(?:-|to)\s*(\d*\.?\d+))?\s*(mg|mcg|g)\s*(?:\/|per)\s*kg(?:\s*(?:\/|per|a)\s*(dose|day|d|24\s*(?:h|hrs?|hours?))\b)?/i;
+
+/**
+ * Divided dose count ("in 2 divided doses", "divided into 3 doses")
+ */
+const DIVIDED_DOSES_PATTERN = /\b(?:in|into)\s*(\d+)\s*(?:equally\s*)?divided\s*doses\b|\bdivided\s*(?:into\s*)?(\d+)\s*doses\b/i;
+
+/**
+ * Parse weight-based doses (e.g., "40 mg/kg/day divided BID", "15 mg/kg/dose q6h")
+ *
+ * The patient weight is not known here, so per_day and quantity_per_dose are returned
+ * per kg; the compute handler applies the patient weight before calculating quantity.
+ * A daily amount without a frequency is given once daily; a per-dose amount needs one.
+ *
+ * @param sig - Prescription SIG text
+ * @param rangePolicy - Which end of a dose range to use
+ * @returns Parsing result with weight-based dose, or null if the SIG is not weight-based
+ */
+function parseWeightBasedDosing(sig: string, rangePolicy: DoseRangePolicy = 'max'): ParsedSIGWithMetadata | null {
+  const weightMatch = sig.match(WEIGHT_DOSE_PATTERN);
+  if (!weightMatch) {
+    return null;
+  }
+
+  const first = parseFloat(weightMatch[1]);
+  const second = weightMatch[2] ? parseFloat(weightMatch[2]) : first;
+  const min = Math.min(first, second);
+  const max = Math.max(first, second);
+  const amountPerKg = applyRangePolicy(min, max, rangePolicy);
+  const unit = weightMatch[3].toLowerCase() as WeightBasedDose['unit'];
+  const periodText = weightMatch[4]?.toLowerCase();
+  // "mg/kg/day" is a daily total; "mg/kg/dose" and bare "mg/kg q6h" are single doses
+  const basis: WeightBasedDose['basis'] = periodText && periodText !== 'dose' ? 'day' : 'dose';
+
+  const remainingSig = sig.replace(weightMatch[0], ' ');
+  const dividedMatch = remainingSig.match(DIVIDED_DOSES_PATTERN);
+  const frequency = dividedMatch
+    ? parseInt(dividedMatch[1] ?? dividedMatch[2], 10)
+    : extractFrequency(remainingSig) ?? (basis === 'day' ? 1 : null);
+
+  if (!frequency || amountPerKg <= 0) {
+    return null;
+  }
+
+  const perDayPerKg = basis === 'day' ? amountPerKg : amountPerKg * frequency;
+  const perDosePerKg = perDayPerKg / frequency;
+  const weightBased: WeightBasedDose = {
+    amount_per_kg: amountPerKg,
+    unit,
+    basis,
+    doses_per_day: frequency,
+  };
+
+  logInfo('Parsed weight-based dose', {
+    sig: '[REDACTED]',
+    amountPerKg,
+    unit,
+    basis,
+    frequency,
+  });
+
+  return {
+    parsed: {
+      dose_unit: unit,
+      per_day: perDayPerKg,
+      confidence: 'parsed',
+      quantity_per_dose: perDosePerKg,
+      weight_based: weightBased,
+    },
+    method: 'rules',
+    sub_method: 'weight-based',
+    quantity_per_dose: perDosePerKg,
+    frequency,
+    dose_range: min !== max ? { min, max, policy: rangePolicy, used: amountPerKg } : undefined,
+  };
+}
+
+/**
+ * Topical application keywords ("apply a thin layer to affected area", "rub in", "2 FTU")
+ */
+const TOPICAL_SIG_PATTERN = /\b(apply|rub|massage|affected areas?|thin layer|thin film|topically|fingertip units?|ftus?)\b/i;
+
+/**
+ * Parse topical cream/ointment/gel SIGs into grams (e.g., "apply thin layer to affected area BID")
+ *
+ * Grams per application come from an explicit amount, fingertip units or the
+ * body area (see topical-config); SIGs with another dose unit (drops, sprays)
+ * or patches are left to the other parsers.
+ *
+ * @param sig - Prescription SIG text
+ * @returns Parsing result in grams, or null if not a topical SIG
+ */
+function parseTopicalDosing(sig: string): ParsedSIGWithMetadata | null {
+  if (!TOPICAL_SIG_PATTERN.test(sig) || extractDoseUnit(sig) || /\bpatch(?:es)?\b/i.test(sig)) {
+    return null;
+  }
+
+  const frequency = extractFrequency(sig);
+  if (!frequency) {
+    return null;
+  }
+
+  const topical = estimateTopicalAmount(sig);
+  const perDay = topical.grams_per_application * frequency;
+  if (perDay <= 0 || perDay > 100) {
+    return null;
+  }
+
+  logInfo('Parsed topical dose', {
+    sig: '[REDACTED]',
+    basis: topical.basis,
+    gramsPerApplication: topical.grams_per_application,
+    frequency,
+  });
+
+  return {
+    parsed: {
+      dose_unit: 'g',
+      per_day: perDay,
+      confidence: 'parsed',
+      quantity_per_dose: topical.grams_per_application,
+      topical,
+    },
+    method: 'rules',
+    sub_method: 'topical',
+    quantity_per_dose: topical.grams_per_application,
+    frequency,
+  };
+}
+
+/**
+ * Patch wear time ("for 12 hours then remove", "remove after 12 hours", "12 hours on, 12 hours off")
+ */
+const PATCH_WEAR_PATTERN = /\b(?:(?:for|up to)\s*(\d+)\s*(?:hours?|hrs?|h)\b(?=[^.;]*\bremove)|remove\s*(?:it\s*)?after\s*(\d+)\s*(?:hours?|hrs?|h)\b|(\d+)\s*(?:hours?|hrs?|h)\s*on\b)/i;
+
+/**
+ * Parse patches worn for part of the day (e.g., "apply 1 patch for 12 hours then remove")
+ *
+ * A patch worn for up to 24 hours without a stated frequency is applied once daily.
+ * Change intervals ("every 72 hours", "weekly") are handled by the non-daily schedules.
+ *
+ * @param sig - Prescription SIG text
+ * @param unitOverride - Optional unit override from request
+ * @returns Parsing result with wear time, or null if not a part-day patch SIG
+ */
+function parsePatchDosing(sig: string, unitOverride?: string): ParsedSIGWithMetadata | null {
+  if (extractDoseUnit(sig, unitOverride) !== 'patch' || extractNonDailySchedule(sig)) {
+    return null;
+  }
+
+  const wearMatch = sig.match(PATCH_WEAR_PATTERN);
+  if (!wearMatch) {
+    return null;
+  }
+
+  const wearHours = parseInt(wearMatch[1] ?? wearMatch[2] ?? wearMatch[3], 10);
+  if (wearHours < 1 || wearHours > 24) {
+    return null;
+  }
+
+  // The wear time is not a dosing interval - strip it before reading the frequency
+  const frequency = extractFrequency(sig.replace(wearMatch[0], ' ')) ?? 1;
+  const quantity = extractQuantityPerDose(sig)?.quantity ?? 1;
+  const perDay = quantity * frequency;
+
+  logInfo('Parsed patch wear time', {
+    sig: '[REDACTED]',
+    wearHours,
+    frequency,
+  });
+
+  return {
+    parsed: {
+      dose_unit: 'patch',
+      per_day: perDay,
+      confidence: 'parsed',
+      quantity_per_dose: quantity,
+      wear_hours: wearHours,
+    },
+    method: 'rules',
+    sub_method: 'patch',
+    quantity_per_dose: quantity,
+    frequency,
+  };
+}
+
+/**
+ * Glucose testing ("test blood sugar 4 times daily", "check BG before meals and at bedtime")
+ */
+const TESTING_SIG_PATTERN = /\b(?:test|check|monitor|measure)(?:ing)?\s+(?:your\s+|the\s+)?(?:blood\s+(?:glucose|sugars?)|glucose|sugars?|bg|bs|cbg|fsbs|fingersticks?)\b/i;
+
+/**
+ * Pen needle use tied to injections ("use with each injection", "for insulin injections")
+ */
+const INJECTION_USE_PATTERN = /\b(?:with|for|per)\s+(?:each\s+|every\s+)?(?:insulin\s+)?injections?\b/i;
+
+/**
+ * Meal-anchored testing ("before meals and at bedtime" = 4 tests a day)
+ */
+const MEALS_PATTERN = /\b(?:before|with|after)\s+(?:each\s+|every\s+)?meals?\b|\bac\b/i;
+const BEDTIME_PATTERN = /\b(?:at\s+)?bedtime\b|\bq?hs\b/gi;
+
+/**
+ * Dose units dispensed as supplies
+ */
+const SUPPLY_DOSE_UNITS = ['strip', 'lancet', 'needle'];
+
+/**
+ * Parse diabetic supply SIGs into uses per day
+ *
+ * - Glucose testing ("test blood sugar 4 times daily") is counted in tests
+ * - Pen needles tied to injections ("use with each injection TID") are counted in injections
+ * - Explicit supplies ("use 1 strip QID") keep their unit
+ *
+ * Tests map to strips and lancets, and injections to pen needles, once the
+ * dispensed supply is known (see supplies-config).
+ *
+ * @param sig - Prescription SIG text
+ * @param unitOverride - Optional unit override from request
+ * @returns Parsing result in tests, injections or supplies, or null if not a supply SIG
+ */
+function parseSupplyDosing(sig: string, unitOverride?: string): ParsedSIGWithMetadata | null {
+  const doseUnit = extractDoseUnit(sig, unitOverride);
+  if (doseUnit && !SUPPLY_DOSE_UNITS.includes(doseUnit)) {
+    return null;
+  }
+
+  const isTesting = TESTING_SIG_PATTERN.test(sig);
+  const isInjectionUse = INJECTION_USE_PATTERN.test(sig);
+  if ((!doseUnit && !isTesting && !isInjectionUse) || extractNonDailySchedule(sig)) {
+    return null;
+  }
+
+  // "AC and HS" is four tests a day, not the once-daily "HS" - read an explicit frequency without the bedtime anchor first
+  const bedtime = sig.match(BEDTIME_PATTERN) !== null;
+  const frequency = extractFrequency(sig.replace(BEDTIME_PATTERN, ' '))
+    ?? (MEALS_PATTERN.test(sig) ? 3 + (bedtime ? 1 : 0) : null)
+    ?? (bedtime ? 1 : null);
+  if (!frequency) {
+    return null;
+  }
+
+  const unit = doseUnit ?? (isTesting ? 'test' : 'injection');
+  const quantity = doseUnit ? extractQuantityPerDose(sig)?.quantity ?? 1 : 1;
+  const perDay = quantity * frequency;
+  if (perDay <= 0 || perDay > 100) {
+    return null;
+  }
+
+  logInfo('Parsed supply use', {
+    sig: '[REDACTED]',
+    unit,
+    frequency,
+  });
+
+  return {
+    parsed: {
+      dose_unit: unit,
+      per_day: perDay,
+      confidence: 'parsed',
+      quantity_per_dose: quantity,
+    },
+    method: 'rules',
+    sub_method: 'supplies',
+    quantity_per_dose: quantity,
+    frequency,
+  };
+}
+
+/**
+ * Mass dose pattern ("500 mg", "0.5 g", "50 mcg", "250-500 mg")
+ */
+const MASS_DOSE_PATTERN = /\b(\d*\.?\d+)(?:\s*(?:-|to)\s*(\d*\.?\d+))?\s*(mg|milligrams?|mcg|ug|µg|micrograms?|g|gm|grams?)(?=\W|$)/i;
+
+/**
+ * Extract a dose written as a mass ("500 mg", "250-500 mg")
+ *
+ * Doses per kg are never an absolute mass ("15 mg/kg" is not 15 mg), and topical grams are cream, not drug.
+ *
+ * @returns Mass dose with its normalized unit, or null if the SIG has no absolute mass dose
+ */
+function extractMassDose(
+  sig: string,
+  rangePolicy: DoseRangePolicy
+): { quantity: number; unit: string; range?: { min: number; max: number } } | null {
+  if (WEIGHT_DOSE_PATTERN.test(sig) || TOPICAL_SIG_PATTERN.test(sig)) {
+    return null;
+  }
+
+  const massMatch = sig.match(MASS_DOSE_PATTERN);
+  if (!massMatch) {
+    return null;
+  }
+
+  const first = parseFloat(massMatch[1]);
+  const second = massMatch[2] ? parseFloat(massMatch[2]) : first;
+  const min = Math.min(first, second);
+  const max = Math.max(first, second);
+  return {
+    quantity: applyRangePolicy(min, max, rangePolicy),
+    unit: normalizeMassUnit(massMatch[3]),
+    ...(min !== max && { range: { min, max } }),
+  };
+}
+
+/**
+ * Parse strength-based doses written as a mass (e.g., "500 mg PO TID")
+ *
+ * The dose stays in its mass unit (mg, mcg, g); converting it into tablets, capsules
+ * or mL needs the product strength, which the compute handler resolves from FDA data.
+ * Only used when the SIG names no dispensable unit ("1 tab (500 mg)" is tablet-based).
+ *
+ * @param sig - Prescription SIG text
+ * @param rangePolicy - Which end of a dose range to use
+ * @returns Parsing result with a mass dose unit, or null if not a strength-based SIG
+ */
+function parseStrengthDosing(sig: string, rangePolicy: DoseRangePolicy = 'max'): ParsedSIGWithMetadata | null {
+  const massDose = extractDoseUnit(sig) ? null : extractMassDose(sig, rangePolicy);
+  if (!massDose) {
+    return null;
+  }
+
+  const doseUnit = massDose.unit;
+  const quantityPerDose = massDose.quantity;
+
+  const dosingSchedule = extractNonDailySchedule(sig);
+  const frequency = dosingSchedule
+    ? dosingSchedule.doses / dosingSchedule.period_days
+    : extractFrequency(sig);
+
+  if (!frequency || quantityPerDose <= 0) {
+    return null;
+  }
+
+  // Mass doses are not bound by the 100 units/day guard - cap at 100 g/day instead
+  const perDay = quantityPerDose * frequency;
+  if (convertToMg(perDay, doseUnit) > 100000) {
+    return null;
+  }
+
+  logInfo('Parsed strength-based dose', {
+    sig: '[REDACTED]',
+    doseUnit,
+    quantityPerDose,
+    frequency,
+  });
+
+  return {
+    parsed: {
+      dose_unit: doseUnit,
+      per_day: perDay,
+      confidence: 'parsed',
+      quantity_per_dose: quantityPerDose,
+      ...(dosingSchedule ? { dosing_schedule: dosingSchedule } : {}),
+    },
+    method: 'rules',
+    sub_method: 'strength-based',
+    quantity_per_dose: quantityPerDose,
+    frequency,
+    dosing_schedule: dosingSchedule ?? undefined,
+    dose_range: toDoseRange(massDose, rangePolicy),
+  };
+}
+
+/**
+ * Specialized SIG grammars, tried in order before time- and frequency-based parsing
+ * Both rule pipelines share this list so they always try the grammars in the same order.
+ */
+const SPECIALIZED_PARSERS: Array<
+  (sig: string, unitOverride: string | undefined, rangePolicy: DoseRangePolicy) => ParsedSIGWithMetadata | null
+> = [
+  // As-needed dosing uses the maximum daily use rather than a schedule
+  parsePRNDosing,
+  // Tapers/titrations are expressed as ordered phases
+  parseMultiPhaseDosing,
+  // Weekday-specific schedules (warfarin) vary the dose by day of week
+  parseWeekdayDosing,
+  // Cyclic regimens dose only on the "on" days of each cycle
+  parseCyclicDosing,
+  // Weight-based doses ("40 mg/kg/day") are resolved later with the patient weight
+  (sig, _unitOverride, rangePolicy) => parseWeightBasedDosing(sig, rangePolicy),
+  // Creams/ointments are estimated in grams per application
+  parseTopicalDosing,
+  // Patches worn for part of the day ("for 12 hours then remove")
+  parsePatchDosing,
+  // Diabetic supplies follow glucose tests or injections ("test blood sugar QID")
+  parseSupplyDosing,
+  // Doses written as a mass ("500 mg") are converted to dispensable units later using product strength
+  (sig, _unitOverride, rangePolicy) => parseStrengthDosing(sig, rangePolicy),
+];
+
+/**
+ * Run the specialized SIG grammars in order
+ *
+ * @returns Result of the first grammar that matches, or null if none do
+ */
+function parseSpecializedDosing(
+  sig: string,
+  unitOverride: string | undefined,
+  rangePolicy: DoseRangePolicy
+): ParsedSIGWithMetadata | null {
+  for (const parser of SPECIALIZED_PARSERS) {
+    const result = parser(sig, unitOverride, rangePolicy);
+    if (result) {
+      return result;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse SIG using rules-based approach
+ * 
+ * @param sig - Prescription SIG text
+ * @param unitOverride - Optional unit override from request
+ * @param rangePolicy - Which end of a dose range ("1-2 tabs") to use (default: max)
+ * @returns ParsedSIG or null if parsing fails
+ */
+export function parseWithRules(sig: string, unitOverride?: string, rangePolicy: DoseRangePolicy = 'max'): ParsedSIG | null {
+  if (!sig || typeof sig !== 'string' || sig.trim().length === 0) {
+    return null;
+  }
+
+  const normalizedSig = normalizeDoseQuantities(sig.trim());
+
+  // Specialized grammars (PRN, phases, weekdays, cycles, ...) take precedence
+  const specializedResult = parseSpecializedDosing(normalizedSig, unitOverride, rangePolicy);
+  if (specializedResult) {
+    return specializedResult.parsed;
+  }
+
+  // Next, try to detect time-based dosing patterns
+  const timeBasedResult = parseTimeBasedDosing(normalizedSig, unitOverride);
+  if (timeBasedResult) {
+    return timeBasedResult;
+  }
+
+  // Extract components for frequency-based parsing
+  // Non-daily schedules (QOD, weekly, monthly) yield a fractional doses-per-day frequency
+  const quantityData = extractQuantityPerDose(normalizedSig, rangePolicy);
+  const dosingSchedule = extractNonDailySchedule(normalizedSig);
+  const frequency = dosingSchedule
+    ? dosingSchedule.doses / dosingSchedule.period_days
+    : extractFrequency(normalizedSig);
+  const doseUnit = extractDoseUnit(normalizedSig, unitOverride);
+
+  // Validate required components
+  if (!frequency || !doseUnit || !quantityData) {
+    logWarn('SIG parsing failed - missing required components', {
+      sig: '[REDACTED]',
+      hasFrequency: !!frequency,
+      hasDoseUnit: !!doseUnit,
+      hasQuantityData: !!quantityData,
+    });
+    return null;
+  }
+
+  let quantityPerDose = quantityData.quantity;
+  
+  // Handle liquid unit conversions (e.g., teaspoons, tablespoons, oz to mL)
+  if (quantityData.unit && isLiquidUnit(quantityData.unit)) {
+    try {
+      // Convert to mL if it's a non-mL liquid unit
+      const normalizedQuantityUnit = quantityData.unit.toLowerCase().trim();
+      if (normalizedQuantityUnit !== 'ml' && normalizedQuantityUnit !== 'milliliter' && normalizedQuantityUnit !== 'milliliters') {
+        quantityPerDose = convertToML(quantityData.quantity, quantityData.unit);
+        logInfo('Converted liquid unit to mL', {
+          sig: '[REDACTED]',
+          originalQuantity: quantityData.quantity,
+          originalUnit: quantityData.unit,
+          convertedQuantity: quantityPerDose,
+        });
+      }
+    } catch (error) {
+      logWarn('Failed to convert liquid unit', {
+        sig: '[REDACTED]',
+        unit: quantityData.unit,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      // Continue with original quantity if conversion fails
+    }
+  }
+
+  // Calculate per_day (drops in both eyes/ears and sprays in each nostril count twice)
+  const applicationSites = getApplicationSites(normalizedSig, doseUnit);
+  const perDay = quantityPerDose * frequency * applicationSites;
+
+  // Validate per_day is reasonable
+  if (perDay <= 0 || perDay > 100) {
+    logWarn('SIG parsing failed - invalid per_day calculation', {
+      sig: '[REDACTED]',
+      perDay,
+    });
+    return null;
+  }
+
+  logInfo('SIG parsed successfully', {
+    sig: '[REDACTED]',
+    doseUnit,
+    perDay,
+    quantityPerDose,
+    frequency,
+    dosingSchedule: dosingSchedule?.label,
+  });
+
+  return {
+    dose_unit: doseUnit,
+    per_day: perDay,
+    confidence: 'parsed',
+    ...(dosingSchedule ? { quantity_per_dose: quantityPerDose, dosing_schedule: dosingSchedule } : {}),
+    ...(applicationSites > 1 && { application_sites: applicationSites }),
+  };
+}
+
+/**
+ * Parse with rules and return metadata for reasoning
+ */
+export function parseWithRulesWithMetadata(
+  sig: string,
+  unitOverride?: string,
+  rangePolicy: DoseRangePolicy = 'max'
+): ParsedSIGWithMetadata {
+  if (!sig || typeof sig !== 'string' || sig.trim().length === 0) {
+    return { parsed: null, method: 'failed' };
+  }
+
+  const normalizedSig = normalizeDoseQuantities(sig.trim());
+
+  // Specialized grammars (PRN, phases, weekdays, cycles, ...) take precedence
+  const specializedResult = parseSpecializedDosing(normalizedSig, unitOverride, rangePolicy);
+  if (specializedResult) {
+    return specializedResult;
+  }
+
+  // Next, try to detect time-based dosing patterns
+  const timeBasedResult = parseTimeBasedDosing(normalizedSig, unitOverride);
+  if (timeBasedResult) {
+    // For time-based dosing, we don't have separate quantity_per_dose and frequency
+    // Estimate frequency as the number of dosing times
+    const quantityPattern = /\b(\d+\.?\d*)\s+(tablet|tablets|tab|tabs|capsule|capsules|cap|caps|ml|milliliter|milliliters|teaspoon|teaspoons|tsp|tablespoon|tablespoons|tbsp|oz|ounce|ounces|puff|puffs|actuation|actuations|inhalation|inhalations|spray|sprays|drop|drops|gtt|gtts|patch|patches|pen|pens|syringe|syringes|vial|vials|unit|units)\b/gi;
+    const matches = Array.from(normalizedSig.toLowerCase().matchAll(quantityPattern));
+    const estimatedFrequency = matches.length >= 2 ? matches.length : 2; // Default to 2 if we can't count
+    
+    return {
+      parsed: timeBasedResult,
+      method: 'rules',
+      sub_method: 'time-based',
+      quantity_per_dose: timeBasedResult.per_day / estimatedFrequency, // Approximate
+      frequency: estimatedFrequency,
+    };
+  }
+
+  // Extract components for frequency-based parsing
+  // Non-daily schedules (QOD, weekly, monthly) yield a fractional doses-per-day frequency
+  const quantityData = extractQuantityPerDose(normalizedSig, rangePolicy);
+  const dosingSchedule = extractNonDailySchedule(normalizedSig);
+  const frequency = dosingSchedule
+    ? dosingSchedule.doses / dosingSchedule.period_days
+    : extractFrequency(normalizedSig);
+  const doseUnit = extractDoseUnit(normalizedSig, unitOverride);
+
+  // Validate required components
+  if (!frequency || !doseUnit || !quantityData) {
+    return { parsed: null, method: 'failed' };
+  }
+
+  // Report the interval when the frequency came from one (q6h, every 8 hours)
+  const interval = extractInterval(normalizedSig);
+  const intervalHours = interval && !dosingSchedule && frequency === 24 / interval.used ? interval : undefined;
+
+  let quantityPerDose = quantityData.quantity;
   let unitConversion: { from: string; to: string; original: number; converted: number } | undefined;
   
   // Handle liquid unit conversions (e.g., teaspoons, tablespoons, oz to mL)
@@ -466,8 +1892,9 @@ export function parseWithRulesWithMetadata(sig: string, unitOverride?: string):
     }
   }
 
-  // Calculate per_day
-  const perDay = quantityPerDose * frequency;
+  // Calculate per_day (drops in both eyes/ears and sprays in each nostril count twice)
+  const applicationSites = getApplicationSites(normalizedSig, doseUnit);
+  const perDay = quantityPerDose * frequency * applicationSites;
 
   // Validate per_day is reasonable
   if (perDay <= 0 || perDay > 100) {
@@ -479,11 +1906,16 @@ export function parseWithRulesWithMetadata(sig: string, unitOverride?: string):
       dose_unit: doseUnit,
       per_day: perDay,
       confidence: 'parsed',
+      ...(dosingSchedule ? { quantity_per_dose: quantityPerDose, dosing_schedule: dosingSchedule } : {}),
+      ...(applicationSites > 1 && { application_sites: applicationSites }),
     },
     method: 'rules',
-    sub_method: 'frequency-based',
+    sub_method: dosingSchedule ? 'non-daily' : 'frequency-based',
     quantity_per_dose: quantityPerDose,
     frequency: frequency,
+    interval_hours: intervalHours,
+    dosing_schedule: dosingSchedule ?? undefined,
+    dose_range: toDoseRange(quantityData, rangePolicy),
     unit_conversion: unitConversion,
   };
 }
@@ -715,14 +2147,19 @@ Return only valid JSON, no additional text.`;
  * 
  * @param sig - Prescription SIG text
  * @param unitOverride - Optional unit override from request
+ * @param rangePolicy - Which end of a dose range to use (default: max)
  * @returns ParsedSIG or null if parsing fails
  */
-export async function parseSIG(sig: string, unitOverride?: string): Promise<ParsedSIG | null> {
+export async function parseSIG(
+  sig: string,
+  unitOverride?: string,
+  rangePolicy: DoseRangePolicy = 'max'
+): Promise<ParsedSIG | null> {
   const timer = startTimer(METRICS.SIG_PARSE_DURATION);
   
   try {
     // Try rules-based parsing first
-    const result = parseWithRules(sig, unitOverride);
+    const result = parseWithRules(sig, unitOverride, rangePolicy);
     
     if (result) {
       timer.stop();
@@ -764,17 +2201,30 @@ export async function parseSIG(sig: string, unitOverride?: string): Promise<Pars
 /**
  * Parse SIG with metadata for reasoning
  */
-export async function parseSIGWithMetadata(sig: string, unitOverride?: string): Promise<ParsedSIGWithMetadata> {
+export async function parseSIGWithMetadata(
+  sig: string,
+  unitOverride?: string,
+  rangePolicy: DoseRangePolicy = 'max'
+): Promise<ParsedSIGWithMetadata> {
   const timer = startTimer(METRICS.SIG_PARSE_DURATION);
   
   try {
     // Try rules-based parsing first
-    const rulesResult = parseWithRulesWithMetadata(sig, unitOverride);
+    const rulesResult = parseWithRulesWithMetadata(sig, unitOverride, rangePolicy);
     
     if (rulesResult.parsed) {
       timer.stop();
       recordCounter(METRICS.SIG_PARSE_SUCCESS, 1, { method: 'rules' });
-      return rulesResult;
+      const tabletSplitting = detectTabletSplitting(sig, rulesResult.parsed.dose_unit);
+      return {
+        ...rulesResult,
+        ...(tabletSplitting && { tablet_splitting: tabletSplitting }),
+        structured: extractSIGStructure(sig, {
+          quantity_per_dose: rulesResult.quantity_per_dose,
+          dose_unit: rulesResult.parsed.dose_unit,
+          frequency: rulesResult.frequency,
+        }),
+      };
     }
 
     // Rules failed - try AI fallback if enabled
@@ -797,6 +2247,7 @@ export async function parseSIGWithMetadata(sig: string, unitOverride?: string):
           method: 'ai',
           quantity_per_dose: 1, // AI doesn't provide this, use default
           frequency: estimatedFrequency,
+          structured: extractSIGStructure(sig, { dose_unit: aiResult.dose_unit }),
         };
       }
       
@@ -0,0 +1,67 @@
+/**
+ * SIG Structure Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expandSIGAbbreviations, extractSIGStructure } from './sig-structure';
+
+describe('SIG Structure', () => {
+  describe('expandSIGAbbreviations', () => {
+    it('should expand Latin abbreviations', () => {
+      expect(expandSIGAbbreviations('1 tab PO QHS')).toBe('1 tab by mouth every night at bedtime');
+      expect(expandSIGAbbreviations('1 gtt OU BID')).toBe('1 gtt in both eyes twice daily');
+      expect(expandSIGAbbreviations('1 tab SL PRN chest pain')).toBe('1 tab under the tongue as needed chest pain');
+    });
+
+    it('should not expand abbreviations inside words', () => {
+      expect(expandSIGAbbreviations('Take with food')).toBe('Take with food');
+    });
+  });
+
+  describe('extractSIGStructure', () => {
+    it('should extract route, verb, duration and indication', () => {
+      const result = extractSIGStructure('Take 1 tab PO q6h prn for pain x 10 days');
+      expect(result.verb).toBe('take');
+      expect(result.route).toBe('oral');
+      expect(result.duration_days).toBe(10);
+      expect(result.indication).toBe('pain');
+      expect(result.prn).toBe(true);
+    });
+
+    it('should map eye abbreviations to route and site', () => {
+      const result = extractSIGStructure('Instill 1 drop OS TID');
+      expect(result.verb).toBe('instill');
+      expect(result.route).toBe('ophthalmic');
+      expect(result.site).toBe('left eye');
+    });
+
+    it('should collect timing anchors', () => {
+      expect(extractSIGStructure('1 tab PO QAM AC').timing).toEqual(['morning', 'before_meals']);
+      expect(extractSIGStructure('1 tab PO HS').timing).toEqual(['bedtime']);
+    });
+
+    it('should read antibiotic course durations', () => {
+      expect(extractSIGStructure('Take 1 cap PO TID x 10 days').duration_days).toBe(10);
+      expect(extractSIGStructure('1 tab BID x10d').duration_days).toBe(10);
+    });
+
+    it('should convert week durations to days', () => {
+      expect(extractSIGStructure('Apply to affected area BID for 2 weeks').duration_days).toBe(14);
+    });
+
+    it('should leave duration unset for multi-phase and cyclic SIGs', () => {
+      expect(extractSIGStructure('2 tabs daily x 3 days, then 1 tab daily x 3 days').duration_days).toBeNull();
+      expect(extractSIGStructure('1 cap daily for 21 days of a 28-day cycle').duration_days).toBeNull();
+      expect(extractSIGStructure('1 cap daily x 5 days in a 28 day cycle').duration_days).toBeNull();
+      expect(extractSIGStructure('1 tab daily for 5 days in a row').duration_days).toBe(5);
+    });
+
+    it('should carry dose details from the parse result', () => {
+      const result = extractSIGStructure('Take 2 caps BID', { quantity_per_dose: 2, dose_unit: 'cap', frequency: 2 });
+      expect(result.dose_quantity).toBe(2);
+      expect(result.dose_unit).toBe('cap');
+      expect(result.frequency_per_day).toBe(2);
+      expect(result.indication).toBeNull();
+    });
+  });
+});
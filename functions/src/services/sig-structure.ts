@@ -0,0 +1,199 @@
+/**
+ * SIG Structure Service
+ *
+ * This module extracts the non-quantity parts of a SIG into a structured object:
+ * administration verb, route, body site, duration, indication and timing anchors.
+ * Latin/pharmacy abbreviations (PO, SL, PR, OU, OD, OS, HS, AC, PC, QAM, QHS, PRN)
+ * are expanded through a shared dictionary so downstream systems get plain values.
+ */
+
+/**
+ * Administration route
+ */
+export type SIGRoute =
+  | 'oral'
+  | 'sublingual'
+  | 'rectal'
+  | 'ophthalmic'
+  | 'otic'
+  | 'nasal'
+  | 'inhalation'
+  | 'topical'
+  | 'transdermal'
+  | 'vaginal'
+  | 'subcutaneous'
+  | 'intramuscular'
+  | 'intravenous';
+
+/**
+ * Timing anchor tied to the day or to meals
+ */
+export type SIGTimingAnchor =
+  | 'morning'
+  | 'noon'
+  | 'evening'
+  | 'bedtime'
+  | 'before_meals'
+  | 'after_meals'
+  | 'with_meals'
+  | 'empty_stomach';
+
+/**
+ * Structured SIG
+ */
+export interface StructuredSIG {
+  verb: string | null; // Administration verb ("take", "inhale", "apply")
+  route: SIGRoute | null;
+  site: string | null; // Body site ("both eyes", "affected area")
+  duration_days: number | null; // Course length ("x 10 days"), null for multi-phase SIGs (see phases)
+  indication: string | null; // Reason for use ("pain")
+  timing: SIGTimingAnchor[];
+  prn: boolean;
+  dose_quantity: number | null; // Filled from the parse result when available
+  dose_unit: string | null;
+  frequency_per_day: number | null;
+  expanded_sig: string; // SIG with abbreviations expanded
+}
+
+/**
+ * Latin/pharmacy abbreviation dictionary
+ */
+const ABBREVIATIONS: Record<string, string> = {
+  'po': 'by mouth',
+  'sl': 'under the tongue',
+  'pr': 'rectally',
+  'ou': 'in both eyes',
+  'od': 'in the right eye',
+  'os': 'in the left eye',
+  'hs': 'at bedtime',
+  'qhs': 'every night at bedtime',
+  'qam': 'every morning',
+  'qpm': 'every evening',
+  'ac': 'before meals',
+  'pc': 'after meals',
+  'prn': 'as needed',
+  'qd': 'once daily',
+  'bid': 'twice daily',
+  'tid': 'three times daily',
+  'qid': 'four times daily',
+};
+
+const ABBREVIATION_PATTERN = new RegExp(`\\b(${Object.keys(ABBREVIATIONS).join('|')})\\b`, 'gi');
+
+/**
+ * Route patterns (checked against the expanded SIG, first match wins)
+ */
+const ROUTE_PATTERNS: Array<{ pattern: RegExp; route: SIGRoute }> = [
+  { pattern: /\b(under the tongue|sublingual(?:ly)?)\b/i, route: 'sublingual' },
+  { pattern: /\b(by mouth|orally|oral)\b/i, route: 'oral' },
+  { pattern: /\b(rectally|per rectum|suppository)\b/i, route: 'rectal' },
+  { pattern: /\b(eyes?|ophthalmic)\b/i, route: 'ophthalmic' },
+  { pattern: /\b(ears?|otic)\b/i, route: 'otic' },
+  { pattern: /\b(nostrils?|nasal(?:ly)?|intranasal(?:ly)?)\b/i, route: 'nasal' },
+  { pattern: /\b(inhale|inhalation|inhaled|puffs?|nebuliz\w*)\b/i, route: 'inhalation' },
+  { pattern: /\b(vaginal(?:ly)?)\b/i, route: 'vaginal' },
+  { pattern: /\b(transdermal|patch(?:es)?)\b/i, route: 'transdermal' },
+  { pattern: /\b(subcutaneous(?:ly)?|subq|subcut|sq|sc)\b/i, route: 'subcutaneous' },
+  { pattern: /\b(intramuscular(?:ly)?|im)\b/i, route: 'intramuscular' },
+  { pattern: /\b(intravenous(?:ly)?|iv)\b/i, route: 'intravenous' },
+  { pattern: /\b(topical(?:ly)?|apply|affected area|skin)\b/i, route: 'topical' },
+];
+
+const VERB_PATTERN = /\b(take|inhale|apply|instill|inject|insert|chew|dissolve|place|spray|use|give|administer|swallow|rub)\b/i;
+
+/**
+ * Body site patterns
+ */
+const SITE_PATTERN = /\b(?:in|into|to|on|onto)\s+(?:the\s+)?(both eyes|each eye|(?:left|right) eye|both ears|each ear|(?:left|right) ear|each nostril|both nostrils|(?:left|right) nostril|affected areas?|scalp|face|skin|chest|upper arm|thigh|abdomen)\b/i;
+
+/**
+ * Course duration ("x 10 days", "for 2 weeks") - not the on days of a cycle
+ * ("for 21 days of a 28-day cycle", "x 5 days in a 28 day cycle", "21 days on")
+ */
+const DURATION_PATTERN = /\b(?:x|for)\s*(\d+)\s*(days?|d|weeks?|wks?|months?)\b(?!\s*(?:of|out of|on)\b|\s*in\s+(?:an?|each|every)?\s*\d+[\s-]*days?\s*cycles?\b)/i;
+
+/**
+ * Indication ("for pain", "as needed for nausea") - stops at the next clause
+ */
+const INDICATION_PATTERN = /\bfor\s+(?!\d|a total\b|up to\b)([a-z][a-z\s'-]*?)\s*(?=[,.;(]|$|\b(?:x|then|max|maximum|not to exceed|do not|every|daily|twice|at|with|before|after|until)\b)/i;
+
+const TIMING_PATTERNS: Array<{ pattern: RegExp; anchor: SIGTimingAnchor }> = [
+  { pattern: /\b(morning|breakfast|am)\b/i, anchor: 'morning' },
+  { pattern: /\b(noon|lunch|midday)\b/i, anchor: 'noon' },
+  { pattern: /\b(evening|dinner|supper|pm)\b/i, anchor: 'evening' },
+  { pattern: /\b(bedtime|at night|nightly)\b/i, anchor: 'bedtime' },
+  { pattern: /\bbefore (?:meals|eating|food)\b/i, anchor: 'before_meals' },
+  { pattern: /\bafter (?:meals|eating|food)\b/i, anchor: 'after_meals' },
+  { pattern: /\bwith (?:meals|food)\b/i, anchor: 'with_meals' },
+  { pattern: /\bempty stomach\b/i, anchor: 'empty_stomach' },
+];
+
+/**
+ * Expand Latin/pharmacy abbreviations into plain English
+ *
+ * @param sig - Prescription SIG text
+ * @returns SIG with abbreviations replaced (e.g., "1 tab PO QHS" → "1 tab by mouth every night at bedtime")
+ */
+export function expandSIGAbbreviations(sig: string): string {
+  return sig.replace(ABBREVIATION_PATTERN, (match) => ABBREVIATIONS[match.toLowerCase()]);
+}
+
+/**
+ * Extract course duration in days, ignoring multi-phase SIGs whose durations belong to phases
+ */
+function extractDurationDays(sig: string): number | null {
+  if (/\bthen\b/i.test(sig)) {
+    return null;
+  }
+
+  const match = sig.match(DURATION_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseInt(match[1], 10);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('w')) {
+    return amount * 7;
+  }
+  if (unit.startsWith('month')) {
+    return amount * 30;
+  }
+  return amount;
+}
+
+/**
+ * Build a structured SIG from free text
+ *
+ * @param sig - Prescription SIG text
+ * @param dose - Optional dose details from the parse result
+ * @returns Structured SIG
+ */
+export function extractSIGStructure(
+  sig: string,
+  dose?: { quantity_per_dose?: number; dose_unit?: string; frequency?: number }
+): StructuredSIG {
+  const expanded = expandSIGAbbreviations(sig.trim());
+
+  const route = ROUTE_PATTERNS.find(({ pattern }) => pattern.test(expanded))?.route ?? null;
+  const verb = expanded.match(VERB_PATTERN)?.[1].toLowerCase() ?? null;
+  const site = expanded.match(SITE_PATTERN)?.[1].toLowerCase() ?? null;
+  const indication = expanded.match(INDICATION_PATTERN)?.[1].trim().toLowerCase() || null;
+  const timing = TIMING_PATTERNS
+    .filter(({ pattern }) => pattern.test(expanded))
+    .map(({ anchor }) => anchor);
+
+  return {
+    verb,
+    route,
+    site,
+    duration_days: extractDurationDays(expanded),
+    indication,
+    timing,
+    prn: /\b(as needed|as-needed|when needed|if needed|p\.r\.n\.?)(?=\W|$)/i.test(expanded),
+    dose_quantity: dose?.quantity_per_dose ?? null,
+    dose_unit: dose?.dose_unit ?? null,
+    frequency_per_day: dose?.frequency ?? null,
+    expanded_sig: expanded,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Strength Converter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertStrengthDose } from './strength-converter';
+import type { ParsedSIG } from './sig-parser';
+import type { NDCPackageData } from '../types/index';
+
+describe('Strength Converter', () => {
+  const amoxicillinPackages: NDCPackageData[] = [
+    { ndc: '00000000001', pkg_size: 30, active: true, dosage_form: 'CAPSULE', strength: { amount: 250, unit: 'mg', per_amount: 1, per_unit: null } },
+    { ndc: '00000000002', pkg_size: 30, active: true, dosage_form: 'CAPSULE', strength: { amount: 500, unit: 'mg', per_amount: 1, per_unit: null } },
+    { ndc: '00000000003', pkg_size: 100, active: true, dosage_form: 'FOR SUSPENSION', strength: { amount: 250, unit: 'mg', per_amount: 5, per_unit: 'mL' } },
+  ];
+
+  const massSIG: ParsedSIG = { dose_unit: 'mg', per_day: 1500, confidence: 'parsed', quantity_per_dose: 500 };
+
+  it('should prefer the solid strength with the fewest whole units per dose', () => {
+    const result = convertStrengthDose(massSIG, amoxicillinPackages);
+    expect(result?.parsed.dose_unit).toBe('cap');
+    expect(result?.parsed.per_day).toBe(3);
+    expect(result?.packages.map((pkg) => pkg.ndc)).toEqual(['00000000002']);
+    expect(result?.conversion).toEqual({ from: 'mg', to: 'cap', original: 500, converted: 1, strength: '500 mg/cap' });
+  });
+
+  it('should fall back to a liquid strength when no solid gives whole units', () => {
+    const doseSIG: ParsedSIG = { dose_unit: 'mg', per_day: 600, confidence: 'parsed', quantity_per_dose: 200 };
+    const result = convertStrengthDose(doseSIG, amoxicillinPackages);
+    expect(result?.parsed.dose_unit).toBe('mL');
+    expect(result?.conversion.converted).toBe(4); // 200 mg ÷ 250 mg/5 mL
+    expect(result?.parsed.per_day).toBe(12);
+  });
+
+  it('should convert weekday schedules using a strength that gives whole tablets every day', () => {
+    const warfarin: NDCPackageData[] = [
+      { ndc: '00000000008', pkg_size: 30, active: true, dosage_form: 'TABLET', strength: { amount: 5, unit: 'mg', per_amount: 1, per_unit: null } },
+      { ndc: '00000000009', pkg_size: 30, active: true, dosage_form: 'TABLET', strength: { amount: 2.5, unit: 'mg', per_amount: 1, per_unit: null } },
+    ];
+    const weekdaySIG: ParsedSIG = {
+      dose_unit: 'mg',
+      per_day: 25 / 7,
+      confidence: 'parsed',
+      weekday_schedule: [5, 2.5, 5, 2.5, 5, 2.5, 2.5],
+    };
+    // "5 mg Mon/Wed/Fri, 2.5 mg all other days": 5 mg tablets would need halves on four days
+    const result = convertStrengthDose({ ...weekdaySIG, quantity_per_dose: 5 }, warfarin);
+    expect(result?.packages.map((pkg) => pkg.ndc)).toEqual(['00000000009']);
+    expect(result?.parsed.weekday_schedule).toEqual([2, 1, 2, 1, 2, 1, 1]);
+    expect(result?.parsed.per_day).toBeCloseTo(10 / 7);
+  });
+
+  it('should convert grams and micrograms', () => {
+    const gramSIG: ParsedSIG = { dose_unit: 'g', per_day: 1, confidence: 'parsed', quantity_per_dose: 0.5 };
+    expect(convertStrengthDose(gramSIG, amoxicillinPackages)?.parsed.per_day).toBe(2);
+
+    const levothyroxine: NDCPackageData[] = [
+      { ndc: '00000000004', pkg_size: 90, active: true, dosage_form: 'TABLET', strength: { amount: 50, unit: 'mcg', per_amount: 1, per_unit: null } },
+    ];
+    const mcgSIG: ParsedSIG = { dose_unit: 'mcg', per_day: 100, confidence: 'parsed', quantity_per_dose: 100 };
+    expect(convertStrengthDose(mcgSIG, levothyroxine)?.parsed).toMatchObject({ dose_unit: 'tab', per_day: 2 });
+  });
+
+  it('should use an explicit concentration and keep matching packages', () => {
+    const concentration = { amount: 50, unit: 'mg' as const, per_amount: 1, per_unit: 'mL' as const };
+    const result = convertStrengthDose(massSIG, amoxicillinPackages, concentration);
+    expect(result?.parsed.dose_unit).toBe('mL');
+    expect(result?.parsed.per_day).toBe(30); // 1500 mg ÷ 50 mg/mL
+    expect(result?.packages.map((pkg) => pkg.ndc)).toEqual(['00000000003']);
+    expect(result?.conversion.strength).toBe('50 mg/1 mL');
+  });
+
+  it('should list distinct liquid concentrations', () => {
+    const packages: NDCPackageData[] = [
+      ...amoxicillinPackages,
+      { ndc: '00000000006', pkg_size: 100, active: true, dosage_form: 'FOR SUSPENSION', strength: { amount: 400, unit: 'mg', per_amount: 5, per_unit: 'mL' } },
+      { ndc: '00000000007', pkg_size: 150, active: true, dosage_form: 'FOR SUSPENSION', strength: { amount: 50, unit: 'mg', per_amount: 1, per_unit: 'mL' } },
+    ];
+    const doseSIG: ParsedSIG = { dose_unit: 'mg', per_day: 600, confidence: 'parsed', quantity_per_dose: 200 };
+    expect(convertStrengthDose(doseSIG, packages)?.concentrations).toEqual(['250 mg/5 mL', '400 mg/5 mL']);
+  });
+
+  it('should return null when no package has a usable strength', () => {
+    const packages: NDCPackageData[] = [{ ndc: '00000000005', pkg_size: 30, active: true, dosage_form: 'TABLET' }];
+    expect(convertStrengthDose(massSIG, packages)).toBeNull();
+    expect(convertStrengthDose({ ...massSIG, dose_unit: 'tab' }, amoxicillinPackages)).toBeNull();
+  });
+});
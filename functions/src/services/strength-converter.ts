@@ -0,0 +1,206 @@
+/**
+ * Strength Converter Service
+ *
+ * This module converts doses written as a mass ("500 mg", "0.5 g") into dispensable
+ * units (tablets, capsules, mL) using the product strength from FDA active-ingredient data.
+ *
+ * Strength selection when several products are available:
+ * 1. An explicit liquid concentration from the request (e.g., "250 mg/5 mL")
+ * 2. Solids where the dose is a whole number of units (fewest units per dose wins)
+ * 3. Liquids (any volume can be measured)
+ * 4. Solids where the dose is a half unit (requires splitting)
+ */
+
+import { logInfo } from '../utils/logger';
+import {
+  convertToMg,
+  convertMassToVolume,
+  formatConcentration,
+  isMassUnit,
+  isSameConcentration,
+} from '../utils/unit-conversions';
+import type { ParsedSIG } from './sig-parser';
+import type { NDCPackageData, ProductStrength } from '../types/index';
+
+/**
+ * Result of converting a mass dose with a product strength
+ */
+export interface StrengthConversionResult {
+  parsed: ParsedSIG; // ParsedSIG with a dispensable dose unit
+  packages: NDCPackageData[]; // Packages matching the selected strength
+  conversion: { from: string; to: string; original: number; converted: number; strength: string };
+  concentrations: string[]; // Distinct liquid concentrations among active packages (more than one warrants a warning)
+}
+
+/**
+ * Map an FDA dosage form to a dispensable solid unit
+ */
+function solidUnitForDosageForm(dosageForm?: string): 'tab' | 'cap' | null {
+  const form = (dosageForm || '').toUpperCase();
+  if (form.includes('TABLET')) {
+    return 'tab';
+  }
+  if (form.includes('CAPSULE')) {
+    return 'cap';
+  }
+  return null;
+}
+
+/**
+ * Format a product strength for display (e.g., "250 mg/5 mL")
+ */
+function formatStrength(strength: ProductStrength, doseUnit: string): string {
+  return strength.per_unit === 'mL'
+    ? formatConcentration(strength)
+    : `${strength.amount} ${strength.unit}/${doseUnit}`;
+}
+
+/**
+ * Build a key identifying products with the same strength and dispensable unit
+ */
+function strengthKey(strength: ProductStrength, doseUnit: string): string {
+  return `${strength.amount}|${strength.unit}|${strength.per_amount}|${strength.per_unit ?? ''}|${doseUnit}`;
+}
+
+/**
+ * Convert a mass dose into dispensable units using product strength
+ *
+ * @param parsedSIG - Parsed SIG with a mass dose unit (mg, mcg, g)
+ * @param packages - Available packages (only active packages with a strength are considered)
+ * @param concentration - Optional explicit liquid concentration (overrides package strengths)
+ * @returns Converted SIG and matching packages, or null if no usable strength is available
+ */
+export function convertStrengthDose(
+  parsedSIG: ParsedSIG,
+  packages: NDCPackageData[],
+  concentration?: ProductStrength
+): StrengthConversionResult | null {
+  if (!isMassUnit(parsedSIG.dose_unit)) {
+    return null;
+  }
+
+  const dosePerAdministration = parsedSIG.quantity_per_dose ?? parsedSIG.per_day;
+  const doseMg = convertToMg(dosePerAdministration, parsedSIG.dose_unit);
+
+  // Distinct liquid concentrations of this drug (e.g., 125 mg/5 mL and 250 mg/5 mL)
+  const liquidStrengths: ProductStrength[] = [];
+  for (const pkg of packages) {
+    if (pkg.active && pkg.strength?.per_unit === 'mL' && !liquidStrengths.some((known) => isSameConcentration(known, pkg.strength!))) {
+      liquidStrengths.push(pkg.strength);
+    }
+  }
+  const concentrations = liquidStrengths.map(formatConcentration);
+
+  // An explicit concentration wins over package strengths
+  if (concentration) {
+    const unitsPerDose = convertMassToVolume(dosePerAdministration, parsedSIG.dose_unit, concentration);
+    const matchingPackages = packages.filter(
+      (pkg) => pkg.strength?.per_unit === 'mL' && isSameConcentration(pkg.strength, concentration)
+    );
+    return buildResult(
+      parsedSIG,
+      'mL',
+      unitsPerDose,
+      formatConcentration(concentration),
+      matchingPackages.length > 0 ? matchingPackages : packages,
+      concentrations
+    );
+  }
+
+  // Group active packages by strength and dispensable unit
+  const candidates = new Map<string, { strength: ProductStrength; doseUnit: string; unitsPerDose: number; packages: NDCPackageData[] }>();
+  for (const pkg of packages) {
+    if (!pkg.active || !pkg.strength) {
+      continue;
+    }
+    const doseUnit = pkg.strength.per_unit === 'mL' ? 'mL' : solidUnitForDosageForm(pkg.dosage_form);
+    if (!doseUnit) {
+      continue;
+    }
+
+    const key = strengthKey(pkg.strength, doseUnit);
+    const existing = candidates.get(key);
+    if (existing) {
+      existing.packages.push(pkg);
+      continue;
+    }
+
+    const strengthMg = convertToMg(pkg.strength.amount, pkg.strength.unit);
+    candidates.set(key, {
+      strength: pkg.strength,
+      doseUnit,
+      unitsPerDose: (doseMg / strengthMg) * pkg.strength.per_amount,
+      packages: [pkg],
+    });
+  }
+
+  // Small epsilon guards against floating point error (e.g., 0.5 g / 500 mg)
+  // Weekday schedules ("5 mg Mon/Wed/Fri, 2.5 mg all other days") check every dose of the week
+  const isWhole = (value: number) => Math.abs(value - Math.round(value)) < 1e-9;
+  const doseRatios = parsedSIG.weekday_schedule
+    ? parsedSIG.weekday_schedule.filter((dose) => dose > 0).map((dose) => dose / dosePerAdministration)
+    : [1];
+  const allDoses = (option: { unitsPerDose: number }, test: (units: number) => boolean) =>
+    doseRatios.every((ratio) => test(option.unitsPerDose * ratio));
+  const options = Array.from(candidates.values());
+  const solids = options.filter((option) => option.doseUnit !== 'mL').sort((a, b) => a.unitsPerDose - b.unitsPerDose);
+  const selected =
+    solids.find((option) => allDoses(option, (units) => isWhole(units) && units >= 1)) ??
+    options.find((option) => option.doseUnit === 'mL') ??
+    solids.find((option) => allDoses(option, (units) => isWhole(units * 2) && units >= 0.5));
+
+  if (!selected) {
+    return null;
+  }
+
+  return buildResult(
+    parsedSIG,
+    selected.doseUnit,
+    selected.unitsPerDose,
+    formatStrength(selected.strength, selected.doseUnit),
+    selected.packages,
+    concentrations
+  );
+}
+
+/**
+ * Build the converted SIG and conversion record for the selected strength
+ */
+function buildResult(
+  parsedSIG: ParsedSIG,
+  doseUnit: string,
+  unitsPerDose: number,
+  strength: string,
+  packages: NDCPackageData[],
+  concentrations: string[]
+): StrengthConversionResult {
+  const dosePerAdministration = parsedSIG.quantity_per_dose ?? parsedSIG.per_day;
+  const factor = unitsPerDose / dosePerAdministration;
+  const converted: ParsedSIG = {
+    ...parsedSIG,
+    dose_unit: doseUnit,
+    per_day: parsedSIG.per_day * factor,
+    ...(parsedSIG.quantity_per_dose !== undefined && { quantity_per_dose: unitsPerDose }),
+    ...(parsedSIG.weekday_schedule && { weekday_schedule: parsedSIG.weekday_schedule.map((dose) => dose * factor) }),
+  };
+
+  logInfo('Converted mass dose using product strength', {
+    from: parsedSIG.dose_unit,
+    to: doseUnit,
+    strength,
+    unitsPerDose,
+  });
+
+  return {
+    parsed: converted,
+    packages,
+    conversion: {
+      from: parsedSIG.dose_unit,
+      to: doseUnit,
+      original: dosePerAdministration,
+      converted: unitsPerDose,
+      strength,
+    },
+    concentrations,
+  };
+}
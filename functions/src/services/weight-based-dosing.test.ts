@@ -0,0 +1,67 @@
+/**
+ * Weight-Based Dosing Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyPatientWeight, roundToMeasurableDose } from './weight-based-dosing';
+import { ValidationError } from '../utils/errors';
+import type { ParsedSIG } from './sig-parser';
+
+describe('Weight-Based Dosing', () => {
+  const perKgSIG: ParsedSIG = {
+    dose_unit: 'mg',
+    per_day: 40,
+    confidence: 'parsed',
+    quantity_per_dose: 20,
+    weight_based: { amount_per_kg: 40, unit: 'mg', basis: 'day', doses_per_day: 2 },
+  };
+
+  describe('applyPatientWeight', () => {
+    it('should multiply the per-kg dose by the weight', () => {
+      const result = applyPatientWeight(perKgSIG, { value: 15, unit: 'kg' });
+      expect(result.parsed).toEqual({ dose_unit: 'mg', per_day: 600, confidence: 'parsed', quantity_per_dose: 300 });
+      expect(result.calculation.weight_kg).toBe(15);
+      expect(result.calculation.per_dose).toBe(300);
+    });
+
+    it('should convert pounds to kg', () => {
+      const result = applyPatientWeight(perKgSIG, { value: 22, unit: 'lb' });
+      expect(result.calculation.weight_kg).toBeCloseTo(9.979, 3);
+      expect(result.parsed.per_day).toBeCloseTo(399.16, 2);
+    });
+
+    it('should multiply per-dose amounts by doses per day', () => {
+      const perDoseSIG: ParsedSIG = {
+        dose_unit: 'mg',
+        per_day: 60,
+        confidence: 'parsed',
+        quantity_per_dose: 15,
+        weight_based: { amount_per_kg: 15, unit: 'mg', basis: 'dose', doses_per_day: 4 },
+      };
+      const result = applyPatientWeight(perDoseSIG, { value: 10, unit: 'kg' });
+      expect(result.parsed.quantity_per_dose).toBe(150);
+      expect(result.parsed.per_day).toBe(600);
+    });
+
+    it('should require the patient weight', () => {
+      expect(() => applyPatientWeight(perKgSIG, undefined)).toThrow(ValidationError);
+    });
+  });
+
+  describe('roundToMeasurableDose', () => {
+    it('should round each dose to a syringe increment and recompute the daily volume', () => {
+      const result = roundToMeasurableDose({ dose_unit: 'mL', per_day: 7.98, confidence: 'parsed', quantity_per_dose: 3.99 });
+      expect(result?.parsed.quantity_per_dose).toBe(4);
+      expect(result?.parsed.per_day).toBe(8);
+      expect(result?.rounding).toEqual({ before: 3.99, after: 4, increment: 0.1 });
+    });
+
+    it('should use finer increments for small volumes', () => {
+      expect(roundToMeasurableDose({ dose_unit: 'mL', per_day: 1.44, confidence: 'parsed', quantity_per_dose: 0.72 })?.parsed.quantity_per_dose).toBe(0.7);
+    });
+
+    it('should skip non-liquid doses', () => {
+      expect(roundToMeasurableDose({ dose_unit: 'tab', per_day: 2, confidence: 'parsed', quantity_per_dose: 1 })).toBeNull();
+    });
+  });
+});
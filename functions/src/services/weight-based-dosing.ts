@@ -0,0 +1,128 @@
+/**
+ * Weight-Based Dosing Service
+ *
+ * This module resolves weight-based SIGs ("40 mg/kg/day divided BID") for a patient:
+ * 1. Convert the patient weight to kg
+ * 2. Multiply the per-kg dose by the weight to get per-dose and per-day mass
+ * 3. After conversion to mL, round each dose to a volume measurable with an oral syringe
+ */
+
+import { logInfo } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { convertWeightToKg, roundMeasurableVolume } from '../utils/unit-conversions';
+import type { ParsedSIG } from './sig-parser';
+
+/**
+ * Weight math for reasoning
+ */
+export interface WeightCalculationDetails {
+  weight: { value: number; unit: 'kg' | 'lb' };
+  weight_kg: number;
+  amount_per_kg: number;
+  basis: 'day' | 'dose';
+  doses_per_day: number;
+  per_dose: number; // Mass per dose (in unit)
+  per_day: number; // Mass per day (in unit)
+  unit: string;
+}
+
+/**
+ * Measurable-volume rounding of a single liquid dose for reasoning
+ */
+export interface MeasurableDoseRounding {
+  before: number; // mL per dose before rounding
+  after: number; // mL per dose after rounding
+  increment: number; // Syringe increment used (mL)
+}
+
+/**
+ * Apply the patient weight to a weight-based SIG
+ *
+ * @param parsedSIG - Parsed SIG with weight_based details (per kg amounts)
+ * @param weight - Patient weight from the request
+ * @returns Mass-based ParsedSIG and the weight math
+ * @throws ValidationError if the weight is missing or not positive
+ */
+export function applyPatientWeight(
+  parsedSIG: ParsedSIG,
+  weight: { value: number; unit: 'kg' | 'lb' } | undefined
+): { parsed: ParsedSIG; calculation: WeightCalculationDetails } {
+  const weightBased = parsedSIG.weight_based;
+  if (!weightBased) {
+    throw new ValidationError('Invalid parsedSIG: not a weight-based dose');
+  }
+
+  if (!weight || !(weight.value > 0)) {
+    throw new ValidationError('patient_weight is required for weight-based (mg/kg) directions', [
+      { field: 'patient_weight', message: 'patient_weight is required when the SIG is dosed per kg' },
+    ]);
+  }
+
+  const weightKg = convertWeightToKg(weight.value, weight.unit);
+  const perDayPerKg = weightBased.basis === 'day'
+    ? weightBased.amount_per_kg
+    : weightBased.amount_per_kg * weightBased.doses_per_day;
+  const perDay = perDayPerKg * weightKg;
+  const perDose = perDay / weightBased.doses_per_day;
+
+  logInfo('Applied patient weight to weight-based dose', {
+    weightKg,
+    amountPerKg: weightBased.amount_per_kg,
+    basis: weightBased.basis,
+    perDose,
+    perDay,
+  });
+
+  // The dose is absolute from here on - drop the per-kg details
+  const parsed: ParsedSIG = {
+    ...parsedSIG,
+    dose_unit: weightBased.unit,
+    per_day: perDay,
+    quantity_per_dose: perDose,
+  };
+  delete parsed.weight_based;
+
+  return {
+    parsed,
+    calculation: {
+      weight,
+      weight_kg: weightKg,
+      amount_per_kg: weightBased.amount_per_kg,
+      basis: weightBased.basis,
+      doses_per_day: weightBased.doses_per_day,
+      per_dose: perDose,
+      per_day: perDay,
+      unit: weightBased.unit,
+    },
+  };
+}
+
+/**
+ * Round each liquid dose to a measurable volume and recompute the daily volume
+ *
+ * @param parsedSIG - Parsed SIG in mL with quantity_per_dose
+ * @returns Rounded ParsedSIG and rounding details, or null if the dose is not a liquid dose
+ */
+export function roundToMeasurableDose(
+  parsedSIG: ParsedSIG
+): { parsed: ParsedSIG; rounding: MeasurableDoseRounding } | null {
+  if (parsedSIG.dose_unit !== 'mL' || !parsedSIG.quantity_per_dose) {
+    return null;
+  }
+
+  const dosesPerDay = parsedSIG.per_day / parsedSIG.quantity_per_dose;
+  const { volume, increment } = roundMeasurableVolume(parsedSIG.quantity_per_dose);
+
+  return {
+    parsed: {
+      ...parsedSIG,
+      quantity_per_dose: volume,
+      per_day: volume * dosesPerDay,
+    },
+    rounding: {
+      before: parsedSIG.quantity_per_dose,
+      after: volume,
+      increment,
+    },
+  };
+}
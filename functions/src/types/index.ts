@@ -13,6 +13,12 @@
  * @property days_supply - Days of medication supply, 1-365
  * @property preferred_ndcs - Optional array of preferred NDCs for ranking bias, max 10 NDCs
  * @property quantity_unit_override - Optional override unit type
+ * @property range_policy - Which end of a dose range ("1-2 tabs") to use for quantity, defaults to 'max'
+ * @property duration_policy - Whether a SIG duration ("x 10 days") or days_supply wins when they disagree, defaults to 'sig'
+ * @property concentration - Optional liquid concentration (e.g., "250 mg/5 mL") used to convert mg doses into mL
+ * @property patient_weight - Optional patient weight, required for weight-based (mg/kg) SIGs
+ * @property dosing_mode - 'weight_based' requires an mg/kg SIG, defaults to 'standard' (mg/kg SIGs are still detected)
+ * @property include_supplies - Suggest companion supplies (pen needles) when the drug is an insulin pen
  */
 export type ComputeRequest = {
   drug_input: string;
@@ -20,12 +26,18 @@ export type ComputeRequest = {
   days_supply: number;
   preferred_ndcs?: string[];
   quantity_unit_override?: 'tab' | 'cap' | 'mL' | 'actuation' | 'unit';
+  range_policy?: 'max' | 'min' | 'average';
+  duration_policy?: 'sig' | 'days_supply';
+  concentration?: string;
+  patient_weight?: { value: number; unit: 'kg' | 'lb' };
+  dosing_mode?: 'standard' | 'weight_based';
+  include_supplies?: boolean;
 };
 
 /**
  * Dosage form type
  */
-export type DosageFormType = 'inhaler' | 'insulin' | 'liquid' | 'solid';
+export type DosageFormType = 'inhaler' | 'nasal_spray' | 'insulin' | 'drops' | 'topical' | 'patch' | 'injectable' | 'supplies' | 'liquid' | 'solid';
 
 /**
  * Response payload from the compute API endpoint
@@ -33,17 +45,29 @@ export type DosageFormType = 'inhaler' | 'insulin' | 'liquid' | 'solid';
  * @property rxnorm - Normalized RxNorm data
  * @property computed - Calculated quantities
  * @property ndc_selection - Chosen package and alternates
+ * @property companion_supplies - Optional suggested supplies (pen needles for insulin pens)
  * @property flags - Warnings and status flags
  * @property reasoning - Optional detailed reasoning data showing step-by-step logic
  */
 export type ComputeResponse = {
   rxnorm: { rxcui: string; name: string };
-  computed: { dose_unit: string; per_day: number; total_qty: number; days_supply: number };
+  computed: { dose_unit: string; per_day: number; total_qty: number; days_supply: number; calendar_days?: number; dosing_days?: number }; // calendar_days/dosing_days present for cyclic regimens
   ndc_selection: {
     chosen?: { ndc: string; pkg_size: number; active: boolean; overfill: number; packs: number };
     alternates: { ndc: string; pkg_size: number; active: boolean; overfill: number; packs: number }[];
   };
-  flags: { inactive_ndcs: string[]; mismatch: boolean; notes?: string[]; error_code?: string | null };
+  companion_supplies?: Array<{ supply: 'test_strip' | 'lancet' | 'pen_needle'; unit: string; quantity: number; box_size: number; boxes: number; basis: string }>; // Present when include_supplies is set for an insulin pen
+  flags: {
+    inactive_ndcs: string[];
+    mismatch: boolean;
+    notes?: string[];
+    error_code?: string | null;
+    prn?: boolean;
+    days_supply_conflict?: { sig_days: number; days_supply: number; source: 'phases' | 'duration'; applied: 'sig' | 'days_supply' }; // SIG schedule length differs from days_supply
+    multiple_concentrations?: string[]; // Several liquid concentrations of the drug exist - confirm the dispensed one
+    beyond_use_exceeded?: { beyond_use_days: number; days_supply: number; bottles: number }; // Reconstituted suspension outlasts its beyond-use date - fill split into bottles
+    dose_pack_mismatch?: { pack_units: number; sig_quantity: number; packs: number; course_days?: number; sig_days?: number }; // SIG quantity or days do not match whole dose packs - dispensed in whole packs
+  };
   reasoning?: {
     api_calls: {
       rxnorm?: { rxcui: string | null; name: string | null; ndcs: string[]; failed: boolean };
@@ -53,17 +77,69 @@ export type ComputeResponse = {
     sig_parsing: {
       original_sig: string;
       method: 'rules' | 'ai' | 'failed';
-      sub_method?: 'time-based' | 'frequency-based'; // Sub-method for rules-based parsing
+      sub_method?: 'time-based' | 'frequency-based' | 'prn' | 'multi-phase' | 'non-daily' | 'weekday' | 'cyclic' | 'strength-based' | 'weight-based' | 'topical' | 'patch' | 'supplies'; // Sub-method for rules-based parsing
       parsed: { dose_unit: string; per_day: number; quantity_per_dose: number; frequency: number } | null;
-      unit_conversion?: { from: string; to: string; original: number; converted: number };
+      interval_hours?: { min: number; max: number; used: number }; // Hourly interval the frequency was derived from (q6h, q4-6h)
+      prn?: { basis: 'max_daily_dose' | 'max_scheduled_frequency'; max_per_day: number; assumption: string }; // As-needed dosing assumption
+      phases?: Array<{ quantity_per_dose: number; frequency: number; per_day: number; duration_days: number | null }>; // Taper/titration phases
+      dosing_schedule?: { doses: number; period_days: number; label: string }; // Non-daily schedule (QOD, weekly, monthly)
+      weekday_schedule?: number[]; // Quantity per weekday, Monday first
+      cycle?: { days_on: number; days_off: number }; // On/off cycle - per_day applies to dosing days
+      topical?: { basis: 'explicit' | 'fingertip_units' | 'body_area' | 'default'; grams_per_application: number; fingertip_units?: number; areas?: string[]; assumption?: string }; // Grams per application for creams/ointments
+      wear_hours?: number; // Patches: hours each patch is worn before removal
+      application_sites?: number; // Drops/nasal sprays: eyes, ears or nostrils dosed per administration (OU, each nostril = 2)
+      tablet_splitting?: { doses: number[]; assumption: string }; // Fractional tablet doses that require splitting
+      dose_range?: { min: number; max: number; policy: 'max' | 'min' | 'average'; used: number }; // Dose range and the policy applied
+      structured?: {
+        verb: string | null;
+        route: string | null;
+        site: string | null;
+        duration_days: number | null;
+        indication: string | null;
+        timing: string[];
+        prn: boolean;
+        dose_quantity: number | null;
+        dose_unit: string | null;
+        frequency_per_day: number | null;
+        expanded_sig: string;
+      }; // Structured SIG (route, verb, site, duration, indication, timing anchors)
+      unit_conversion?: { from: string; to: string; original: number; converted: number; strength?: string }; // strength present for mass doses converted via product strength
+      weight_based_dosing?: {
+        weight: { value: number; unit: 'kg' | 'lb' };
+        weight_kg: number;
+        amount_per_kg: number;
+        basis: 'day' | 'dose';
+        doses_per_day: number;
+        per_dose: number;
+        per_day: number;
+        unit: string;
+        measurable_dose?: { before: number; after: number; increment: number }; // Per-dose mL rounded to an oral syringe increment
+      }; // Weight math for mg/kg SIGs
+      injectable_device?: {
+        device: 'pen' | 'syringe' | 'vial';
+        dose_mg: number;
+        devices_per_dose: number;
+        doses_per_device: number;
+        capacity: string;
+        dose_volume_ml?: number;
+      }; // Device math for pens/prefilled syringes/vials dosed in mg
     };
     dosage_form: {
       detected: DosageFormType;
       method: string;
       matched_keywords?: string[];
+      device_type?: 'mdi' | 'blister_dpi' | 'capsule_dpi'; // Inhalers: metered-dose, blister or capsule dry-powder device
     };
     quantity_calculation: {
       base_calculation: { per_day: number; days_supply: number; total_qty: number };
+      phase_schedule?: {
+        phases: Array<{ per_day: number; days: number; quantity: number; open_ended: boolean }>;
+        schedule_days: number;
+        days_supply_mismatch: boolean;
+      };
+      dose_schedule?: { label: string; doses_per_period: number; period_days: number; quantity_per_dose: number; dose_count: number };
+      weekday_schedule?: { weekly_total: number; full_weeks: number; remainder_days: number; remainder_qty: number; assumption?: string };
+      cycle_schedule?: { days_on: number; days_off: number; cycle_length: number; cycles: number; calendar_days: number; dosing_days: number };
       rounding: {
         applied: boolean;
         rule: string;
@@ -139,6 +215,9 @@ export type ErrorResponse = {
  * @property active - Active status (true if active, false if inactive)
  * @property dosage_form - Dosage form (e.g., "TABLET", "CAPSULE", "LIQUID")
  * @property brand_name - Brand name (optional)
+ * @property strength - Single-ingredient product strength from FDA active_ingredients (optional)
+ * @property units_per_ml - Insulin concentration from FDA active_ingredients (optional)
+ * @property route - FDA routes of administration, e.g. ["NASAL"] or ["RESPIRATORY (INHALATION)"] (optional)
  */
 export type NDCPackageData = {
   ndc: string;
@@ -147,5 +226,23 @@ export type NDCPackageData = {
   dosage_form?: string;
   brand_name?: string;
   package_description?: string; // Store package description for pen/vial detection
+  strength?: ProductStrength;
+  units_per_ml?: number;
+  route?: string[];
+};
+
+/**
+ * Product strength (e.g., "500 mg/1" = 500 mg per tablet, "250 mg/5mL" = 250 mg per 5 mL)
+ * 
+ * @property amount - Active ingredient amount
+ * @property unit - Mass unit of the amount
+ * @property per_amount - Quantity the amount is contained in
+ * @property per_unit - 'mL' for liquids, null for one solid dosage unit (tablet/capsule)
+ */
+export type ProductStrength = {
+  amount: number;
+  unit: 'mg' | 'mcg' | 'g';
+  per_amount: number;
+  per_unit: 'mL' | null;
 };
 
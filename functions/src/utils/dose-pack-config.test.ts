@@ -0,0 +1,67 @@
+/**
+ * Dose Pack Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDosePackCourses,
+  parseDosePack,
+  chooseDosePack,
+  toDosePackPackages,
+} from './dose-pack-config';
+
+const zPak = { ndc: '00000000001', pkg_size: 6, active: true, package_description: '3 BLISTER PACK in 1 CARTON > 6 TABLET, FILM COATED in 1 BLISTER PACK' };
+const medrolPack = { ndc: '00000000002', pkg_size: 21, active: true, package_description: '21 TABLET in 1 DOSE PACK' };
+const bottle = { ndc: '00000000003', pkg_size: 30, active: true, package_description: '30 TABLET in 1 BOTTLE' };
+
+describe('getDosePackCourses', () => {
+  it('should look up courses by drug name', () => {
+    expect(getDosePackCourses('azithromycin 250 mg').map((course) => course.units)).toEqual([6, 3]);
+    expect(getDosePackCourses('Medrol 4 mg')[0]).toMatchObject({ units: 21, days: 6 });
+    expect(getDosePackCourses('lisinopril')).toEqual([]);
+  });
+});
+
+describe('parseDosePack', () => {
+  it('should detect dose packs and kits', () => {
+    expect(parseDosePack('21 TABLET in 1 DOSE PACK')).toBe(21);
+    expect(parseDosePack('1 KIT in 1 CARTON > 35 TABLET in 1 KIT')).toBe(35);
+  });
+
+  it('should only treat blister packs holding a known course as dose packs', () => {
+    expect(parseDosePack(zPak.package_description, 'azithromycin')).toBe(6);
+    expect(parseDosePack('10 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK', 'azithromycin')).toBeNull();
+    expect(parseDosePack(bottle.package_description, 'azithromycin')).toBeNull();
+  });
+});
+
+describe('chooseDosePack', () => {
+  it('should dispense whole packs from dose-pack packages', () => {
+    expect(chooseDosePack(21, 'methylprednisolone', [medrolPack])).toMatchObject({ units: 21, packs: 1, total_units: 21, matches_schedule: true });
+    // 18 tabs do not fill a pack, but the only packaging is the dose pack
+    expect(chooseDosePack(18, 'methylprednisolone', [medrolPack])).toMatchObject({ packs: 1, total_units: 21, matches_schedule: false });
+  });
+
+  it('should fall back to the course table for dose-pack names', () => {
+    expect(chooseDosePack(3, 'azithromycin Tri-Pak')).toMatchObject({ units: 3, packs: 1, source: 'static_table' });
+    expect(chooseDosePack(6, 'azithromycin')).toBeNull();
+  });
+
+  it('should prefer ordinary packages unless the quantity fills whole packs', () => {
+    expect(chooseDosePack(6, 'azithromycin', [zPak, bottle])).toMatchObject({ units: 6, packs: 1, course: { days: 5 } });
+    expect(chooseDosePack(10, 'azithromycin', [zPak, bottle])).toBeNull();
+  });
+
+  it('should only match the schedule when the SIG runs the course length', () => {
+    expect(chooseDosePack(6, 'azithromycin', [zPak], 5)).toMatchObject({ units: 6, matches_schedule: true });
+    // "1 tab daily x 6 days" totals 6 tabs but runs a day past the 5-day Z-Pak
+    expect(chooseDosePack(6, 'azithromycin', [zPak], 6)).toMatchObject({ units: 6, packs: 1, matches_schedule: false });
+    expect(chooseDosePack(6, 'azithromycin', [zPak, bottle], 6)).toBeNull();
+  });
+});
+
+describe('toDosePackPackages', () => {
+  it('should keep dose packs sized by tablets per pack', () => {
+    expect(toDosePackPackages([zPak, bottle], 'azithromycin')).toEqual([{ ...zPak, pkg_size: 6 }]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Dose Pack Configuration Utilities
+ *
+ * This module provides configuration for fixed-course dose packs and kits
+ * (azithromycin Z-Pak, methylprednisolone Dosepak, starter packs): detecting
+ * dose-pack packaging, the built-in course of known packs, and whole-pack rounding.
+ */
+
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Built-in course of a dose pack
+ */
+export interface DosePackCourse {
+  units: number; // Tablets/capsules per pack
+  days: number; // Course length
+  schedule: string; // Human-readable built-in schedule
+}
+
+/**
+ * Courses of common dose packs
+ * Key: drug name (lowercase), Value: pack courses
+ */
+export const DOSE_PACK_COURSES: Record<string, DosePackCourse[]> = {
+  // Azithromycin Z-Pak / Tri-Pak
+  'azithromycin': [
+    { units: 6, days: 5, schedule: '2 tabs on day 1, then 1 tab daily on days 2-5' },
+    { units: 3, days: 3, schedule: '1 tab daily for 3 days' },
+  ],
+  'zithromax': [
+    { units: 6, days: 5, schedule: '2 tabs on day 1, then 1 tab daily on days 2-5' },
+    { units: 3, days: 3, schedule: '1 tab daily for 3 days' },
+  ],
+
+  // Corticosteroid tapers
+  'methylprednisolone': [{ units: 21, days: 6, schedule: '6-day taper of 6, 5, 4, 3, 2, 1 tabs' }],
+  'medrol': [{ units: 21, days: 6, schedule: '6-day taper of 6, 5, 4, 3, 2, 1 tabs' }],
+  'prednisone': [
+    { units: 21, days: 6, schedule: '6-day taper of 6, 5, 4, 3, 2, 1 tabs' },
+    { units: 48, days: 12, schedule: '12-day taper of 8, 8, 6, 6, 4, 4, 2, 2, 2, 2, 2, 2 tabs' },
+  ],
+};
+
+/**
+ * Dose pack names ("Z-Pak", "Medrol Dosepak", "starter pack")
+ */
+const DOSE_PACK_NAME_PATTERN = /\b(z-?pak|tri-?pak|dose\s*pak|dose\s*pack|dosepak|starter\s+(?:pack|kit)|titration\s+(?:pack|kit))\b/i;
+
+/**
+ * Look up the courses of a known dose pack
+ *
+ * @param drugName - Drug name (can include brand or generic name)
+ * @returns Pack courses, or an empty list if the drug has no known dose pack
+ */
+export function getDosePackCourses(drugName: string): DosePackCourse[] {
+  const normalizedName = (drugName || '').toLowerCase().trim();
+  const match = Object.keys(DOSE_PACK_COURSES).find((name) => normalizedName.includes(name));
+  return match ? DOSE_PACK_COURSES[match] : [];
+}
+
+/**
+ * Parse the tablets/capsules per dose pack from an FDA package description
+ *
+ * Dose packs and kits are always fixed courses; blister packs only count as
+ * dose packs when they hold a known course of the drug, since unit-dose blisters
+ * ("10 TABLET in 1 BLISTER PACK") are dispensed like any other package.
+ * - "21 TABLET in 1 DOSE PACK" = 21
+ * - "3 BLISTER PACK in 1 CARTON > 6 TABLET, FILM COATED in 1 BLISTER PACK" = 6 (azithromycin)
+ *
+ * @param packageDescription - FDA package description
+ * @param drugName - Drug name used to recognize blister-packed courses
+ * @returns Tablets/capsules per pack, or null if the package is not a dose pack
+ */
+export function parseDosePack(packageDescription?: string, drugName?: string): number | null {
+  for (const level of (packageDescription || '').split('>')) {
+    const levelMatch = level.match(/^\s*(\d+)\s+(?:TABLET|CAPSULE)[A-Z, ]*?\s+in\s+\d+\s+(DOSE PACK|KIT|BLISTER PACK)/i);
+    if (!levelMatch) {
+      continue;
+    }
+    const units = parseInt(levelMatch[1], 10);
+    if (levelMatch[2].toUpperCase() !== 'BLISTER PACK') {
+      return units;
+    }
+    return getDosePackCourses(drugName || '').some((course) => course.units === units) ? units : null;
+  }
+  return null;
+}
+
+/**
+ * Dose packs chosen to cover a quantity
+ */
+export interface DosePackChoice {
+  units: number; // Tablets/capsules per pack
+  packs: number;
+  total_units: number; // Tablets/capsules dispensed in whole packs
+  source: 'package_description' | 'static_table';
+  course: DosePackCourse | null; // Built-in course when the pack is a known dose pack
+  matches_schedule: boolean; // The SIG quantity is a whole number of packs over the course length
+}
+
+/**
+ * Choose the dose pack covering a quantity in whole packs
+ *
+ * Pack sizes come from dose-pack packages, then from the course table when the
+ * drug name names a dose pack ("Medrol Dosepak"). A SIG matches a pack when its
+ * quantity fills whole packs and, for known courses, its days match the course
+ * length ("1 tab daily x 6 days" does not match a 5-day Z-Pak). When the drug also
+ * comes in ordinary packages, dose packs are only used for matching SIGs.
+ * Matches win, then the least waste, then fewer packs.
+ *
+ * @param quantity - Tablets/capsules needed
+ * @param drugName - Drug name
+ * @param availablePackages - Optional available packages
+ * @param scheduleDays - Optional days the SIG runs, checked against the course length
+ * @returns Chosen dose pack, or null if the quantity is not dispensed in dose packs
+ */
+export function chooseDosePack(
+  quantity: number,
+  drugName: string | undefined,
+  availablePackages?: NDCPackageData[],
+  scheduleDays?: number
+): DosePackChoice | null {
+  const activePackages = (availablePackages || []).filter((pkg) => pkg.active);
+  const packUnits = activePackages
+    .map((pkg) => parseDosePack(pkg.package_description, drugName))
+    .filter((units): units is number => units !== null && units > 0);
+  const courses = getDosePackCourses(drugName || '');
+
+  let sizes: number[];
+  let source: DosePackChoice['source'];
+  if (packUnits.length > 0) {
+    sizes = Array.from(new Set(packUnits));
+    source = 'package_description';
+  } else if (DOSE_PACK_NAME_PATTERN.test(drugName || '') && courses.length > 0) {
+    sizes = courses.map((course) => course.units);
+    source = 'static_table';
+  } else {
+    return null;
+  }
+
+  // Small epsilon guards against floating point error in phase totals
+  const courseOf = (units: number) => courses.find((course) => course.units === units) ?? null;
+  const fits = (units: number) => {
+    const packs = Math.round(quantity / units);
+    if (Math.abs(quantity / units - packs) >= 1e-9 || quantity < units) {
+      return false;
+    }
+    const course = courseOf(units);
+    return !course || scheduleDays === undefined || course.days * packs === scheduleDays;
+  };
+  const hasOtherPackages = packUnits.length > 0 && packUnits.length < activePackages.length;
+  if (hasOtherPackages && !sizes.some(fits)) {
+    return null;
+  }
+
+  let best: DosePackChoice | null = null;
+  for (const units of sizes) {
+    const packs = Math.max(Math.ceil(quantity / units - 1e-9), 1);
+    const totalUnits = packs * units;
+    const matchesSchedule = fits(units);
+    const better = !best ||
+      (matchesSchedule && !best.matches_schedule) ||
+      (matchesSchedule === best.matches_schedule &&
+        (totalUnits < best.total_units || (totalUnits === best.total_units && packs < best.packs)));
+    if (better) {
+      best = {
+        units,
+        packs,
+        total_units: totalUnits,
+        source,
+        course: courseOf(units),
+        matches_schedule: matchesSchedule,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Keep only dose-pack packages, with pkg_size in tablets/capsules per pack
+ *
+ * Cartons of several packs ("3 BLISTER PACK in 1 CARTON") are dispensed pack by pack.
+ *
+ * @param packages - Available packages
+ * @param drugName - Drug name used to recognize blister-packed courses
+ * @returns Dose-pack packages, or an empty list if none are dose packs
+ */
+export function toDosePackPackages(packages: NDCPackageData[], drugName?: string): NDCPackageData[] {
+  return packages
+    .map((pkg) => ({ ...pkg, pkg_size: parseDosePack(pkg.package_description, drugName) ?? 0 }))
+    .filter((pkg) => pkg.pkg_size > 0);
+}
@@ -0,0 +1,66 @@
+/**
+ * Drops Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDropsPerML,
+  getApplicationSiteCount,
+  calculateBottlesNeeded,
+  DEFAULT_DROPS_PER_ML,
+} from './drops-config';
+
+describe('getDropsPerML', () => {
+  it('should return the default for unknown products', () => {
+    expect(getDropsPerML('timolol maleate ophthalmic')).toBe(DEFAULT_DROPS_PER_ML);
+    expect(getDropsPerML('')).toBe(DEFAULT_DROPS_PER_ML);
+  });
+
+  it('should return product-specific drops per mL', () => {
+    expect(getDropsPerML('Latanoprost 0.005% Ophthalmic Solution')).toBe(30);
+    expect(getDropsPerML('Pred Forte')).toBe(16);
+  });
+});
+
+describe('getApplicationSiteCount', () => {
+  it('should count both eyes or ears', () => {
+    expect(getApplicationSiteCount('1 drop OU BID')).toBe(2);
+    expect(getApplicationSiteCount('2 drops in each ear TID')).toBe(2);
+    expect(getApplicationSiteCount('1 drop in both eyes at bedtime')).toBe(2);
+  });
+
+  it('should count a single eye or ear', () => {
+    expect(getApplicationSiteCount('1 drop OD QID')).toBe(1);
+    expect(getApplicationSiteCount('3 drops in the left ear BID')).toBe(1);
+  });
+});
+
+describe('calculateBottlesNeeded', () => {
+  it('should pick the smallest standard bottle covering the volume', () => {
+    expect(calculateBottlesNeeded(2)).toEqual({ bottleSize: 2.5, bottles: 1, totalML: 2.5 });
+    expect(calculateBottlesNeeded(6)).toEqual({ bottleSize: 10, bottles: 1, totalML: 10 });
+  });
+
+  it('should use several bottles beyond the largest size', () => {
+    expect(calculateBottlesNeeded(18)).toEqual({ bottleSize: 10, bottles: 2, totalML: 20 });
+  });
+
+  it('should prefer bottle sizes from active packages', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 5, active: true },
+      { ndc: '00000000002', pkg_size: 10, active: false },
+    ];
+    expect(calculateBottlesNeeded(6, packages)).toEqual({ bottleSize: 5, bottles: 2, totalML: 10 });
+  });
+
+  it('should use non-standard bottle volumes from package descriptions', () => {
+    const packages = [
+      { ndc: '00000000003', pkg_size: 1, active: true, package_description: '1 BOTTLE, DROPPER in 1 CARTON > 7.5 mL in 1 BOTTLE, DROPPER' },
+      { ndc: '00000000004', pkg_size: 3, active: true, package_description: '3 mL in 1 BOTTLE, DROPPER' },
+      { ndc: '00000000005', pkg_size: 100, active: true, package_description: '100 TABLET in 1 BOTTLE' },
+    ];
+    expect(calculateBottlesNeeded(6, packages)).toEqual({ bottleSize: 7.5, bottles: 1, totalML: 7.5 });
+    expect(calculateBottlesNeeded(2.5, packages)).toEqual({ bottleSize: 3, bottles: 1, totalML: 3 });
+    expect(calculateBottlesNeeded(10, [{ ndc: '00000000006', pkg_size: 12, active: true }])).toEqual({ bottleSize: 12, bottles: 1, totalML: 12 });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Drops Configuration Utilities
+ * 
+ * This module provides configuration for ophthalmic and otic drops,
+ * including drops-per-mL conversion, eye/ear count multipliers and
+ * whole-bottle rounding.
+ */
+
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Drops per mL for products whose dropper differs from the default
+ * Key: drug name (lowercase), Value: drops per mL
+ */
+export const DROPS_PER_ML: Record<string, number> = {
+  // Prostaglandin analogs (small drop size)
+  'latanoprost': 30,
+  'xalatan': 30,
+  'travoprost': 30,
+  'travatan': 30,
+  'bimatoprost': 30,
+  'lumigan': 30,
+
+  // Suspensions (larger drop size)
+  'prednisolone acetate': 16,
+  'pred forte': 16,
+
+  // Otic solutions
+  'ciprodex': 20,
+  'ofloxacin otic': 20,
+};
+
+/**
+ * Default drops per mL (standard dropper tip)
+ */
+export const DEFAULT_DROPS_PER_ML = 20;
+
+/**
+ * Standard eye/ear drop bottle sizes (in mL), used when no package names a bottle volume
+ */
+export const DROP_BOTTLE_SIZES = [2.5, 5, 10, 15];
+
+/**
+ * Site patterns that dose both eyes or both ears
+ */
+const BILATERAL_SITE_PATTERN = /\b(ou|au|both eyes|each eye|both ears|each ear|in eyes|in ears)\b/i;
+
+/**
+ * Get drops per mL for a specific drug
+ * 
+ * @param drugName - Drug name (can include brand or generic name)
+ * @returns Drops per mL
+ */
+export function getDropsPerML(drugName: string): number {
+  if (!drugName) {
+    return DEFAULT_DROPS_PER_ML;
+  }
+
+  const normalizedName = drugName.toLowerCase().trim();
+
+  // Check for partial match (e.g., "latanoprost 0.005% ophthalmic" matches "latanoprost")
+  for (const [key, value] of Object.entries(DROPS_PER_ML)) {
+    if (normalizedName.includes(key)) {
+      return value;
+    }
+  }
+
+  return DEFAULT_DROPS_PER_ML;
+}
+
+/**
+ * Count the eyes or ears dosed per administration
+ * 
+ * @param sig - Prescription SIG text
+ * @returns 2 for both eyes/ears (OU, AU, "each eye"), otherwise 1
+ */
+export function getApplicationSiteCount(sig: string): number {
+  return BILATERAL_SITE_PATTERN.test(sig) ? 2 : 1;
+}
+
+/**
+ * Read the bottle volume (mL) of a drop package
+ *
+ * - "1 BOTTLE, DROPPER in 1 CARTON > 7.5 mL in 1 BOTTLE, DROPPER" = 7.5 mL
+ * - Packages without a description keep pkg_size (already in mL)
+ *
+ * @param pkg - Package data
+ * @returns Bottle volume in mL, or 0 if the description does not name a bottle volume
+ */
+export function getDropBottleVolume(pkg: NDCPackageData): number {
+  if (!pkg.package_description) {
+    return pkg.pkg_size;
+  }
+  const volumeMatch = pkg.package_description.match(/(\d*\.?\d+)\s*mL\s+in\s+\d+\s+BOTTLE/i);
+  return volumeMatch ? parseFloat(volumeMatch[1]) : 0;
+}
+
+/**
+ * Pick the bottle size covering a volume with the fewest bottles
+ * 
+ * Uses the bottle volumes of the available packages (3 mL, 7.5 mL, 12 mL, ...),
+ * falling back to the standard sizes. Ties go to the option with the least volume.
+ * 
+ * @param volumeML - Volume needed (mL)
+ * @param availablePackages - Optional available packages (pkg_size in mL)
+ * @returns Bottle size, bottle count and dispensed volume
+ */
+export function calculateBottlesNeeded(
+  volumeML: number,
+  availablePackages?: NDCPackageData[]
+): { bottleSize: number; bottles: number; totalML: number } {
+  const packageSizes = (availablePackages || [])
+    .filter((pkg) => pkg.active)
+    .map(getDropBottleVolume)
+    .filter((size) => size > 0);
+  const sizes = packageSizes.length > 0 ? Array.from(new Set(packageSizes)) : DROP_BOTTLE_SIZES;
+
+  let best = { bottleSize: sizes[0], bottles: 0, totalML: Infinity };
+  for (const bottleSize of sizes) {
+    // Always round up to whole bottles (no partial bottles); epsilon absorbs floating point error
+    const bottles = Math.max(Math.ceil(volumeML / bottleSize - 1e-9), 1);
+    const totalML = bottles * bottleSize;
+    if (best.bottles === 0 || bottles < best.bottles || (bottles === best.bottles && totalML < best.totalML)) {
+      best = { bottleSize, bottles, totalML };
+    }
+  }
+
+  return best;
+}
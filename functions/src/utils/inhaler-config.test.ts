@@ -6,6 +6,13 @@ import { describe, it, expect } from 'vitest';
 import {
   getActuationsPerCanister,
   calculateCanistersNeeded,
+  findActuationCount,
+  parseActuationCount,
+  chooseInhalerPackage,
+  parseDPIPackage,
+  getInhalerDeviceType,
+  chooseDPIPackage,
+  getInhalationsPerDose,
   DEFAULT_INHALER_ACTUATIONS,
 } from './inhaler-config';
 
@@ -100,4 +107,92 @@ describe('calculateCanistersNeeded', () => {
   });
 });
 
+describe('findActuationCount', () => {
+  it('should return null for drugs missing from the static table', () => {
+    expect(findActuationCount('albuterol')).toBe(200);
+    expect(findActuationCount('unknown_drug')).toBeNull();
+    expect(findActuationCount('')).toBeNull();
+  });
+});
+
+describe('parseActuationCount', () => {
+  it('should parse actuations per canister from package descriptions', () => {
+    expect(parseActuationCount('1 INHALER in 1 CARTON (0173-0682-20) > 200 ACTUATION in 1 INHALER')).toEqual({ canisters: 1, actuations_per_canister: 200 });
+    expect(parseActuationCount('2 CANISTER in 1 CARTON > 120 ACTUATION in 1 CANISTER')).toEqual({ canisters: 2, actuations_per_canister: 120 });
+    expect(parseActuationCount('60 ACTUATION in 1 INHALER')).toEqual({ canisters: 1, actuations_per_canister: 60 });
+  });
 
+  it('should parse metered aerosol and spray counts as actuations', () => {
+    expect(parseActuationCount('1 INHALER in 1 CARTON > 200 AEROSOL, METERED in 1 INHALER')).toEqual({ canisters: 1, actuations_per_canister: 200 });
+    expect(parseActuationCount('2 CANISTER in 1 CARTON > 120 SPRAY, METERED in 1 CANISTER')).toEqual({ canisters: 2, actuations_per_canister: 120 });
+  });
+
+  it('should return null without an actuation count', () => {
+    expect(parseActuationCount('100 TABLET in 1 BOTTLE')).toBeNull();
+    expect(parseActuationCount(undefined)).toBeNull();
+  });
+});
+
+describe('chooseInhalerPackage', () => {
+  it('should use actuation counts from the candidate packages', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 60, active: true, package_description: '1 INHALER in 1 CARTON > 60 ACTUATION in 1 INHALER' },
+      { ndc: '00000000002', pkg_size: 200, active: true, package_description: '1 INHALER in 1 CARTON > 200 ACTUATION in 1 INHALER' },
+    ];
+    expect(chooseInhalerPackage(120, packages, 'albuterol')).toMatchObject({ source: 'package_description', canisters: 2, total_actuations: 120 });
+    expect(chooseInhalerPackage(190, packages, 'albuterol')).toMatchObject({ canisters: 1, total_actuations: 200 });
+  });
+
+  it('should fall back to the static table, then the default', () => {
+    expect(chooseInhalerPackage(100, [], 'fluticasone')).toMatchObject({ source: 'static_table', canisters: 1, total_actuations: 120 });
+    expect(chooseInhalerPackage(100, undefined, 'new inhaler')).toMatchObject({ source: 'default', total_actuations: DEFAULT_INHALER_ACTUATIONS });
+  });
+});
+
+describe('parseDPIPackage', () => {
+  it('should parse blister devices and capsule cards', () => {
+    expect(parseDPIPackage('1 INHALER in 1 CARTON > 60 BLISTER in 1 INHALER')).toEqual({ type: 'blister_dpi', devices: 1, doses_per_device: 60 });
+    expect(parseDPIPackage('3 BLISTER PACK in 1 CARTON > 10 CAPSULE in 1 BLISTER PACK')).toEqual({ type: 'capsule_dpi', devices: 3, doses_per_device: 10 });
+  });
+
+  it('should return null for other packages', () => {
+    expect(parseDPIPackage('1 INHALER in 1 CARTON > 200 ACTUATION in 1 INHALER')).toBeNull();
+    expect(parseDPIPackage('30 CAPSULE in 1 BOTTLE')).toBeNull();
+    expect(parseDPIPackage(undefined)).toBeNull();
+  });
+});
+
+describe('getInhalerDeviceType', () => {
+  it('should prefer package descriptions, then the drug name', () => {
+    const packages = [{ ndc: '00000000001', pkg_size: 30, active: true, package_description: '1 INHALER in 1 CARTON > 30 BLISTER in 1 INHALER' }];
+    expect(getInhalerDeviceType('fluticasone furoate', packages)).toBe('blister_dpi');
+    expect(getInhalerDeviceType('Spiriva HandiHaler')).toBe('capsule_dpi');
+    expect(getInhalerDeviceType('albuterol')).toBe('mdi');
+  });
+});
+
+describe('chooseDPIPackage', () => {
+  it('should round to whole devices of the candidate package', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 14, active: true, package_description: '1 INHALER in 1 CARTON > 14 BLISTER in 1 INHALER' },
+      { ndc: '00000000002', pkg_size: 30, active: true, package_description: '1 INHALER in 1 CARTON > 30 BLISTER in 1 INHALER' },
+    ];
+    expect(chooseDPIPackage(30, 'blister_dpi', packages, 'breo')).toMatchObject({ source: 'package_description', devices: 1, total_doses: 30 });
+    expect(chooseDPIPackage(28, 'blister_dpi', packages, 'breo')).toMatchObject({ devices: 2, total_doses: 28 });
+  });
+
+  it('should fall back to the static table, then the default device', () => {
+    expect(chooseDPIPackage(30, 'blister_dpi', [], 'Breo Ellipta')).toMatchObject({ source: 'static_table', devices: 1, total_doses: 30 });
+    expect(chooseDPIPackage(30, 'blister_dpi', undefined, 'new inhaler')).toMatchObject({ source: 'default', devices: 1, total_doses: 60 });
+    expect(chooseDPIPackage(25, 'capsule_dpi', undefined, 'new inhaler')).toMatchObject({ devices: 3, total_doses: 30 });
+  });
+});
+
+describe('getInhalationsPerDose', () => {
+  it('should use the named device, then the standard device of the detected type', () => {
+    expect(getInhalationsPerDose('Spiriva HandiHaler', 'capsule_dpi')).toBe(2);
+    expect(getInhalationsPerDose('Spiriva', 'capsule_dpi')).toBe(2);
+    expect(getInhalationsPerDose('tiotropium', 'capsule_dpi')).toBe(2);
+    expect(getInhalationsPerDose('fluticasone furoate', 'blister_dpi')).toBe(1);
+  });
+});
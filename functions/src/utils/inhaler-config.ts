@@ -3,8 +3,14 @@
  * 
  * This module provides configuration for inhaler medications,
  * including default and product-specific actuation counts per canister.
+ * Counts parsed from FDA package descriptions take precedence; the static
+ * table is a fallback for packages without one. Dry-powder inhalers
+ * (blister devices such as Diskus/Ellipta, capsules in blister cards such
+ * as HandiHaler) are counted in blisters/capsules instead of actuations.
  */
 
+import type { NDCPackageData } from '../types/index';
+
 /**
  * Actuation counts per canister for common inhaler products
  * Key: drug name (lowercase), Value: actuations per canister
@@ -45,14 +51,14 @@ export const ACTUATION_COUNTS: Record<string, number> = {
 export const DEFAULT_INHALER_ACTUATIONS = 200;
 
 /**
- * Get actuation count for a specific drug
+ * Look up the actuation count for a drug in the static table
  * 
  * @param drugName - Drug name (can include brand or generic name)
- * @returns Actuations per canister
+ * @returns Actuations per canister, or null if the drug is not listed
  */
-export function getActuationsPerCanister(drugName: string): number {
+export function findActuationCount(drugName: string): number | null {
   if (!drugName) {
-    return DEFAULT_INHALER_ACTUATIONS;
+    return null;
   }
   
   // Normalize drug name (lowercase, trim)
@@ -65,13 +71,23 @@ export function getActuationsPerCanister(drugName: string): number {
   
   // Check for partial match (e.g., "albuterol sulfate" matches "albuterol")
   for (const [key, value] of Object.entries(ACTUATION_COUNTS)) {
-    if (normalizedName.includes(key) || key.includes(normalizedName)) {
+    if (key !== 'default' && (normalizedName.includes(key) || key.includes(normalizedName))) {
       return value;
     }
   }
   
+  return null;
+}
+
+/**
+ * Get actuation count for a specific drug
+ * 
+ * @param drugName - Drug name (can include brand or generic name)
+ * @returns Actuations per canister
+ */
+export function getActuationsPerCanister(drugName: string): number {
   // Return default if no match found
-  return DEFAULT_INHALER_ACTUATIONS;
+  return findActuationCount(drugName) ?? DEFAULT_INHALER_ACTUATIONS;
 }
 
 /**
@@ -97,4 +113,288 @@ export function calculateCanistersNeeded(
   return Math.ceil(totalActuations / actuationsPerCanister);
 }
 
+/**
+ * Inhaler canister details for a package
+ */
+export interface InhalerPackageSpec {
+  canisters: number; // Canisters per package
+  actuations_per_canister: number;
+}
+
+/**
+ * Parse canister count and actuations per canister from an FDA package description
+ * 
+ * Counts along the packaging chain are multiplied down to the canister level:
+ * - "1 INHALER in 1 CARTON > 200 ACTUATION in 1 INHALER" = 1 canister of 200
+ * - "2 CANISTER in 1 CARTON > 120 ACTUATION in 1 CANISTER" = 2 canisters of 120
+ * - "1 INHALER in 1 CARTON > 200 AEROSOL, METERED in 1 INHALER" = 1 canister of 200
+ * 
+ * @param packageDescription - FDA package description
+ * @returns Package spec, or null if no actuation count is stated
+ */
+export function parseActuationCount(packageDescription?: string): InhalerPackageSpec | null {
+  if (!packageDescription) {
+    return null;
+  }
+  
+  let canisters = 1;
+  for (const level of packageDescription.split('>')) {
+    const countMatch = level.match(/^\s*(\d+)\s*([a-z, ]+?)\s+in\b/i);
+    if (!countMatch) {
+      continue;
+    }
+    if (/^(?:actuations?|(?:aerosol|spray),\s*metered)$/i.test(countMatch[2])) {
+      const actuations = parseInt(countMatch[1], 10);
+      return actuations > 0 ? { canisters, actuations_per_canister: actuations } : null;
+    }
+    canisters *= parseInt(countMatch[1], 10);
+  }
+  
+  return null;
+}
+
+/**
+ * Inhaler packages chosen to cover a days supply
+ */
+export interface InhalerPackageChoice {
+  spec: InhalerPackageSpec;
+  source: 'package_description' | 'static_table' | 'default'; // Where the actuation count came from
+  canisters: number;
+  packages: number;
+  total_actuations: number; // Actuations dispensed in whole packages
+}
+
+/**
+ * Choose the inhaler package that covers the actuations needed with the least waste
+ * 
+ * Each active package with an actuation count in its description is tried with its own
+ * count (sample canisters, new products). Without one, the static table is used, then
+ * the default count.
+ * 
+ * @param actuations - Actuations needed over the days supply
+ * @param availablePackages - Optional available packages
+ * @param drugName - Drug name for the static table fallback
+ * @returns Chosen package spec with canister and package counts
+ */
+export function chooseInhalerPackage(
+  actuations: number,
+  availablePackages: NDCPackageData[] | undefined,
+  drugName?: string
+): InhalerPackageChoice {
+  const specs = (availablePackages || [])
+    .filter((pkg) => pkg.active)
+    .map((pkg) => parseActuationCount(pkg.package_description))
+    .filter((spec): spec is InhalerPackageSpec => spec !== null);
+  
+  if (specs.length === 0) {
+    const tableCount = findActuationCount(drugName || '');
+    const actuationsPerCanister = tableCount ?? DEFAULT_INHALER_ACTUATIONS;
+    const canisters = calculateCanistersNeeded(actuations, actuationsPerCanister);
+    return {
+      spec: { canisters: 1, actuations_per_canister: actuationsPerCanister },
+      source: tableCount !== null ? 'static_table' : 'default',
+      canisters,
+      packages: canisters,
+      total_actuations: canisters * actuationsPerCanister,
+    };
+  }
+  
+  let best: InhalerPackageChoice | null = null;
+  for (const spec of specs) {
+    const canisters = calculateCanistersNeeded(actuations, spec.actuations_per_canister);
+    // Always round up to whole packages (no partial cartons)
+    const packages = Math.ceil(canisters / spec.canisters);
+    const totalActuations = packages * spec.canisters * spec.actuations_per_canister;
+    if (!best || totalActuations < best.total_actuations || (totalActuations === best.total_actuations && packages < best.packages)) {
+      best = { spec, source: 'package_description', canisters, packages, total_actuations: totalActuations };
+    }
+  }
+  
+  return best!;
+}
+
+/**
+ * Inhaler device type
+ * - mdi: metered-dose inhaler counted in actuations per canister
+ * - blister_dpi: dry-powder device holding a strip of blisters, one inhalation per blister (Diskus, Ellipta)
+ * - capsule_dpi: capsules in blister cards, loaded into a reusable device (HandiHaler)
+ */
+export type InhalerDeviceType = 'mdi' | 'blister_dpi' | 'capsule_dpi';
+
+/**
+ * Dry-powder device capacity
+ */
+export interface DPIDevice {
+  type: Exclude<InhalerDeviceType, 'mdi'>;
+  doses_per_device: number; // Blisters per device or capsules per blister card
+  inhalations_per_dose: number; // Inhalations per blister/capsule
+}
+
+/**
+ * Dry-powder devices for common products
+ * Key: drug/device name (lowercase), Value: device capacity
+ */
+export const DPI_DEVICES: Record<string, DPIDevice> = {
+  // Blister devices
+  'diskus': { type: 'blister_dpi', doses_per_device: 60, inhalations_per_dose: 1 },
+  'ellipta': { type: 'blister_dpi', doses_per_device: 30, inhalations_per_dose: 1 },
+  'breo': { type: 'blister_dpi', doses_per_device: 30, inhalations_per_dose: 1 },
+  'trelegy': { type: 'blister_dpi', doses_per_device: 30, inhalations_per_dose: 1 },
+  'anoro': { type: 'blister_dpi', doses_per_device: 30, inhalations_per_dose: 1 },
+  'incruse': { type: 'blister_dpi', doses_per_device: 30, inhalations_per_dose: 1 },
+  'arnuity': { type: 'blister_dpi', doses_per_device: 30, inhalations_per_dose: 1 },
+  
+  // Capsules in blister cards (each HandiHaler capsule is inhaled twice)
+  'handihaler': { type: 'capsule_dpi', doses_per_device: 10, inhalations_per_dose: 2 },
+};
+
+/**
+ * Look up a dry-powder device by drug name
+ * 
+ * @param drugName - Drug name (can include brand or device name)
+ * @returns Device capacity, or null if the drug is not a known dry-powder inhaler
+ */
+export function findDPIDevice(drugName: string): DPIDevice | null {
+  if (!drugName) {
+    return null;
+  }
+  
+  const normalizedName = drugName.toLowerCase().trim();
+  const match = Object.keys(DPI_DEVICES).find((name) => normalizedName.includes(name));
+  return match ? DPI_DEVICES[match] : null;
+}
+
+/**
+ * Dry-powder package details
+ */
+export interface DPIPackageSpec {
+  type: Exclude<InhalerDeviceType, 'mdi'>;
+  devices: number; // Devices or blister cards per package
+  doses_per_device: number; // Blisters per device or capsules per card
+}
+
+/**
+ * Parse a dry-powder package from an FDA package description
+ * 
+ * - "1 INHALER in 1 CARTON > 60 BLISTER in 1 INHALER" = 1 device of 60 blisters
+ * - "3 BLISTER PACK in 1 CARTON > 10 CAPSULE in 1 BLISTER PACK" = 3 cards of 10 capsules
+ * 
+ * @param packageDescription - FDA package description
+ * @returns Package spec, or null if the description is not a dry-powder package
+ */
+export function parseDPIPackage(packageDescription?: string): DPIPackageSpec | null {
+  if (!packageDescription) {
+    return null;
+  }
+  
+  let devices = 1;
+  for (const level of packageDescription.split('>')) {
+    const levelMatch = level.match(/^\s*(\d+)\s+([a-z ,]+?)\s+in\s+\d+\s+([a-z ,]+)/i);
+    if (!levelMatch) {
+      continue;
+    }
+    const count = parseInt(levelMatch[1], 10);
+    const unit = levelMatch[2].toUpperCase();
+    const container = levelMatch[3].toUpperCase();
+    if (/^BLISTER$/.test(unit.trim()) && container.includes('INHALER')) {
+      return { type: 'blister_dpi', devices, doses_per_device: count };
+    }
+    if (unit.startsWith('CAPSULE') && container.includes('BLISTER')) {
+      return { type: 'capsule_dpi', devices, doses_per_device: count };
+    }
+    devices *= count;
+  }
+  
+  return null;
+}
 
+/**
+ * Determine the inhaler device type from packages, then the drug name
+ * 
+ * @param drugName - Drug name
+ * @param availablePackages - Optional available packages
+ * @returns Device type (default: mdi)
+ */
+export function getInhalerDeviceType(drugName: string, availablePackages?: NDCPackageData[]): InhalerDeviceType {
+  for (const pkg of availablePackages || []) {
+    const spec = pkg.active ? parseDPIPackage(pkg.package_description) : null;
+    if (spec) {
+      return spec.type;
+    }
+  }
+  
+  return findDPIDevice(drugName)?.type ?? 'mdi';
+}
+
+/**
+ * Dry-powder packages chosen to cover a days supply
+ */
+export interface DPIPackageChoice {
+  spec: DPIPackageSpec;
+  source: 'package_description' | 'static_table' | 'default';
+  devices: number; // Devices or blister cards needed
+  packages: number;
+  total_doses: number; // Blisters/capsules dispensed in whole packages
+}
+
+/**
+ * Choose the dry-powder package that covers the doses needed with the least waste
+ * 
+ * @param doses - Blisters/capsules needed over the days supply
+ * @param type - Dry-powder device type
+ * @param availablePackages - Optional available packages
+ * @param drugName - Drug name for the static table fallback
+ * @returns Chosen package spec with device and package counts
+ */
+export function chooseDPIPackage(
+  doses: number,
+  type: Exclude<InhalerDeviceType, 'mdi'>,
+  availablePackages: NDCPackageData[] | undefined,
+  drugName?: string
+): DPIPackageChoice {
+  const specs = (availablePackages || [])
+    .filter((pkg) => pkg.active)
+    .map((pkg) => parseDPIPackage(pkg.package_description))
+    .filter((spec): spec is DPIPackageSpec => spec !== null && spec.type === type);
+  
+  // Fallback: static table, then the standard device of this type (60-blister Diskus, 10-capsule card)
+  const tableDevice = findDPIDevice(drugName || '');
+  const tableMatch = tableDevice?.type === type;
+  const fallback: DPIPackageSpec = {
+    type,
+    devices: 1,
+    doses_per_device: tableMatch ? tableDevice!.doses_per_device : DPI_DEVICES[type === 'blister_dpi' ? 'diskus' : 'handihaler'].doses_per_device,
+  };
+  const fallbackSource = tableMatch ? 'static_table' : 'default';
+  
+  let best: DPIPackageChoice | null = null;
+  for (const spec of specs.length > 0 ? specs : [fallback]) {
+    // Always round up to whole devices/cards and whole packages; epsilon absorbs fractional doses
+    const devices = Math.ceil(doses / spec.doses_per_device - 1e-9);
+    const packages = Math.ceil(devices / spec.devices);
+    const totalDoses = packages * spec.devices * spec.doses_per_device;
+    if (!best || totalDoses < best.total_doses || (totalDoses === best.total_doses && packages < best.packages)) {
+      best = { spec, source: specs.length > 0 ? 'package_description' : fallbackSource, devices, packages, total_doses: totalDoses };
+    }
+  }
+  
+  return best!;
+}
+
+/**
+ * Get inhalations per blister/capsule for a dry-powder inhaler
+ * 
+ * The named device is used when it matches the detected device type; otherwise the
+ * standard device of that type (1 per blister, 2 per capsule like HandiHaler).
+ * 
+ * @param drugName - Drug name
+ * @param type - Dry-powder device type (detected from the package or drug name)
+ * @returns Inhalations per dose
+ */
+export function getInhalationsPerDose(drugName: string, type: Exclude<InhalerDeviceType, 'mdi'>): number {
+  const device = findDPIDevice(drugName);
+  if (device?.type === type) {
+    return device.inhalations_per_dose;
+  }
+  return DPI_DEVICES[type === 'blister_dpi' ? 'diskus' : 'handihaler'].inhalations_per_dose;
+}
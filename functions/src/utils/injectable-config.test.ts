@@ -0,0 +1,81 @@
+/**
+ * Injectable Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDevicesNeeded,
+  calculateDevicesPerDose,
+  countDevicesInPackage,
+  getInjectableDevice,
+  loadInjectableDevices,
+} from './injectable-config';
+
+describe('Injectable Configuration', () => {
+  describe('getInjectableDevice', () => {
+    it('should match brand and generic names', () => {
+      expect(getInjectableDevice('Ozempic 1 mg/dose pen')).toEqual({ device: 'pen', doses_per_device: 4 });
+      expect(getInjectableDevice('Testosterone Cypionate')?.device).toBe('vial');
+      expect(getInjectableDevice('adalimumab')?.device).toBe('syringe');
+    });
+
+    it('should return null for drugs without a device', () => {
+      expect(getInjectableDevice('lisinopril')).toBeNull();
+      expect(getInjectableDevice('')).toBeNull();
+    });
+  });
+
+  describe('loadInjectableDevices', () => {
+    it('should merge overrides over the defaults', () => {
+      const devices = loadInjectableDevices('{"Ozempic": {"device": "pen", "doses_per_device": 6}, "emgality": {"device": "pen", "doses_per_device": 1}}');
+      expect(devices['ozempic'].doses_per_device).toBe(6);
+      expect(devices['emgality'].device).toBe('pen');
+      expect(devices['victoza'].device).toBe('pen');
+    });
+
+    it('should skip invalid overrides', () => {
+      const devices = loadInjectableDevices('{"foo": {"device": "pen"}, "bar": {"device": "ampule", "doses_per_device": 1}}');
+      expect(devices['foo']).toBeUndefined();
+      expect(devices['bar']).toBeUndefined();
+      expect(loadInjectableDevices('not json')['ozempic'].doses_per_device).toBe(4);
+    });
+  });
+
+  describe('calculateDevicesPerDose', () => {
+    it('should use doses per device for fixed-dose devices', () => {
+      expect(calculateDevicesPerDose(0.5, { device: 'pen', doses_per_device: 4 })).toBe(0.25);
+      expect(calculateDevicesPerDose(40, { device: 'syringe', doses_per_device: 1 })).toBe(1);
+    });
+
+    it('should count whole doses in variable-dose devices', () => {
+      const victoza = { device: 'pen' as const, concentration_mg_per_ml: 6, volume_ml: 3 };
+      expect(calculateDevicesPerDose(1.2, victoza)).toBe(1 / 15);
+      expect(calculateDevicesPerDose(1.8, victoza)).toBe(1 / 10);
+    });
+
+    it('should use several devices when a dose exceeds the device content', () => {
+      expect(calculateDevicesPerDose(400, { device: 'vial', concentration_mg_per_ml: 200, volume_ml: 1 })).toBe(2);
+    });
+  });
+
+  describe('countDevicesInPackage', () => {
+    it('should multiply counts down to the device level', () => {
+      expect(countDevicesInPackage('4 PEN, DISPOSABLE in 1 CARTON > 0.5 mL in 1 PEN, DISPOSABLE')).toBe(4);
+      expect(countDevicesInPackage('2 CARTON in 1 PACKAGE > 1 SYRINGE, GLASS in 1 CARTON > 0.4 mL in 1 SYRINGE, GLASS')).toBe(2);
+      expect(countDevicesInPackage('1 VIAL, MULTI-DOSE in 1 CARTON > 10 mL in 1 VIAL, MULTI-DOSE')).toBe(1);
+    });
+
+    it('should return 0 when no device is named', () => {
+      expect(countDevicesInPackage('100 TABLET in 1 BOTTLE')).toBe(0);
+      expect(countDevicesInPackage(undefined)).toBe(0);
+    });
+  });
+
+  describe('calculateDevicesNeeded', () => {
+    it('should round up to whole devices', () => {
+      expect(calculateDevicesNeeded(0.25 * 4)).toBe(1);
+      expect(calculateDevicesNeeded(1.1)).toBe(2);
+      expect(calculateDevicesNeeded(0)).toBe(0);
+    });
+  });
+});
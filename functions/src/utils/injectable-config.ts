@@ -0,0 +1,229 @@
+/**
+ * Injectable Configuration Utilities
+ *
+ * This module provides device capacities for non-insulin injectables
+ * (GLP-1 pens, prefilled syringes, mg/mL vials) and counts the devices
+ * a dose needs. Insulin pens/vials are handled by insulin-config.
+ */
+
+import { logWarn } from './logger';
+
+/**
+ * Dispensable injectable device
+ */
+export type InjectableDeviceType = 'pen' | 'syringe' | 'vial';
+
+/**
+ * Device capacity for an injectable product
+ *
+ * Fixed-dose devices deliver a set number of injections whatever the dose
+ * (doses_per_device). Variable-dose devices hold a drug amount
+ * (concentration_mg_per_ml × volume_ml) that is drawn down dose by dose.
+ */
+export interface InjectableDevice {
+  device: InjectableDeviceType;
+  doses_per_device?: number; // Fixed-dose devices (Ozempic pen 4, single-dose pens/syringes 1)
+  concentration_mg_per_ml?: number; // Variable-dose devices (Victoza 6 mg/mL)
+  volume_ml?: number; // Variable-dose devices (Victoza 3 mL pen)
+}
+
+/**
+ * Device capacities for common non-insulin injectables
+ * Key: drug name (lowercase), Value: device capacity
+ */
+export const DEFAULT_INJECTABLE_DEVICES: Record<string, InjectableDevice> = {
+  // GLP-1 / GIP agonists - weekly pens
+  'ozempic': { device: 'pen', doses_per_device: 4 },
+  'semaglutide': { device: 'pen', doses_per_device: 4 },
+  'wegovy': { device: 'pen', doses_per_device: 1 },
+  'trulicity': { device: 'pen', doses_per_device: 1 },
+  'dulaglutide': { device: 'pen', doses_per_device: 1 },
+  'mounjaro': { device: 'pen', doses_per_device: 1 },
+  'zepbound': { device: 'pen', doses_per_device: 1 },
+  'tirzepatide': { device: 'pen', doses_per_device: 1 },
+
+  // GLP-1 agonists - daily variable-dose pens
+  'victoza': { device: 'pen', concentration_mg_per_ml: 6, volume_ml: 3 },
+  'saxenda': { device: 'pen', concentration_mg_per_ml: 6, volume_ml: 3 },
+  'liraglutide': { device: 'pen', concentration_mg_per_ml: 6, volume_ml: 3 },
+
+  // Biologics and anticoagulants - prefilled syringes
+  'humira': { device: 'syringe', doses_per_device: 1 },
+  'adalimumab': { device: 'syringe', doses_per_device: 1 },
+  'enbrel': { device: 'syringe', doses_per_device: 1 },
+  'etanercept': { device: 'syringe', doses_per_device: 1 },
+  'dupixent': { device: 'syringe', doses_per_device: 1 },
+  'lovenox': { device: 'syringe', doses_per_device: 1 },
+  'enoxaparin': { device: 'syringe', doses_per_device: 1 },
+  'depo-provera': { device: 'syringe', doses_per_device: 1 },
+
+  // Multi-dose vials dosed in mg
+  'testosterone cypionate': { device: 'vial', concentration_mg_per_ml: 200, volume_ml: 10 },
+  'depo-testosterone': { device: 'vial', concentration_mg_per_ml: 200, volume_ml: 10 },
+  'testosterone enanthate': { device: 'vial', concentration_mg_per_ml: 200, volume_ml: 5 },
+};
+
+/**
+ * Check that a configured device has a usable capacity
+ */
+function isValidDevice(value: unknown): value is InjectableDevice {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const device = value as InjectableDevice;
+  if (device.device !== 'pen' && device.device !== 'syringe' && device.device !== 'vial') {
+    return false;
+  }
+  if (device.doses_per_device !== undefined) {
+    return Number.isFinite(device.doses_per_device) && device.doses_per_device > 0;
+  }
+  return (
+    Number.isFinite(device.concentration_mg_per_ml) && device.concentration_mg_per_ml! > 0 &&
+    Number.isFinite(device.volume_ml) && device.volume_ml! > 0
+  );
+}
+
+/**
+ * Build the device-capacity table from the defaults and optional overrides
+ *
+ * Overrides come from the INJECTABLE_DEVICES environment variable as a JSON object
+ * keyed by drug name, e.g. {"ozempic": {"device": "pen", "doses_per_device": 4}}.
+ * Entries without a usable capacity are skipped with a warning.
+ *
+ * @param overridesJson - JSON object of device capacities keyed by drug name
+ * @returns Device-capacity table (overrides win over defaults)
+ */
+export function loadInjectableDevices(overridesJson?: string): Record<string, InjectableDevice> {
+  const devices: Record<string, InjectableDevice> = { ...DEFAULT_INJECTABLE_DEVICES };
+  if (!overridesJson) {
+    return devices;
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(overridesJson);
+  } catch {
+    logWarn('Ignoring INJECTABLE_DEVICES: not valid JSON');
+    return devices;
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    logWarn('Ignoring INJECTABLE_DEVICES: expected an object keyed by drug name');
+    return devices;
+  }
+
+  for (const [name, device] of Object.entries(overrides as Record<string, unknown>)) {
+    if (isValidDevice(device)) {
+      devices[name.toLowerCase().trim()] = device;
+    } else {
+      logWarn('Ignoring invalid INJECTABLE_DEVICES entry', { drugName: name });
+    }
+  }
+
+  return devices;
+}
+
+/**
+ * Device capacities in use (defaults plus INJECTABLE_DEVICES overrides)
+ */
+export const INJECTABLE_DEVICES = loadInjectableDevices(process.env.INJECTABLE_DEVICES);
+
+/**
+ * Get the injectable device for a specific drug
+ *
+ * @param drugName - Drug name (can include brand or generic name)
+ * @param devices - Device-capacity table (default: configured devices)
+ * @returns Device capacity, or null if the drug is not a known injectable
+ */
+export function getInjectableDevice(
+  drugName: string,
+  devices: Record<string, InjectableDevice> = INJECTABLE_DEVICES
+): InjectableDevice | null {
+  if (!drugName) {
+    return null;
+  }
+
+  // Normalize drug name (lowercase, trim)
+  const normalizedName = drugName.toLowerCase().trim();
+
+  // Check for exact match
+  if (devices[normalizedName]) {
+    return devices[normalizedName];
+  }
+
+  // Check for partial match, longest name first (e.g., "ozempic 1 mg pen" matches "ozempic")
+  const names = Object.keys(devices).sort((a, b) => b.length - a.length);
+  const match = names.find((name) => normalizedName.includes(name));
+  return match ? devices[match] : null;
+}
+
+/**
+ * Calculate the devices used by one dose
+ *
+ * - Fixed-dose devices: 1 / doses_per_device (an Ozempic pen covers 4 weekly doses)
+ * - Variable-dose devices: 1 / whole doses per device, or several devices when
+ *   one dose exceeds the device content (400 mg from 200 mg vials)
+ *
+ * @param doseMg - Dose per injection in mg
+ * @param device - Device capacity
+ * @returns Devices per dose (fractional when a device covers several doses)
+ */
+export function calculateDevicesPerDose(doseMg: number, device: InjectableDevice): number {
+  if (doseMg <= 0) {
+    return 0;
+  }
+
+  if (device.doses_per_device) {
+    return 1 / device.doses_per_device;
+  }
+
+  const contentMg = (device.concentration_mg_per_ml ?? 0) * (device.volume_ml ?? 0);
+  if (contentMg <= 0) {
+    return 0;
+  }
+
+  // Small epsilon guards against floating point error (e.g., 18 mg / 1.2 mg)
+  if (doseMg > contentMg) {
+    return Math.ceil(doseMg / contentMg - 1e-9);
+  }
+  return 1 / Math.floor(contentMg / doseMg + 1e-9);
+}
+
+/**
+ * Count the devices in an FDA package description
+ *
+ * Counts along the packaging chain are multiplied down to the device level:
+ * - "4 PEN, DISPOSABLE in 1 CARTON > 0.5 mL in 1 PEN, DISPOSABLE" = 4 pens
+ * - "2 CARTON in 1 PACKAGE > 1 SYRINGE, GLASS in 1 CARTON > 0.4 mL in 1 SYRINGE, GLASS" = 2 syringes
+ *
+ * @param description - FDA package description
+ * @returns Devices per package, or 0 if the description does not name a device
+ */
+export function countDevicesInPackage(description: string | undefined): number {
+  let devices = 1;
+  for (const level of (description || '').split('>')) {
+    const countMatch = level.match(/^\s*(\d+)\s+([A-Z-]+)/i);
+    if (!countMatch) {
+      return 0;
+    }
+    devices *= parseInt(countMatch[1], 10);
+    if (/pen|syringe|vial|injector/i.test(countMatch[2])) {
+      return devices;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Calculate number of devices to dispense
+ *
+ * @param devices - Devices needed (fractional when devices cover several doses)
+ * @returns Number of devices (always whole devices, rounded up)
+ */
+export function calculateDevicesNeeded(devices: number): number {
+  if (devices <= 0) {
+    return 0;
+  }
+
+  // Always round up to whole devices (no partial pens/vials); epsilon absorbs 4 × 0.25
+  return Math.ceil(devices - 1e-9);
+}
@@ -10,7 +10,13 @@ import {
   calculateVialsNeeded,
   isPenFormat,
   isVialFormat,
+  getInsulinInUseDays,
+  calculateInsulinContainers,
+  parseInsulinConcentration,
+  parseInsulinPackage,
+  chooseInsulinPackage,
   DEFAULT_INSULIN_CONCENTRATION,
+  DEFAULT_INSULIN_IN_USE_DAYS,
   PEN_VOLUMES,
   VIAL_VOLUMES,
 } from './insulin-config';
@@ -219,4 +225,131 @@ describe('isVialFormat', () => {
   });
 });
 
+describe('getInsulinInUseDays', () => {
+  it('should return product-specific in-use limits', () => {
+    expect(getInsulinInUseDays('Levemir FlexTouch', 'pen')).toBe(42);
+    expect(getInsulinInUseDays('Toujeo SoloStar', 'pen')).toBe(56);
+    expect(getInsulinInUseDays('Humulin N KwikPen', 'pen')).toBe(14);
+    expect(getInsulinInUseDays('Humulin N', 'vial')).toBe(31);
+  });
+
+  it('should fall back to the default limit', () => {
+    expect(getInsulinInUseDays('insulin glargine', 'pen')).toBe(DEFAULT_INSULIN_IN_USE_DAYS);
+    expect(getInsulinInUseDays('Basaglar', 'vial')).toBe(DEFAULT_INSULIN_IN_USE_DAYS);
+    expect(getInsulinInUseDays('', 'pen')).toBe(DEFAULT_INSULIN_IN_USE_DAYS);
+  });
+});
+
+describe('calculateInsulinContainers', () => {
+  it('should add priming units for pens', () => {
+    // 10 units/day x 30 days = 300 units + 2 units x 30 injections = 360 units = 2 pens
+    const result = calculateInsulinContainers(300, 'pen', { concentration: 100, volumePerContainer: 3, injections: 30, days: 30, drugName: 'Lantus' });
+    expect(result.priming_units).toBe(60);
+    expect(result.containers_for_volume).toBe(2);
+    expect(result.containers).toBe(2);
+  });
+
+  it('should not prime vials', () => {
+    const result = calculateInsulinContainers(300, 'vial', { concentration: 100, volumePerContainer: 10, injections: 30, days: 28, drugName: 'Humalog' });
+    expect(result.priming_units).toBe(0);
+    expect(result.containers).toBe(1);
+  });
+
+  it('should cover the in-use limit when units remain in opened containers', () => {
+    // 5 units/day for 90 days fits in one vial, but each opened vial expires after 28 days
+    const result = calculateInsulinContainers(450, 'vial', { concentration: 100, volumePerContainer: 10, injections: 90, days: 90, drugName: 'Novolog' });
+    expect(result.containers_for_volume).toBe(1);
+    expect(result.containers_for_in_use).toBe(4);
+    expect(result.containers).toBe(4);
+  });
+});
 
+describe('parseInsulinConcentration', () => {
+  it('should read U-style names and FDA strengths', () => {
+    expect(parseInsulinConcentration('Humalog U-200 KwikPen')).toBe(200);
+    expect(parseInsulinConcentration('Toujeo U300')).toBe(300);
+    expect(parseInsulinConcentration('100 [iU]/mL')).toBe(100);
+    expect(parseInsulinConcentration('500 units/mL')).toBe(500);
+  });
+
+  it('should return null when no concentration is stated', () => {
+    expect(parseInsulinConcentration('insulin glargine')).toBeNull();
+    expect(parseInsulinConcentration('')).toBeNull();
+  });
+});
+
+describe('parseInsulinPackage', () => {
+  it('should multiply pens per carton and read the pen volume', () => {
+    expect(parseInsulinPackage('5 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE')).toEqual({
+      format: 'pen',
+      containers: 5,
+      volume_ml: 3,
+      concentration: 100,
+    });
+  });
+
+  it('should read vials and bare volumes', () => {
+    expect(parseInsulinPackage('1 VIAL, MULTI-DOSE in 1 CARTON > 3 mL in 1 VIAL, MULTI-DOSE')).toMatchObject({ format: 'vial', containers: 1, volume_ml: 3 });
+    expect(parseInsulinPackage('1.5 mL')).toMatchObject({ format: 'pen', containers: 1, volume_ml: 1.5 });
+  });
+
+  it('should use the concentration text', () => {
+    expect(parseInsulinPackage('2 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE', 'Tresiba U-200')?.concentration).toBe(200);
+  });
+
+  it('should return null without a volume', () => {
+    expect(parseInsulinPackage('1 VIAL in 1 CARTON')).toBeNull();
+    expect(parseInsulinPackage(undefined)).toBeNull();
+  });
+});
+
+describe('chooseInsulinPackage', () => {
+  const options = { injections: 30, days: 30, drugName: 'Tresiba' };
+
+  it('should use the volume and concentration of the candidate packages', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 1800, active: true, package_description: '3 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE', units_per_ml: 200 },
+    ];
+    // 40 units/day x 30 days + 60 priming units = 1260 units = 3 pens of 600 units = 1 carton
+    const result = chooseInsulinPackage(1200, 'pen', packages, options);
+    expect(result.source).toBe('package_description');
+    expect(result.breakdown.containers).toBe(3);
+    expect(result.packages).toBe(1);
+    expect(result.total_units).toBe(1800);
+  });
+
+  it('should pick the package with the least waste', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 1500, active: true, package_description: '5 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE' },
+      { ndc: '00000000002', pkg_size: 750, active: true, package_description: '5 SYRINGE in 1 CARTON > 1.5 mL in 1 SYRINGE' },
+    ];
+    expect(chooseInsulinPackage(300, 'pen', packages, options).total_units).toBe(750);
+  });
+
+  it('should only choose packages of the prescribed concentration', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 1500, active: true, package_description: '5 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE', units_per_ml: 100 },
+      { ndc: '00000000002', pkg_size: 3000, active: true, package_description: '2 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE', units_per_ml: 200 },
+    ];
+    // 20 units/day x 30 days = 600 units: one U-200 carton would waste less, but the SIG is for U-100
+    const result = chooseInsulinPackage(600, 'pen', packages, { injections: 30, days: 30, drugName: 'Humalog U-100 KwikPen' });
+    expect(result.spec.concentration).toBe(100);
+    expect(result.source).toBe('package_description');
+    expect(result.total_units).toBe(1500);
+  });
+
+  it('should fall back to standard containers of the prescribed concentration', () => {
+    const packages = [
+      { ndc: '00000000002', pkg_size: 1200, active: true, package_description: '2 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE', units_per_ml: 200 },
+    ];
+    const result = chooseInsulinPackage(600, 'pen', packages, { injections: 30, days: 30, drugName: 'Humalog U-100 KwikPen' });
+    expect(result.source).toBe('default');
+    expect(result.spec.concentration).toBe(100);
+  });
+
+  it('should fall back to standard containers', () => {
+    const result = chooseInsulinPackage(300, 'vial', [], { injections: 0, days: 0, drugName: 'Humulin R' });
+    expect(result.source).toBe('default');
+    expect(result.total_units).toBe(1000);
+  });
+});
@@ -6,6 +6,8 @@
  * pen/vial volume calculations.
  */
 
+import type { NDCPackageData } from '../types/index';
+
 /**
  * Insulin concentration mappings (units per mL)
  * Key: concentration name, Value: units per mL
@@ -13,9 +15,11 @@
 export const INSULIN_CONCENTRATIONS: Record<string, number> = {
   'U100': 100,  // 1 mL = 100 units
   'U200': 200,  // 1 mL = 200 units
+  'U300': 300,  // 1 mL = 300 units
   'U500': 500,  // 1 mL = 500 units
   'u100': 100,  // Case-insensitive
   'u200': 200,
+  'u300': 300,
   'u500': 500,
 };
 
@@ -42,30 +46,91 @@ export const VIAL_VOLUMES: Record<string, number> = {
 };
 
 /**
- * Get insulin concentration from drug name or concentration string
+ * Priming (air shot) units per injection by container format
+ * Pens are primed before every injection; vials are drawn up with a syringe and need no priming
+ */
+export const PRIMING_UNITS_PER_INJECTION: Record<'pen' | 'vial', number> = {
+  'pen': 2,
+  'vial': 0,
+};
+
+/**
+ * In-use (beyond-use) limits after first opening, in days
+ * Key: drug name (lowercase), Value: days a pen/vial may be used once opened
+ */
+export const INSULIN_IN_USE_DAYS: Record<string, { pen?: number; vial?: number }> = {
+  // Long-acting
+  'lantus': { pen: 28, vial: 28 },
+  'basaglar': { pen: 28 },
+  'semglee': { pen: 28, vial: 28 },
+  'toujeo': { pen: 56 },
+  'levemir': { pen: 42, vial: 42 },
+  'tresiba': { pen: 56, vial: 56 },
+
+  // Rapid-acting
+  'humalog': { pen: 28, vial: 28 },
+  'admelog': { pen: 28, vial: 28 },
+  'lyumjev': { pen: 28, vial: 28 },
+  'novolog': { pen: 28, vial: 28 },
+  'fiasp': { pen: 28, vial: 28 },
+  'apidra': { pen: 28, vial: 28 },
+
+  // Human insulins (pens expire much sooner than vials)
+  'humulin 70/30': { pen: 10, vial: 31 },
+  'humulin n': { pen: 14, vial: 31 },
+  'humulin r': { vial: 31 },
+  'novolin': { pen: 28, vial: 42 },
+};
+
+/**
+ * Default in-use limit for opened pens/vials (days)
+ */
+export const DEFAULT_INSULIN_IN_USE_DAYS = 28;
+
+/**
+ * Parse an explicit insulin concentration from text
  * 
- * @param drugName - Drug name or concentration string (e.g., "insulin lispro U100", "U200")
- * @returns Concentration in units per mL
+ * Accepts "U100"/"U-200" style names and FDA strengths such as "200 [iU]/mL" or "100 units/mL".
+ * 
+ * @param text - Drug name, package description or FDA strength
+ * @returns Concentration in units per mL, or null if none is stated
  */
-export function getInsulinConcentration(drugName: string): number {
-  if (!drugName) {
-    return DEFAULT_INSULIN_CONCENTRATION;
+export function parseInsulinConcentration(text: string): number | null {
+  if (!text) {
+    return null;
   }
   
-  // Normalize drug name (lowercase, trim)
-  const normalizedName = drugName.toLowerCase().trim();
-  
-  // Check for explicit concentration mentions (U100, U200, U500)
-  const concentrationMatch = normalizedName.match(/\b(u\d{3})\b/i);
+  // Check for explicit concentration mentions (U100, U-200, U300, U500)
+  const concentrationMatch = text.match(/\bu-?(\d{3})\b/i);
   if (concentrationMatch) {
-    const concentration = concentrationMatch[1].toLowerCase();
+    const concentration = `u${concentrationMatch[1]}`;
     if (INSULIN_CONCENTRATIONS[concentration]) {
       return INSULIN_CONCENTRATIONS[concentration];
     }
   }
   
+  // Check for strengths per mL ("200 [iU]/mL", "100 units/mL")
+  const strengthMatch = text.match(/\b(\d{2,3})\s*(?:\[iu\]|iu|units?|u)\s*(?:\/|per)\s*ml\b/i);
+  if (strengthMatch) {
+    return parseInt(strengthMatch[1], 10);
+  }
+  
+  return null;
+}
+
+/**
+ * Get insulin concentration from drug name or concentration string
+ * 
+ * @param drugName - Drug name or concentration string (e.g., "insulin lispro U100", "U200")
+ * @returns Concentration in units per mL
+ */
+export function getInsulinConcentration(drugName: string): number {
+  if (!drugName) {
+    return DEFAULT_INSULIN_CONCENTRATION;
+  }
+  
   // Return default if no concentration specified
-  return DEFAULT_INSULIN_CONCENTRATION;
+  return parseInsulinConcentration(drugName.toLowerCase().trim()) ?? DEFAULT_INSULIN_CONCENTRATION;
 }
 
 /**
@@ -189,4 +254,216 @@ export function isPenFormatFromPackage(packageDescription?: string): boolean {
          normalized.includes('solostar');
 }
 
+/**
+ * Get the in-use limit for an opened pen or vial
+ * 
+ * @param drugName - Drug name (can include brand or generic name)
+ * @param format - Container format
+ * @returns Days a container may be used after opening
+ */
+export function getInsulinInUseDays(drugName: string, format: 'pen' | 'vial'): number {
+  if (!drugName) {
+    return DEFAULT_INSULIN_IN_USE_DAYS;
+  }
+  
+  const normalizedName = drugName.toLowerCase().trim();
+  
+  // Check for partial match, longest name first (e.g., "humulin n kwikpen" matches "humulin n")
+  const names = Object.keys(INSULIN_IN_USE_DAYS).sort((a, b) => b.length - a.length);
+  const match = names.find((name) => normalizedName.includes(name));
+  
+  return (match && INSULIN_IN_USE_DAYS[match][format]) || DEFAULT_INSULIN_IN_USE_DAYS;
+}
+
+/**
+ * Insulin container count with priming and in-use adjustments
+ */
+export interface InsulinContainerBreakdown {
+  priming_units_per_injection: number;
+  injections: number;
+  priming_units: number; // Priming waste over the days supply
+  units_with_priming: number;
+  containers_for_volume: number; // Containers needed for dose + priming units
+  in_use_days: number;
+  containers_for_in_use: number; // Containers needed because opened containers expire
+  containers: number; // Larger of the two
+}
+
+/**
+ * Calculate pens/vials needed including priming waste and in-use expiry
+ * 
+ * An opened container is discarded after its in-use limit even if units remain,
+ * so the count covers whichever is larger: units (dose + priming) or days supply.
+ * 
+ * @param units - Dose units needed over the days supply
+ * @param format - Container format
+ * @param options - Concentration, container volume, injection count, days of use and drug name
+ * @returns Container count with each adjustment broken out
+ */
+export function calculateInsulinContainers(
+  units: number,
+  format: 'pen' | 'vial',
+  options: { concentration: number; volumePerContainer: number; injections: number; days: number; drugName?: string }
+): InsulinContainerBreakdown {
+  const primingPerInjection = PRIMING_UNITS_PER_INJECTION[format];
+  const primingUnits = primingPerInjection * options.injections;
+  const volumeML = unitsToVolume(units + primingUnits, options.concentration);
+  const containersForVolume = format === 'vial'
+    ? calculateVialsNeeded(volumeML, options.volumePerContainer)
+    : calculatePensNeeded(volumeML, options.volumePerContainer);
+  
+  const inUseDays = getInsulinInUseDays(options.drugName || '', format);
+  const containersForInUse = options.days > 0 ? Math.ceil(options.days / inUseDays) : 0;
+  
+  return {
+    priming_units_per_injection: primingPerInjection,
+    injections: options.injections,
+    priming_units: primingUnits,
+    units_with_priming: units + primingUnits,
+    containers_for_volume: containersForVolume,
+    in_use_days: inUseDays,
+    containers_for_in_use: containersForInUse,
+    containers: Math.max(containersForVolume, containersForInUse),
+  };
+}
+
+/**
+ * Insulin container details for a package
+ */
+export interface InsulinPackageSpec {
+  format: 'pen' | 'vial';
+  containers: number; // Pens/vials per package
+  volume_ml: number; // Volume per pen/vial
+  concentration: number; // Units per mL
+}
+
+/**
+ * Parse pen/vial count, volume and concentration from an FDA package description
+ * 
+ * Counts along the packaging chain are multiplied down to the pen/vial level, and the
+ * volume comes from the "N mL in 1 <container>" level:
+ * - "5 SYRINGE in 1 CARTON > 3 mL in 1 SYRINGE" = 5 pens of 3 mL
+ * - "1 VIAL, MULTI-DOSE in 1 CARTON > 10 mL in 1 VIAL, MULTI-DOSE" = 1 vial of 10 mL
+ * - "1.5 mL" = 1 pen of 1.5 mL
+ * 
+ * @param packageDescription - FDA package description
+ * @param concentrationText - Optional text stating the concentration (brand name, FDA strength)
+ * @returns Package spec, or null if no volume is stated
+ */
+export function parseInsulinPackage(packageDescription?: string, concentrationText?: string): InsulinPackageSpec | null {
+  if (!packageDescription) {
+    return null;
+  }
+  
+  let containers = 1;
+  let containerFound = false;
+  let volumeML = 0;
+  for (const level of packageDescription.split('>')) {
+    const countMatch = level.match(/^\s*(\d*\.?\d+)\s*([a-z]+)/i);
+    if (!countMatch) {
+      continue;
+    }
+    if (countMatch[2].toLowerCase() === 'ml') {
+      volumeML = parseFloat(countMatch[1]);
+      break;
+    }
+    if (!containerFound) {
+      containers *= parseFloat(countMatch[1]);
+      containerFound = /pen|syringe|vial|cartridge|injector/i.test(countMatch[2]);
+    }
+  }
+  
+  if (volumeML <= 0) {
+    return null;
+  }
+  
+  const concentration = parseInsulinConcentration(`${packageDescription} ${concentrationText || ''}`) ??
+    DEFAULT_INSULIN_CONCENTRATION;
+  
+  return {
+    format: isVialFormatFromPackage(packageDescription) ? 'vial' : 'pen',
+    containers: containerFound ? containers : 1,
+    volume_ml: volumeML,
+    concentration,
+  };
+}
+
+/**
+ * Insulin packages chosen to cover a days supply
+ */
+export interface InsulinPackageChoice {
+  spec: InsulinPackageSpec;
+  source: 'package_description' | 'default'; // Where volume/concentration came from
+  breakdown: InsulinContainerBreakdown;
+  packages: number;
+  total_units: number; // Units dispensed in whole packages
+}
 
+/**
+ * Choose the pen/vial package that covers the units needed with the least waste
+ * 
+ * Each active package with a parsable description is tried with its own volume and
+ * concentration, so rounding matches the package dispensed. Only packages of the
+ * prescribed concentration are candidates: the drug-name concentration ("U-100"), else
+ * the one concentration the packages share, else U-100. Without a candidate, standard
+ * 3 mL pens / 10 mL vials of the prescribed concentration are used.
+ * 
+ * @param units - Dose units needed over the days supply
+ * @param format - Container format
+ * @param availablePackages - Optional available packages
+ * @param options - Injection count, days of use and drug name
+ * @returns Chosen package spec with container breakdown
+ */
+export function chooseInsulinPackage(
+  units: number,
+  format: 'pen' | 'vial',
+  availablePackages: NDCPackageData[] | undefined,
+  options: { injections: number; days: number; drugName?: string }
+): InsulinPackageChoice {
+  const drugName = options.drugName || '';
+  const formatSpecs = (availablePackages || [])
+    .filter((pkg) => pkg.active)
+    .map((pkg) => {
+      const spec = parseInsulinPackage(pkg.package_description, `${pkg.brand_name || ''} ${drugName}`);
+      return spec && pkg.units_per_ml ? { ...spec, concentration: pkg.units_per_ml } : spec;
+    })
+    .filter((spec): spec is InsulinPackageSpec => spec !== null && spec.format === format);
+  
+  // Never switch concentration to save waste (U-200 for a U-100 prescription)
+  const packageConcentrations = Array.from(new Set(formatSpecs.map((spec) => spec.concentration)));
+  const concentration = parseInsulinConcentration(drugName) ??
+    (packageConcentrations.length === 1 ? packageConcentrations[0] : DEFAULT_INSULIN_CONCENTRATION);
+  const specs = formatSpecs.filter((spec) => spec.concentration === concentration);
+  
+  const defaultSpec: InsulinPackageSpec = {
+    format,
+    containers: 1,
+    volume_ml: format === 'vial' ? VIAL_VOLUMES.standard : PEN_VOLUMES.standard,
+    concentration,
+  };
+  
+  let best: InsulinPackageChoice | null = null;
+  for (const spec of specs.length > 0 ? specs : [defaultSpec]) {
+    const breakdown = calculateInsulinContainers(units, format, {
+      concentration: spec.concentration,
+      volumePerContainer: spec.volume_ml,
+      injections: options.injections,
+      days: options.days,
+      drugName,
+    });
+    // Always round up to whole packages (no partial cartons)
+    const packages = Math.ceil(breakdown.containers / spec.containers);
+    const totalUnits = Math.round(packages * spec.containers * spec.volume_ml * spec.concentration);
+    if (!best || totalUnits < best.total_units || (totalUnits === best.total_units && packages < best.packages)) {
+      best = {
+        spec,
+        source: specs.length > 0 ? 'package_description' : 'default',
+        breakdown,
+        packages,
+        total_units: totalUnits,
+      };
+    }
+  }
+  
+  return best!;
+}
@@ -0,0 +1,48 @@
+/**
+ * Nasal Spray Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSpraysPerBottle,
+  getNostrilCount,
+  calculateSprayBottlesNeeded,
+  DEFAULT_NASAL_SPRAYS,
+} from './nasal-spray-config';
+
+describe('getSpraysPerBottle', () => {
+  it('should return spray counts for common products', () => {
+    expect(getSpraysPerBottle('Fluticasone Propionate Nasal')).toBe(120);
+    expect(getSpraysPerBottle('mometasone')).toBe(120);
+    expect(getSpraysPerBottle('Azelastine HCl')).toBe(200);
+    expect(getSpraysPerBottle('olopatadine nasal')).toBe(240);
+  });
+
+  it('should return the default for unknown products', () => {
+    expect(getSpraysPerBottle('unknown spray')).toBe(DEFAULT_NASAL_SPRAYS);
+    expect(getSpraysPerBottle('')).toBe(DEFAULT_NASAL_SPRAYS);
+  });
+});
+
+describe('getNostrilCount', () => {
+  it('should count both nostrils', () => {
+    expect(getNostrilCount('2 sprays each nostril daily')).toBe(2);
+    expect(getNostrilCount('1 spray in both nostrils BID')).toBe(2);
+  });
+
+  it('should count a single nostril', () => {
+    expect(getNostrilCount('1 spray in one nostril daily')).toBe(1);
+  });
+});
+
+describe('calculateSprayBottlesNeeded', () => {
+  it('should round up to whole bottles', () => {
+    expect(calculateSprayBottlesNeeded(120, 120)).toBe(1);
+    expect(calculateSprayBottlesNeeded(121, 120)).toBe(2);
+  });
+
+  it('should return 0 for invalid inputs', () => {
+    expect(calculateSprayBottlesNeeded(0, 120)).toBe(0);
+    expect(calculateSprayBottlesNeeded(120, 0)).toBe(0);
+  });
+});
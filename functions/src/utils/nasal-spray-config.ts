@@ -0,0 +1,104 @@
+/**
+ * Nasal Spray Configuration Utilities
+ * 
+ * This module provides configuration for metered nasal sprays,
+ * including default and product-specific spray counts per bottle
+ * and the "each nostril" multiplier.
+ */
+
+/**
+ * Metered sprays per bottle for common nasal spray products
+ * Key: drug name (lowercase), Value: sprays per bottle
+ */
+export const SPRAY_COUNTS: Record<string, number> = {
+  // Corticosteroids
+  'fluticasone': 120,
+  'flonase': 120,
+  'mometasone': 120,
+  'nasonex': 120,
+  'triamcinolone': 120,
+  'nasacort': 120,
+  'budesonide': 120,
+  'rhinocort': 120,
+  'beclomethasone': 180,
+  'beconase': 180,
+  'qnasl': 120,
+  'ciclesonide': 120,
+  'omnaris': 120,
+
+  // Antihistamines
+  'azelastine': 200,
+  'astelin': 200,
+  'astepro': 200,
+  'olopatadine': 240,
+  'patanase': 240,
+
+  // Combination sprays
+  'dymista': 120,
+
+  // Anticholinergics
+  'ipratropium': 345,
+};
+
+/**
+ * Default spray count for nasal sprays
+ */
+export const DEFAULT_NASAL_SPRAYS = 120;
+
+/**
+ * Site patterns that dose both nostrils
+ */
+const BOTH_NOSTRILS_PATTERN = /\b(each nostril|both nostrils|per nostril|in nostrils|each side of (?:the )?nose)\b/i;
+
+/**
+ * Get spray count for a specific drug
+ * 
+ * @param drugName - Drug name (can include brand or generic name)
+ * @returns Sprays per bottle
+ */
+export function getSpraysPerBottle(drugName: string): number {
+  if (!drugName) {
+    return DEFAULT_NASAL_SPRAYS;
+  }
+
+  // Normalize drug name (lowercase, trim)
+  const normalizedName = drugName.toLowerCase().trim();
+
+  // Check for partial match (e.g., "fluticasone propionate nasal" matches "fluticasone")
+  for (const [key, value] of Object.entries(SPRAY_COUNTS)) {
+    if (normalizedName.includes(key)) {
+      return value;
+    }
+  }
+
+  return DEFAULT_NASAL_SPRAYS;
+}
+
+/**
+ * Count the nostrils dosed per administration
+ * 
+ * @param sig - Prescription SIG text
+ * @returns 2 for "each nostril"/"both nostrils", otherwise 1
+ */
+export function getNostrilCount(sig: string): number {
+  return BOTH_NOSTRILS_PATTERN.test(sig) ? 2 : 1;
+}
+
+/**
+ * Calculate number of bottles needed
+ * 
+ * @param totalSprays - Total sprays needed
+ * @param spraysPerBottle - Sprays per bottle
+ * @returns Number of bottles (always whole bottles, rounded up)
+ */
+export function calculateSprayBottlesNeeded(
+  totalSprays: number,
+  spraysPerBottle: number
+): number {
+  if (totalSprays <= 0 || spraysPerBottle <= 0) {
+    return 0;
+  }
+
+  // Always round up to whole bottles (no partial bottles)
+  return Math.ceil(totalSprays / spraysPerBottle);
+}
@@ -0,0 +1,19 @@
+/**
+ * Patch Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateBoxesNeeded } from './patch-config';
+
+describe('calculateBoxesNeeded', () => {
+  it('should pick the standard box count with the fewest leftover patches', () => {
+    expect(calculateBoxesNeeded(10)).toEqual({ boxSize: 10, boxes: 1, totalPatches: 10 });
+    expect(calculateBoxesNeeded(12)).toEqual({ boxSize: 4, boxes: 3, totalPatches: 12 });
+    expect(calculateBoxesNeeded(30)).toEqual({ boxSize: 30, boxes: 1, totalPatches: 30 });
+  });
+
+  it('should use box counts from active packages', () => {
+    const packages = [{ ndc: '00000000001', pkg_size: 5, active: true }];
+    expect(calculateBoxesNeeded(7, packages)).toEqual({ boxSize: 5, boxes: 2, totalPatches: 10 });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Patch Configuration Utilities
+ * 
+ * This module provides configuration for transdermal patches,
+ * including standard box counts and whole-box rounding.
+ */
+
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Standard patch box counts (fentanyl 5, clonidine 4, estradiol 8/24, lidocaine 30, ...)
+ */
+export const PATCH_BOX_SIZES = [4, 5, 10, 30];
+
+/**
+ * Pick the box count covering the patches needed with the fewest leftover patches
+ * 
+ * Uses box counts found among the available packages, falling back to standard
+ * box counts. Patches are costly (and often controlled), so leftover patches
+ * matter more than the number of boxes; ties go to the option with fewer boxes.
+ * 
+ * @param patches - Patches needed
+ * @param availablePackages - Optional available packages (pkg_size in patches)
+ * @returns Box count, number of boxes and dispensed patches
+ */
+export function calculateBoxesNeeded(
+  patches: number,
+  availablePackages?: NDCPackageData[]
+): { boxSize: number; boxes: number; totalPatches: number } {
+  const packageSizes = (availablePackages || [])
+    .filter((pkg) => pkg.active && pkg.pkg_size > 0)
+    .map((pkg) => pkg.pkg_size);
+  const sizes = packageSizes.length > 0 ? Array.from(new Set(packageSizes)) : PATCH_BOX_SIZES;
+
+  let best = { boxSize: sizes[0], boxes: 0, totalPatches: Infinity };
+  for (const boxSize of sizes) {
+    // Always round up to whole boxes (no partial boxes)
+    const boxes = Math.max(Math.ceil(patches / boxSize), 1);
+    const totalPatches = boxes * boxSize;
+    if (totalPatches < best.totalPatches || (totalPatches === best.totalPatches && boxes < best.boxes)) {
+      best = { boxSize, boxes, totalPatches };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,47 @@
+/**
+ * Reconstitution Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isReconstitutedProduct,
+  getBeyondUseDays,
+  planReconstitutedBottles,
+  DEFAULT_BEYOND_USE_DAYS,
+} from './reconstitution-config';
+
+describe('isReconstitutedProduct', () => {
+  it('should detect powders for suspension from the name or FDA dosage form', () => {
+    expect(isReconstitutedProduct('amoxicillin 400 mg/5 mL for oral suspension')).toBe(true);
+    expect(isReconstitutedProduct('cefdinir', [{ ndc: '00000000001', pkg_size: 100, active: true, dosage_form: 'POWDER, FOR SUSPENSION' }])).toBe(true);
+    expect(isReconstitutedProduct('ibuprofen', [{ ndc: '00000000002', pkg_size: 120, active: true, dosage_form: 'SUSPENSION' }])).toBe(false);
+  });
+});
+
+describe('getBeyondUseDays', () => {
+  it('should prefer the longest matching name', () => {
+    expect(getBeyondUseDays('amoxicillin and clavulanate potassium')).toEqual({ days: 10, source: 'static_table' });
+    expect(getBeyondUseDays('amoxicillin')).toEqual({ days: 14, source: 'static_table' });
+    expect(getBeyondUseDays('unknown powder')).toEqual({ days: DEFAULT_BEYOND_USE_DAYS, source: 'default' });
+  });
+});
+
+describe('planReconstitutedBottles', () => {
+  it('should pick the standard bottle with the least waste within the beyond-use date', () => {
+    // 10 mL/day for 10 days
+    expect(planReconstitutedBottles(100, 10, 14)).toMatchObject({ bottleSize: 100, bottles: 1, totalML: 100, exceedsBeyondUse: false });
+    expect(planReconstitutedBottles(70, 10, 14)).toMatchObject({ bottleSize: 75, bottles: 1, totalML: 75 });
+  });
+
+  it('should split the fill when the days supply exceeds the beyond-use date', () => {
+    // 10 mL/day for 20 days with a 10-day beyond-use date: each bottle supplies at most 100 mL
+    expect(planReconstitutedBottles(200, 20, 10)).toMatchObject({ bottleSize: 100, bottles: 2, totalML: 200, exceedsBeyondUse: true });
+    // 5 mL/day for 30 days: a 75 mL bottle only covers 70 mL before it expires, so three 50 mL bottles waste least
+    expect(planReconstitutedBottles(150, 30, 14)).toMatchObject({ bottleSize: 50, bottles: 3, totalML: 150, usableML: 50 });
+  });
+
+  it('should use reconstituted bottle volumes from active packages', () => {
+    const packages = [{ ndc: '00000000001', pkg_size: 60, active: true, dosage_form: 'POWDER, FOR SUSPENSION' }];
+    expect(planReconstitutedBottles(100, 10, 10, packages)).toMatchObject({ bottleSize: 60, bottles: 2, totalML: 120 });
+  });
+});
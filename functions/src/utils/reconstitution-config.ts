@@ -0,0 +1,138 @@
+/**
+ * Reconstitution Configuration Utilities
+ *
+ * This module provides configuration for powders reconstituted into oral
+ * suspensions (amoxicillin, cefdinir, azithromycin, ...): standard bottle
+ * volumes after mixing, beyond-use days, and bottle counts that keep each
+ * bottle within its beyond-use date.
+ */
+
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Standard reconstituted bottle volumes (mL)
+ */
+export const RECONSTITUTED_BOTTLE_SIZES = [50, 75, 100, 150];
+
+/**
+ * Days a reconstituted suspension may be used after mixing
+ * Key: drug name (lowercase), Value: beyond-use days
+ */
+export const BEYOND_USE_DAYS: Record<string, number> = {
+  // Penicillins
+  'amoxicillin and clavulanate': 10,
+  'amoxicillin-clavulanate': 10,
+  'augmentin': 10,
+  'amoxicillin': 14,
+  'penicillin v': 14,
+
+  // Cephalosporins
+  'cefdinir': 10,
+  'cefuroxime': 10,
+  'cefprozil': 14,
+  'cefadroxil': 14,
+  'cephalexin': 14,
+
+  // Macrolides
+  'azithromycin': 10,
+  'zithromax': 10,
+  'clarithromycin': 14,
+};
+
+/**
+ * Default beyond-use days when the drug is not in the table
+ */
+export const DEFAULT_BEYOND_USE_DAYS = 14;
+
+/**
+ * Check whether an FDA dosage form is a powder for oral suspension
+ */
+function isReconstitutedDosageForm(dosageForm?: string): boolean {
+  const form = (dosageForm || '').toUpperCase();
+  return form.includes('FOR SUSPENSION') && !form.includes('INJECT');
+}
+
+/**
+ * Check whether a product is reconstituted before dispensing
+ *
+ * @param drugName - Drug name ("amoxicillin 400 mg/5 mL for suspension")
+ * @param availablePackages - Optional available packages
+ * @returns True if the drug name or an FDA dosage form names a powder for suspension
+ */
+export function isReconstitutedProduct(drugName: string, availablePackages?: NDCPackageData[]): boolean {
+  if (/\bfor\s+(?:oral\s+)?suspension\b/i.test(drugName || '')) {
+    return true;
+  }
+  return (availablePackages || []).some((pkg) => isReconstitutedDosageForm(pkg.dosage_form));
+}
+
+/**
+ * Look up beyond-use days for a reconstituted suspension
+ *
+ * @param drugName - Drug name (can include brand or generic name)
+ * @returns Beyond-use days and whether they came from the table or the default
+ */
+export function getBeyondUseDays(drugName: string): { days: number; source: 'static_table' | 'default' } {
+  const normalizedName = (drugName || '').toLowerCase().trim();
+
+  // Check for partial match, longest name first ("amoxicillin and clavulanate" before "amoxicillin")
+  const names = Object.keys(BEYOND_USE_DAYS).sort((a, b) => b.length - a.length);
+  const match = names.find((name) => normalizedName.includes(name));
+  return match
+    ? { days: BEYOND_USE_DAYS[match], source: 'static_table' }
+    : { days: DEFAULT_BEYOND_USE_DAYS, source: 'default' };
+}
+
+/**
+ * Reconstituted bottles covering a days supply
+ */
+export interface ReconstitutedBottlePlan {
+  bottleSize: number; // Bottle volume after mixing (mL)
+  bottles: number;
+  totalML: number; // Dispensed volume in whole bottles
+  usableML: number; // Volume of each bottle used before its beyond-use date
+  exceedsBeyondUse: boolean; // days supply runs past the beyond-use date of a single mixing
+}
+
+/**
+ * Pick the bottle size covering a volume with the least waste
+ *
+ * Each bottle is mixed when the previous one runs out, so a bottle only supplies
+ * what is used within its beyond-use days (daily volume × beyond-use days); a
+ * days supply longer than the beyond-use date splits the fill into several
+ * bottles. Uses reconstituted bottle volumes found among the available packages,
+ * falling back to the standard volumes; ties go to the option with fewer bottles.
+ *
+ * @param volumeML - Volume needed over the days supply (mL)
+ * @param days - Days supply
+ * @param beyondUseDays - Days each bottle may be used after mixing
+ * @param availablePackages - Optional available packages (pkg_size in mL)
+ * @returns Bottle size, bottle count and dispensed volume
+ */
+export function planReconstitutedBottles(
+  volumeML: number,
+  days: number,
+  beyondUseDays: number,
+  availablePackages?: NDCPackageData[]
+): ReconstitutedBottlePlan {
+  const packageSizes = (availablePackages || [])
+    .filter((pkg) => pkg.active && pkg.pkg_size > 0 && isReconstitutedDosageForm(pkg.dosage_form))
+    .map((pkg) => pkg.pkg_size);
+  const sizes = packageSizes.length > 0 ? Array.from(new Set(packageSizes)) : RECONSTITUTED_BOTTLE_SIZES;
+
+  const dailyML = days > 0 ? volumeML / days : volumeML;
+  const exceedsBeyondUse = days > beyondUseDays;
+
+  let best: ReconstitutedBottlePlan | null = null;
+  for (const bottleSize of sizes) {
+    const usableML = Math.min(bottleSize, dailyML * beyondUseDays);
+    // Always round up to whole bottles; epsilon absorbs floating point error (e.g., 140 / 14 × 14)
+    const bottles = Math.max(Math.ceil(volumeML / usableML - 1e-9), 1);
+    const totalML = bottles * bottleSize;
+    if (!best || totalML < best.totalML || (totalML === best.totalML && bottles < best.bottles)) {
+      best = { bottleSize, bottles, totalML, usableML, exceedsBeyondUse };
+    }
+  }
+
+  return best!;
+}
@@ -0,0 +1,61 @@
+/**
+ * Supplies Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSupplyType,
+  resolveSupplyType,
+  countSuppliesInPackage,
+  calculateSupplyBoxesNeeded,
+  suggestPenNeedles,
+} from './supplies-config';
+
+describe('getSupplyType', () => {
+  it('should match supply names', () => {
+    expect(getSupplyType('OneTouch Ultra Test Strips')).toBe('test_strip');
+    expect(getSupplyType('Microlet lancets')).toBe('lancet');
+    expect(getSupplyType('Insulin pen needles 32G')).toBe('pen_needle');
+    expect(getSupplyType('insulin glargine')).toBeNull();
+  });
+});
+
+describe('resolveSupplyType', () => {
+  it('should fall back to the dose unit when the name is not a supply', () => {
+    expect(resolveSupplyType('Accu-Chek Guide', 'test')).toBe('test_strip');
+    expect(resolveSupplyType('BD Nano', 'injection')).toBe('pen_needle');
+    expect(resolveSupplyType('lancets', 'test')).toBe('lancet');
+  });
+});
+
+describe('countSuppliesInPackage', () => {
+  it('should multiply counts down to the supply level', () => {
+    expect(countSuppliesInPackage('100 STRIP in 1 BOX')).toBe(100);
+    expect(countSuppliesInPackage('2 BOX in 1 CARTON > 50 STRIP in 1 BOX')).toBe(100);
+    expect(countSuppliesInPackage('100 NEEDLE in 1 BOX')).toBe(100);
+  });
+
+  it('should return 0 for other packages', () => {
+    expect(countSuppliesInPackage('100 TABLET in 1 BOTTLE')).toBe(0);
+    expect(countSuppliesInPackage(undefined)).toBe(0);
+  });
+});
+
+describe('calculateSupplyBoxesNeeded', () => {
+  it('should pick the standard box count with the fewest leftovers', () => {
+    expect(calculateSupplyBoxesNeeded(120, 'test_strip')).toEqual({ boxSize: 50, boxes: 3, totalSupplies: 150 });
+    expect(calculateSupplyBoxesNeeded(200, 'test_strip')).toEqual({ boxSize: 100, boxes: 2, totalSupplies: 200 });
+    expect(calculateSupplyBoxesNeeded(101, 'lancet')).toEqual({ boxSize: 102, boxes: 1, totalSupplies: 102 });
+  });
+
+  it('should ignore packages that are not supplies', () => {
+    const packages = [{ ndc: '00000000001', pkg_size: 30, active: true, package_description: '30 TABLET in 1 BOTTLE' }];
+    expect(calculateSupplyBoxesNeeded(40, 'test_strip', packages).boxSize).toBe(50);
+  });
+});
+
+describe('suggestPenNeedles', () => {
+  it('should suggest one needle per injection in whole boxes', () => {
+    expect(suggestPenNeedles(90)).toMatchObject({ supply: 'pen_needle', unit: 'needle', quantity: 100, boxes: 1 });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Supplies Configuration Utilities
+ *
+ * This module provides configuration for diabetic testing supplies
+ * (test strips, lancets, pen needles): which use each supply follows,
+ * standard box counts and whole-box rounding.
+ */
+
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Diabetic supply type
+ */
+export type SupplyType = 'test_strip' | 'lancet' | 'pen_needle';
+
+/**
+ * Dispensed unit for each supply type
+ */
+export const SUPPLY_UNITS: Record<SupplyType, string> = {
+  test_strip: 'strip',
+  lancet: 'lancet',
+  pen_needle: 'needle',
+};
+
+/**
+ * Supply keywords in drug names, checked in order (pen needles before the bare "needle")
+ */
+const SUPPLY_KEYWORDS: Array<{ keyword: string; type: SupplyType }> = [
+  { keyword: 'test strip', type: 'test_strip' },
+  { keyword: 'glucose strip', type: 'test_strip' },
+  { keyword: 'strips', type: 'test_strip' },
+  { keyword: 'lancet', type: 'lancet' },
+  { keyword: 'pen needle', type: 'pen_needle' },
+  { keyword: 'needles', type: 'pen_needle' },
+];
+
+/**
+ * Standard box counts (strips 50/100, lancets 100/102, pen needles 50/100)
+ */
+export const SUPPLY_BOX_SIZES: Record<SupplyType, number[]> = {
+  test_strip: [50, 100],
+  lancet: [100, 102],
+  pen_needle: [50, 100],
+};
+
+/**
+ * Match a drug name to a supply type
+ *
+ * @param drugName - Drug/product name
+ * @returns Supply type, or null if the name is not a known supply
+ */
+export function getSupplyType(drugName: string): SupplyType | null {
+  if (!drugName) {
+    return null;
+  }
+
+  const normalizedName = drugName.toLowerCase().trim();
+  return SUPPLY_KEYWORDS.find(({ keyword }) => normalizedName.includes(keyword))?.type ?? null;
+}
+
+/**
+ * Resolve the supply dispensed for a drug name and dose unit
+ *
+ * The drug name wins; otherwise tests map to test strips and injections to pen needles.
+ *
+ * @param drugName - Drug/product name
+ * @param doseUnit - Parsed dose unit ('test', 'injection', 'strip', 'lancet', 'needle')
+ * @returns Supply type
+ */
+export function resolveSupplyType(drugName: string, doseUnit: string): SupplyType {
+  const named = getSupplyType(drugName);
+  if (named) {
+    return named;
+  }
+  if (doseUnit === 'lancet') {
+    return 'lancet';
+  }
+  return doseUnit === 'needle' || doseUnit === 'injection' ? 'pen_needle' : 'test_strip';
+}
+
+/**
+ * Count supplies in an FDA package description
+ *
+ * Counts along the packaging chain are multiplied down to the supply level:
+ * - "100 STRIP in 1 BOX" = 100 strips
+ * - "2 BOX in 1 CARTON > 50 STRIP in 1 BOX" = 100 strips
+ *
+ * @param description - FDA package description
+ * @returns Supplies per package, or 0 if the description does not name a supply
+ */
+export function countSuppliesInPackage(description: string | undefined): number {
+  let supplies = 1;
+  for (const level of (description || '').split('>')) {
+    const countMatch = level.match(/^\s*(\d+)\s+([A-Z, ]+?)\s+in\b/i);
+    if (!countMatch) {
+      return 0;
+    }
+    supplies *= parseInt(countMatch[1], 10);
+    if (/strip|lancet|needle/i.test(countMatch[2])) {
+      return supplies;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Pick the box count covering the supplies needed with the fewest leftovers
+ *
+ * Uses box counts found among the available packages, falling back to the
+ * standard box counts for the supply; ties go to the option with fewer boxes.
+ *
+ * @param supplies - Supplies needed
+ * @param type - Supply type
+ * @param availablePackages - Optional available packages
+ * @returns Box count, number of boxes and dispensed supplies
+ */
+export function calculateSupplyBoxesNeeded(
+  supplies: number,
+  type: SupplyType,
+  availablePackages?: NDCPackageData[]
+): { boxSize: number; boxes: number; totalSupplies: number } {
+  // Only packages whose description names the supply (name lookups can return unrelated products)
+  const packageSizes = (availablePackages || [])
+    .filter((pkg) => pkg.active)
+    .map((pkg) => countSuppliesInPackage(pkg.package_description))
+    .filter((size) => size > 0);
+  const sizes = packageSizes.length > 0 ? Array.from(new Set(packageSizes)) : SUPPLY_BOX_SIZES[type];
+
+  let best = { boxSize: sizes[0], boxes: 0, totalSupplies: Infinity };
+  for (const boxSize of sizes) {
+    // Always round up to whole boxes (no partial boxes)
+    const boxes = Math.max(Math.ceil(supplies / boxSize), 1);
+    const totalSupplies = boxes * boxSize;
+    if (totalSupplies < best.totalSupplies || (totalSupplies === best.totalSupplies && boxes < best.boxes)) {
+      best = { boxSize, boxes, totalSupplies };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Companion supply suggested alongside a drug
+ */
+export interface CompanionSupply {
+  supply: SupplyType;
+  unit: string;
+  quantity: number; // Supplies dispensed in whole boxes
+  box_size: number;
+  boxes: number;
+  basis: string; // Human-readable basis for the suggestion
+}
+
+/**
+ * Suggest pen needles for an insulin pen - one needle per injection
+ *
+ * @param injections - Injections over the days supply
+ * @returns Pen needle suggestion in whole standard boxes
+ */
+export function suggestPenNeedles(injections: number): CompanionSupply {
+  const { boxSize, boxes, totalSupplies } = calculateSupplyBoxesNeeded(injections, 'pen_needle');
+  return {
+    supply: 'pen_needle',
+    unit: SUPPLY_UNITS.pen_needle,
+    quantity: totalSupplies,
+    box_size: boxSize,
+    boxes,
+    basis: `1 pen needle per injection × ${injections} injections`,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Topical Configuration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateTopicalAmount, calculateTubesNeeded, FINGERTIP_UNIT_GRAMS } from './topical-config';
+
+describe('estimateTopicalAmount', () => {
+  it('should use explicit gram amounts', () => {
+    expect(estimateTopicalAmount('apply 2 g to knees QID')).toEqual({ basis: 'explicit', grams_per_application: 2 });
+  });
+
+  it('should convert fingertip units to grams', () => {
+    const result = estimateTopicalAmount('apply 3 FTU to affected area BID');
+    expect(result.basis).toBe('fingertip_units');
+    expect(result.grams_per_application).toBe(3 * FINGERTIP_UNIT_GRAMS);
+  });
+
+  it('should estimate from body areas', () => {
+    const result = estimateTopicalAmount('apply thin layer to face and neck daily');
+    expect(result.basis).toBe('body_area');
+    expect(result.areas).toEqual(['face and neck']);
+    expect(result.grams_per_application).toBe(1.25);
+    expect(result.assumption).toContain('face and neck');
+  });
+
+  it('should add up several body areas', () => {
+    expect(estimateTopicalAmount('apply to both hands and feet BID').grams_per_application).toBe(3);
+  });
+
+  it('should assume a small area for "affected area"', () => {
+    const result = estimateTopicalAmount('apply thin layer to affected area BID');
+    expect(result.basis).toBe('default');
+    expect(result.grams_per_application).toBe(0.5);
+    expect(result.assumption).toBeDefined();
+  });
+});
+
+describe('calculateTubesNeeded', () => {
+  it('should pick the smallest standard tube covering the amount', () => {
+    expect(calculateTubesNeeded(12)).toEqual({ tubeSize: 15, tubes: 1, totalGrams: 15 });
+    expect(calculateTubesNeeded(40)).toEqual({ tubeSize: 45, tubes: 1, totalGrams: 45 });
+  });
+
+  it('should use tube sizes from active packages', () => {
+    const packages = [
+      { ndc: '00000000001', pkg_size: 30, active: true },
+      { ndc: '00000000002', pkg_size: 60, active: true },
+    ];
+    expect(calculateTubesNeeded(40, packages)).toEqual({ tubeSize: 60, tubes: 1, totalGrams: 60 });
+    expect(calculateTubesNeeded(100, packages)).toEqual({ tubeSize: 60, tubes: 2, totalGrams: 120 });
+  });
+});
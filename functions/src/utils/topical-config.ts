@@ -0,0 +1,151 @@
+/**
+ * Topical Configuration Utilities
+ * 
+ * This module provides configuration for creams, ointments and gels,
+ * including fingertip-unit (FTU) body-area estimates and tube sizes.
+ * 1 FTU (adult fingertip, ~0.5 g) covers about two adult handprints.
+ */
+
+import type { NDCPackageData } from '../types/index';
+
+/**
+ * Grams per fingertip unit
+ */
+export const FINGERTIP_UNIT_GRAMS = 0.5;
+
+/**
+ * Fingertip units per application by body area (adult)
+ * Key: body area phrase (lowercase), Value: FTUs per application
+ */
+export const BODY_AREA_FTU: Record<string, number> = {
+  'entire body': 40,
+  'whole body': 40,
+  'face and neck': 2.5,
+  'face': 2.5,
+  'neck': 1,
+  'scalp': 3,
+  'hand': 1,
+  'hands': 2,
+  'arm': 3,
+  'arms': 6,
+  'foot': 2,
+  'feet': 4,
+  'leg': 6,
+  'legs': 12,
+  'chest': 7,
+  'abdomen': 7,
+  'trunk': 14,
+  'back': 7,
+};
+
+/**
+ * Default fingertip units when only "affected area" is given (a small area)
+ */
+export const DEFAULT_TOPICAL_FTU = 1;
+
+/**
+ * Standard tube/jar sizes (in grams)
+ */
+export const TOPICAL_TUBE_SIZES = [15, 30, 45, 60, 80, 454];
+
+/**
+ * Topical amount estimate per application
+ */
+export interface TopicalEstimate {
+  basis: 'explicit' | 'fingertip_units' | 'body_area' | 'default';
+  grams_per_application: number;
+  fingertip_units?: number;
+  areas?: string[];
+  assumption?: string; // Present when the amount is estimated rather than written
+}
+
+const EXPLICIT_GRAMS_PATTERN = /\b(\d*\.?\d+)\s*(?:g|gm|grams?)\b/i;
+const FINGERTIP_UNIT_PATTERN = /\b(\d*\.?\d+)\s*(?:ftus?|fingertip units?)\b/i;
+
+/**
+ * Estimate grams per application from a topical SIG
+ * 
+ * Explicit amounts ("apply 2 g") win, then fingertip units ("2 FTU"), then body
+ * areas ("to face and neck"), and finally a small affected area.
+ * 
+ * @param sig - Prescription SIG text
+ * @returns Amount per application and how it was estimated
+ */
+export function estimateTopicalAmount(sig: string): TopicalEstimate {
+  const gramsMatch = sig.match(EXPLICIT_GRAMS_PATTERN);
+  if (gramsMatch) {
+    return { basis: 'explicit', grams_per_application: parseFloat(gramsMatch[1]) };
+  }
+
+  const ftuMatch = sig.match(FINGERTIP_UNIT_PATTERN);
+  if (ftuMatch) {
+    const fingertipUnits = parseFloat(ftuMatch[1]);
+    return {
+      basis: 'fingertip_units',
+      grams_per_application: fingertipUnits * FINGERTIP_UNIT_GRAMS,
+      fingertip_units: fingertipUnits,
+    };
+  }
+
+  // Longest phrases first so "face and neck" is not counted as "face" plus "neck"
+  let remaining = sig.toLowerCase();
+  const areas: string[] = [];
+  let fingertipUnits = 0;
+  for (const area of Object.keys(BODY_AREA_FTU).sort((a, b) => b.length - a.length)) {
+    const pattern = new RegExp(`\\b${area}\\b`);
+    if (pattern.test(remaining)) {
+      areas.push(area);
+      fingertipUnits += BODY_AREA_FTU[area];
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+
+  if (areas.length > 0) {
+    return {
+      basis: 'body_area',
+      grams_per_application: fingertipUnits * FINGERTIP_UNIT_GRAMS,
+      fingertip_units: fingertipUnits,
+      areas,
+      assumption: `Estimated ${fingertipUnits} fingertip unit(s) (${fingertipUnits * FINGERTIP_UNIT_GRAMS} g) per application for ${areas.join(', ')}`,
+    };
+  }
+
+  return {
+    basis: 'default',
+    grams_per_application: DEFAULT_TOPICAL_FTU * FINGERTIP_UNIT_GRAMS,
+    fingertip_units: DEFAULT_TOPICAL_FTU,
+    assumption: `Affected area size not given - assumed ${DEFAULT_TOPICAL_FTU} fingertip unit (${DEFAULT_TOPICAL_FTU * FINGERTIP_UNIT_GRAMS} g) per application`,
+  };
+}
+
+/**
+ * Pick the tube size covering an amount with the fewest tubes
+ * 
+ * Uses sizes found among the available packages, falling back to standard
+ * tube sizes. Ties go to the option with the least grams.
+ * 
+ * @param grams - Amount needed (g)
+ * @param availablePackages - Optional available packages (pkg_size in g)
+ * @returns Tube size, tube count and dispensed grams
+ */
+export function calculateTubesNeeded(
+  grams: number,
+  availablePackages?: NDCPackageData[]
+): { tubeSize: number; tubes: number; totalGrams: number } {
+  const packageSizes = (availablePackages || [])
+    .filter((pkg) => pkg.active && pkg.pkg_size > 0)
+    .map((pkg) => pkg.pkg_size);
+  const sizes = packageSizes.length > 0 ? Array.from(new Set(packageSizes)) : TOPICAL_TUBE_SIZES;
+
+  let best = { tubeSize: sizes[0], tubes: 0, totalGrams: Infinity };
+  for (const tubeSize of sizes) {
+    // Always round up to whole tubes (no partial tubes)
+    const tubes = Math.max(Math.ceil(grams / tubeSize), 1);
+    const totalGrams = tubes * tubeSize;
+    if (best.tubes === 0 || tubes < best.tubes || (tubes === best.tubes && totalGrams < best.totalGrams)) {
+      best = { tubeSize, tubes, totalGrams };
+    }
+  }
+
+  return best;
+}
@@ -8,6 +8,11 @@ import {
   roundLiquidVolume,
   normalizeLiquidUnit,
   isLiquidUnit,
+  isMassUnit,
+  convertToMg,
+  parseStrength,
+  isSameConcentration,
+  convertMassToVolume,
 } from './unit-conversions';
 
 describe('convertToML', () => {
@@ -123,4 +128,62 @@ describe('isLiquidUnit', () => {
   });
 });
 
+describe('isMassUnit', () => {
+  it('should return true for mass units', () => {
+    expect(isMassUnit('mg')).toBe(true);
+    expect(isMassUnit('MCG')).toBe(true);
+    expect(isMassUnit('gram')).toBe(true);
+  });
+
+  it('should return false for non-mass units', () => {
+    expect(isMassUnit('mL')).toBe(false);
+    expect(isMassUnit('tab')).toBe(false);
+  });
+});
+
+describe('convertToMg', () => {
+  it('should convert mass units to mg', () => {
+    expect(convertToMg(500, 'mg')).toBe(500);
+    expect(convertToMg(0.5, 'g')).toBe(500);
+    expect(convertToMg(50, 'mcg')).toBeCloseTo(0.05);
+  });
+
+  it('should throw for unknown units', () => {
+    expect(() => convertToMg(1, 'tab')).toThrow('Unknown unit: tab');
+  });
+});
+
+describe('parseStrength', () => {
+  it('should parse FDA solid and liquid strengths', () => {
+    expect(parseStrength('500 mg/1')).toEqual({ amount: 500, unit: 'mg', per_amount: 1, per_unit: null });
+    expect(parseStrength('250 mg/5mL')).toEqual({ amount: 250, unit: 'mg', per_amount: 5, per_unit: 'mL' });
+    expect(parseStrength('10 mg/mL')).toEqual({ amount: 10, unit: 'mg', per_amount: 1, per_unit: 'mL' });
+  });
 
+  it('should parse written concentrations', () => {
+    expect(parseStrength('250 mg / 5 mL')).toEqual({ amount: 250, unit: 'mg', per_amount: 5, per_unit: 'mL' });
+    expect(parseStrength('40 mg per mL')?.per_unit).toBe('mL');
+  });
+
+  it('should return null for non-mass strengths', () => {
+    expect(parseStrength('100 [iU]/mL')).toBeNull();
+    expect(parseStrength('250 mg')).toBeNull();
+  });
+});
+
+describe('isSameConcentration', () => {
+  it('should compare concentrations by mg per mL', () => {
+    const perFive = { amount: 250, unit: 'mg' as const, per_amount: 5, per_unit: 'mL' as const };
+    const perOne = { amount: 50, unit: 'mg' as const, per_amount: 1, per_unit: 'mL' as const };
+    expect(isSameConcentration(perFive, perOne)).toBe(true);
+    expect(isSameConcentration(perFive, { ...perOne, amount: 80 })).toBe(false);
+  });
+});
+
+describe('convertMassToVolume', () => {
+  it('should convert a mass dose into mL', () => {
+    const concentration = { amount: 250, unit: 'mg' as const, per_amount: 5, per_unit: 'mL' as const };
+    expect(convertMassToVolume(400, 'mg', concentration)).toBe(8);
+    expect(convertMassToVolume(0.5, 'g', concentration)).toBe(10);
+  });
+});
@@ -1,10 +1,14 @@
 /**
  * Unit Conversion Utilities
  * 
- * This module provides conversion utilities for liquid medication volumes.
- * All conversions normalize to mL as the canonical unit.
+ * This module provides conversion utilities for liquid medication volumes and mass doses.
+ * Liquid conversions normalize to mL and mass conversions normalize to mg.
+ * Product strengths/concentrations ("500 mg/1", "250 mg/5 mL") convert mass doses into
+ * dispensable units.
  */
 
+import type { ProductStrength } from '../types/index';
+
 /**
  * Conversion factors to mL
  */
@@ -90,4 +94,147 @@ export function isLiquidUnit(unit: string): boolean {
   return LIQUID_CONVERSIONS[normalizedUnit] !== undefined;
 }
 
+/**
+ * Conversion factors to mg
+ */
+export const MASS_CONVERSIONS: Record<string, number> = {
+  'mg': 1,
+  'milligram': 1,
+  'milligrams': 1,
+  'mcg': 0.001,
+  'ug': 0.001,
+  'µg': 0.001,
+  'microgram': 0.001,
+  'micrograms': 0.001,
+  'g': 1000,
+  'gm': 1000,
+  'gram': 1000,
+  'grams': 1000,
+};
+
+/**
+ * Check if a unit is a mass unit (mg, mcg, g)
+ * 
+ * @param unit - Unit string to check
+ * @returns True if unit is a mass unit
+ */
+export function isMassUnit(unit: string): boolean {
+  return MASS_CONVERSIONS[unit.toLowerCase().trim()] !== undefined;
+}
+
+/**
+ * Convert a mass dose to mg
+ * 
+ * @param value - Numeric value to convert
+ * @param unit - Source unit (e.g., "mcg", "g")
+ * @returns Mass in mg
+ */
+export function convertToMg(value: number, unit: string): number {
+  const conversionFactor = MASS_CONVERSIONS[unit.toLowerCase().trim()];
+
+  if (!conversionFactor) {
+    throw new Error(`Unknown unit: ${unit}`);
+  }
+
+  return value * conversionFactor;
+}
+
+/**
+ * Parse a product strength or liquid concentration
+ * 
+ * Accepts FDA strengths ("500 mg/1", "250 mg/5mL", "10 mg/mL") and written
+ * concentrations ("250 mg/5 mL", "40 mg per mL").
+ * 
+ * @param text - Strength text
+ * @returns Parsed strength or null if the text is not a mass strength
+ */
+export function parseStrength(text: string): ProductStrength | null {
+  const match = text.match(/^\s*(\d*\.?\d+)\s*(mg|mcg|ug|g)\s*(?:\/|per)\s*(\d*\.?\d+)?\s*(ml)?\s*$/i);
+  if (!match) {
+    return null;
+  }
+
+  const unit = match[2].toLowerCase();
+  const perAmount = match[3] ? parseFloat(match[3]) : 1;
+  if (perAmount <= 0) {
+    return null;
+  }
+
+  return {
+    amount: parseFloat(match[1]),
+    unit: unit === 'ug' ? 'mcg' : (unit as ProductStrength['unit']),
+    per_amount: perAmount,
+    per_unit: match[4] ? 'mL' : null,
+  };
+}
+
+/**
+ * Format a liquid concentration for display (e.g., "250 mg/5 mL")
+ * 
+ * @param concentration - Liquid concentration
+ * @returns Display string
+ */
+export function formatConcentration(concentration: ProductStrength): string {
+  return `${concentration.amount} ${concentration.unit}/${concentration.per_amount} mL`;
+}
+
+/**
+ * Check whether two liquid concentrations are equivalent (e.g., "50 mg/mL" and "250 mg/5 mL")
+ * 
+ * @param a - First concentration
+ * @param b - Second concentration
+ * @returns True if both contain the same mg per mL
+ */
+export function isSameConcentration(a: ProductStrength, b: ProductStrength): boolean {
+  const mgPerMLA = convertToMg(a.amount, a.unit) / a.per_amount;
+  const mgPerMLB = convertToMg(b.amount, b.unit) / b.per_amount;
+  return Math.abs(mgPerMLA - mgPerMLB) < 1e-9;
+}
+
+/**
+ * Convert a mass dose into a liquid volume using a concentration
+ * 
+ * @param value - Dose amount
+ * @param unit - Dose mass unit (mg, mcg, g)
+ * @param concentration - Liquid concentration (e.g., 250 mg/5 mL)
+ * @returns Volume in mL
+ */
+export function convertMassToVolume(value: number, unit: string, concentration: ProductStrength): number {
+  const doseMg = convertToMg(value, unit);
+  const concentrationMg = convertToMg(concentration.amount, concentration.unit);
+  return (doseMg / concentrationMg) * concentration.per_amount;
+}
+
+/**
+ * Convert a patient weight to kg
+ * 
+ * @param value - Weight value
+ * @param unit - 'kg' or 'lb'
+ * @returns Weight in kg
+ */
+export function convertWeightToKg(value: number, unit: 'kg' | 'lb'): number {
+  return unit === 'lb' ? value * 0.45359237 : value;
+}
 
+/**
+ * Oral syringe measuring increments by dose volume (smaller syringes have finer markings)
+ */
+const MEASURABLE_VOLUME_INCREMENTS: Array<{ maxVolume: number; increment: number }> = [
+  { maxVolume: 1, increment: 0.05 }, // 1 mL syringe
+  { maxVolume: 5, increment: 0.1 }, // 5 mL syringe
+  { maxVolume: 10, increment: 0.2 }, // 10 mL syringe
+  { maxVolume: Infinity, increment: 0.5 },
+];
+
+/**
+ * Round a single liquid dose to a volume measurable with an oral syringe
+ * 
+ * @param volume - Dose volume in mL
+ * @returns Rounded volume and the increment used
+ */
+export function roundMeasurableVolume(volume: number): { volume: number; increment: number } {
+  const { increment } = MEASURABLE_VOLUME_INCREMENTS.find(({ maxVolume }) => volume <= maxVolume)!;
+  // Round to the increment, keeping at least one increment, and strip floating point noise
+  const rounded = Math.max(Math.round(volume / increment), 1) * increment;
+  return { volume: Math.round(rounded * 100) / 100, increment };
+}
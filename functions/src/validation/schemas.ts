@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { parseStrength } from '../utils/unit-conversions';
 import type { ComputeRequest, ErrorCode } from '../types/index';
 
 /**
@@ -30,6 +31,12 @@ const ndcStringSchema = z.string().regex(ndcFormatRegex, {
  * - days_supply: Required, integer, 1-365
  * - preferred_ndcs: Optional, array of valid NDC format strings, max 10 NDCs
  * - quantity_unit_override: Optional, must be one of: 'tab', 'cap', 'mL', 'actuation', 'unit'
+ * - range_policy: Optional, must be one of: 'max', 'min', 'average'
+ * - duration_policy: Optional, must be one of: 'sig', 'days_supply'
+ * - concentration: Optional, liquid concentration such as "250 mg/5 mL"
+ * - patient_weight: Optional, positive weight in 'kg' (max 500) or 'lb' (max 1100)
+ * - dosing_mode: Optional, must be one of: 'standard', 'weight_based'
+ * - include_supplies: Optional, boolean
  */
 export const computeRequestSchema: z.ZodType<ComputeRequest> = z.object({
   drug_input: z
@@ -76,6 +83,52 @@ export const computeRequestSchema: z.ZodType<ComputeRequest> = z.object({
     })
     .optional()
     .describe('Optional override unit type'),
+
+  range_policy: z
+    .enum(['max', 'min', 'average'], {
+      message: 'range_policy must be one of: max, min, average',
+    })
+    .optional()
+    .describe('Which end of a dose range to use for quantity (default: max)'),
+
+  duration_policy: z
+    .enum(['sig', 'days_supply'], {
+      message: 'duration_policy must be one of: sig, days_supply',
+    })
+    .optional()
+    .describe('Whether a SIG duration or days_supply wins when they disagree (default: sig)'),
+
+  concentration: z
+    .string()
+    .max(50, { message: 'concentration must be at most 50 characters' })
+    .refine((val) => parseStrength(val)?.per_unit === 'mL', {
+      message: 'concentration must be a liquid concentration such as "250 mg/5 mL"',
+    })
+    .optional()
+    .describe('Optional liquid concentration used to convert mg doses into mL'),
+
+  patient_weight: z
+    .object({
+      value: z.number().positive({ message: 'patient_weight.value must be greater than 0' }),
+      unit: z.enum(['kg', 'lb'], { message: 'patient_weight.unit must be one of: kg, lb' }),
+    })
+    .refine((weight) => weight.value <= (weight.unit === 'kg' ? 500 : 1100), {
+      message: 'patient_weight must be at most 500 kg (1100 lb)',
+    })
+    .optional()
+    .describe('Optional patient weight, required for weight-based (mg/kg) SIGs'),
+
+  dosing_mode: z
+    .enum(['standard', 'weight_based'], {
+      message: 'dosing_mode must be one of: standard, weight_based',
+    })
+    .optional()
+    .describe('Dosing mode - weight_based requires an mg/kg SIG (default: standard)'),
+
+  include_supplies: z
+    .boolean({ message: 'include_supplies must be a boolean' })
+    .optional()
+    .describe('Suggest companion supplies (pen needles) for insulin pens'),
 });
 
 /**
@@ -14,19 +14,25 @@ export type ComputeRequest = {
 	days_supply: number;
 	preferred_ndcs?: string[];
 	quantity_unit_override?: 'tab' | 'cap' | 'mL' | 'actuation' | 'unit';
+	range_policy?: 'max' | 'min' | 'average';
+	duration_policy?: 'sig' | 'days_supply';
+	concentration?: string;
+	patient_weight?: { value: number; unit: 'kg' | 'lb' };
+	dosing_mode?: 'standard' | 'weight_based';
+	include_supplies?: boolean;
 };
 
 /**
  * Dosage form type
  */
-export type DosageFormType = 'inhaler' | 'insulin' | 'liquid' | 'solid';
+export type DosageFormType = 'inhaler' | 'nasal_spray' | 'insulin' | 'drops' | 'topical' | 'patch' | 'injectable' | 'supplies' | 'liquid' | 'solid';
 
 /**
  * Response payload from the compute API endpoint
  */
 export type ComputeResponse = {
 	rxnorm: { rxcui: string; name: string };
-	computed: { dose_unit: string; per_day: number; total_qty: number; days_supply: number };
+	computed: { dose_unit: string; per_day: number; total_qty: number; days_supply: number; calendar_days?: number; dosing_days?: number }; // calendar_days/dosing_days present for cyclic regimens
 	ndc_selection: {
 		chosen?: {
 			ndc: string;
@@ -43,11 +49,17 @@ export type ComputeResponse = {
 			packs: number;
 		}>;
 	};
+	companion_supplies?: Array<{ supply: 'test_strip' | 'lancet' | 'pen_needle'; unit: string; quantity: number; box_size: number; boxes: number; basis: string }>; // Present when include_supplies is set for an insulin pen
 	flags: {
 		inactive_ndcs: string[];
 		mismatch: boolean;
 		notes?: string[];
 		error_code?: string | null;
+		prn?: boolean; // As-needed SIG - quantity is based on maximum daily use
+		days_supply_conflict?: { sig_days: number; days_supply: number; source: 'phases' | 'duration'; applied: 'sig' | 'days_supply' }; // SIG schedule length differs from days_supply
+		multiple_concentrations?: string[]; // Several liquid concentrations of the drug exist - confirm the dispensed one
+		beyond_use_exceeded?: { beyond_use_days: number; days_supply: number; bottles: number }; // Reconstituted suspension outlasts its beyond-use date - fill split into bottles
+		dose_pack_mismatch?: { pack_units: number; sig_quantity: number; packs: number; course_days?: number; sig_days?: number }; // SIG quantity or days do not match whole dose packs - dispensed in whole packs
 	};
 	reasoning?: {
 		api_calls: {
@@ -58,17 +70,69 @@ export type ComputeResponse = {
 		sig_parsing: {
 			original_sig: string;
 			method: 'rules' | 'ai' | 'failed';
-			sub_method?: 'time-based' | 'frequency-based'; // Sub-method for rules-based parsing
+			sub_method?: 'time-based' | 'frequency-based' | 'prn' | 'multi-phase' | 'non-daily' | 'weekday' | 'cyclic' | 'strength-based' | 'weight-based' | 'topical' | 'patch' | 'supplies'; // Sub-method for rules-based parsing
 			parsed: { dose_unit: string; per_day: number; quantity_per_dose: number; frequency: number } | null;
-			unit_conversion?: { from: string; to: string; original: number; converted: number };
+			interval_hours?: { min: number; max: number; used: number }; // Hourly interval the frequency was derived from (q6h, q4-6h)
+			prn?: { basis: 'max_daily_dose' | 'max_scheduled_frequency'; max_per_day: number; assumption: string }; // As-needed dosing assumption
+			phases?: Array<{ quantity_per_dose: number; frequency: number; per_day: number; duration_days: number | null }>; // Taper/titration phases
+			dosing_schedule?: { doses: number; period_days: number; label: string }; // Non-daily schedule (QOD, weekly, monthly)
+			weekday_schedule?: number[]; // Quantity per weekday, Monday first
+			cycle?: { days_on: number; days_off: number }; // On/off cycle - per_day applies to dosing days
+			topical?: { basis: 'explicit' | 'fingertip_units' | 'body_area' | 'default'; grams_per_application: number; fingertip_units?: number; areas?: string[]; assumption?: string }; // Grams per application for creams/ointments
+			wear_hours?: number; // Patches: hours each patch is worn before removal
+			application_sites?: number; // Drops/nasal sprays: eyes, ears or nostrils dosed per administration (OU, each nostril = 2)
+			tablet_splitting?: { doses: number[]; assumption: string }; // Fractional tablet doses that require splitting
+			dose_range?: { min: number; max: number; policy: 'max' | 'min' | 'average'; used: number }; // Dose range and the policy applied
+			structured?: {
+				verb: string | null;
+				route: string | null;
+				site: string | null;
+				duration_days: number | null;
+				indication: string | null;
+				timing: string[];
+				prn: boolean;
+				dose_quantity: number | null;
+				dose_unit: string | null;
+				frequency_per_day: number | null;
+				expanded_sig: string;
+			}; // Structured SIG (route, verb, site, duration, indication, timing anchors)
+			unit_conversion?: { from: string; to: string; original: number; converted: number; strength?: string }; // strength present for mass doses converted via product strength
+			weight_based_dosing?: {
+				weight: { value: number; unit: 'kg' | 'lb' };
+				weight_kg: number;
+				amount_per_kg: number;
+				basis: 'day' | 'dose';
+				doses_per_day: number;
+				per_dose: number;
+				per_day: number;
+				unit: string;
+				measurable_dose?: { before: number; after: number; increment: number }; // Per-dose mL rounded to an oral syringe increment
+			}; // Weight math for mg/kg SIGs
+			injectable_device?: {
+				device: 'pen' | 'syringe' | 'vial';
+				dose_mg: number;
+				devices_per_dose: number;
+				doses_per_device: number;
+				capacity: string;
+				dose_volume_ml?: number;
+			}; // Device math for pens/prefilled syringes/vials dosed in mg
 		};
 		dosage_form: {
 			detected: DosageFormType;
 			method: string;
 			matched_keywords?: string[];
+			device_type?: 'mdi' | 'blister_dpi' | 'capsule_dpi'; // Inhalers: metered-dose, blister or capsule dry-powder device
 		};
 		quantity_calculation: {
 			base_calculation: { per_day: number; days_supply: number; total_qty: number };
+			phase_schedule?: {
+				phases: Array<{ per_day: number; days: number; quantity: number; open_ended: boolean }>;
+				schedule_days: number;
+				days_supply_mismatch: boolean;
+			};
+			dose_schedule?: { label: string; doses_per_period: number; period_days: number; quantity_per_dose: number; dose_count: number };
+			weekday_schedule?: { weekly_total: number; full_weeks: number; remainder_days: number; remainder_qty: number; assumption?: string };
+			cycle_schedule?: { days_on: number; days_off: number; cycle_length: number; cycles: number; calendar_days: number; dosing_days: number };
 			rounding: {
 				applied: boolean;
 				rule: string;